@@ -0,0 +1,89 @@
+import type { MockRule } from '@/types/test';
+import type { TabTracker } from './TabTracker';
+import { installMockHook } from './pageHooks';
+
+/**
+ * Applies a test's mock rules to the run's tabs
+ * Block rules become declarativeNetRequest session rules limited to the tracked
+ * tabs. Mocks and delays are answered by a MAIN-world fetch/XHR shim, injected
+ * into every frame as soon as its document commits; requests a page makes
+ * before the shim lands go out unmocked.
+ */
+export class NetworkMocker {
+  private blockedTabs: number[] = [];
+
+  constructor(private rules: MockRule[], private tabs: TabTracker) {}
+
+  async start(): Promise<void> {
+    chrome.webNavigation.onCommitted.addListener(this.handleCommitted);
+    await this.updateBlockRules();
+    await Promise.all(this.tabs.getAll().map((tabId) => inject({ tabId, allFrames: true }, this.rules)));
+  }
+
+  async dispose(): Promise<void> {
+    chrome.webNavigation.onCommitted.removeListener(this.handleCommitted);
+    await NetworkMocker.clearBlockRules();
+    await Promise.all(this.tabs.getAll().map((tabId) => inject({ tabId, allFrames: true }, [])));
+  }
+
+  /**
+   * Session rules outlive the service worker; drop any a crashed run left behind
+   */
+  static async clearBlockRules(): Promise<void> {
+    const existing = await chrome.declarativeNetRequest.getSessionRules();
+    if (existing.length > 0) {
+      await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: existing.map((rule) => rule.id) });
+    }
+  }
+
+  private async updateBlockRules(): Promise<void> {
+    this.blockedTabs = this.tabs.getAll();
+    const existing = await chrome.declarativeNetRequest.getSessionRules();
+
+    const addRules = this.rules
+      .filter((rule) => rule.action === 'block')
+      .map((rule, index): chrome.declarativeNetRequest.Rule => ({
+        id: index + 1,
+        priority: 1,
+        action: { type: chrome.declarativeNetRequest.RuleActionType.BLOCK },
+        condition: {
+          regexFilter: toRegexSource(rule.urlPattern),
+          isUrlFilterCaseSensitive: false,
+          tabIds: this.blockedTabs,
+          requestMethods: rule.method
+            ? [rule.method.toLowerCase() as chrome.declarativeNetRequest.RequestMethod]
+            : undefined,
+        },
+      }));
+
+    await chrome.declarativeNetRequest.updateSessionRules({
+      removeRuleIds: existing.map((rule) => rule.id),
+      addRules,
+    });
+  }
+
+  private handleCommitted = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails): void => {
+    if (!this.tabs.getAll().includes(details.tabId)) return;
+
+    if (!this.blockedTabs.includes(details.tabId)) {
+      this.updateBlockRules().catch((error) => {
+        console.warn('[QAerx Mocks] Failed to extend block rules to new tab:', error);
+      });
+    }
+    inject({ tabId: details.tabId, frameIds: [details.frameId] }, this.rules);
+  };
+}
+
+function inject(target: chrome.scripting.InjectionTarget, rules: MockRule[]): Promise<void> {
+  return chrome.scripting
+    .executeScript({ target, world: 'MAIN', injectImmediately: true, func: installMockHook, args: [rules] })
+    .then(() => undefined)
+    .catch(() => {
+      // Restricted or already closed page
+    });
+}
+
+// Same matching as the shim: anywhere in the URL, * for any characters
+function toRegexSource(pattern: string): string {
+  return pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+}
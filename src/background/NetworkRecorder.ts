@@ -0,0 +1,147 @@
+import type { HttpHeader, NetworkEntry } from '@/types/result';
+import type { TabTracker } from './TabTracker';
+
+const FILTER: chrome.webRequest.RequestFilter = {
+  urls: ['<all_urls>'],
+  types: ['xmlhttprequest', 'main_frame', 'sub_frame'],
+};
+// Requests kept per step; polling pages would otherwise grow results without bound
+const MAX_ENTRIES = 200;
+
+interface PendingRequest {
+  entry: NetworkEntry;
+  sentAt?: number;
+  headersAt?: number;
+}
+
+/**
+ * Observes fetch/XHR and document requests of the run's tabs with chrome.webRequest
+ * Requests are handed out by take() once they finished, so each lands on the step
+ * during which it completed. Bodies aren't available to webRequest observers.
+ */
+export class NetworkRecorder {
+  private pending = new Map<string, PendingRequest>();
+  private finished: NetworkEntry[] = [];
+
+  constructor(private tabs: TabTracker) {
+    chrome.webRequest.onBeforeRequest.addListener(this.handleBeforeRequest, FILTER);
+    chrome.webRequest.onSendHeaders.addListener(this.handleSendHeaders, FILTER, ['requestHeaders']);
+    chrome.webRequest.onHeadersReceived.addListener(this.handleHeadersReceived, FILTER);
+    chrome.webRequest.onBeforeRedirect.addListener(this.handleBeforeRedirect, FILTER, ['responseHeaders']);
+    chrome.webRequest.onCompleted.addListener(this.handleCompleted, FILTER, ['responseHeaders']);
+    chrome.webRequest.onErrorOccurred.addListener(this.handleErrorOccurred, FILTER);
+  }
+
+  dispose(): void {
+    chrome.webRequest.onBeforeRequest.removeListener(this.handleBeforeRequest);
+    chrome.webRequest.onSendHeaders.removeListener(this.handleSendHeaders);
+    chrome.webRequest.onHeadersReceived.removeListener(this.handleHeadersReceived);
+    chrome.webRequest.onBeforeRedirect.removeListener(this.handleBeforeRedirect);
+    chrome.webRequest.onCompleted.removeListener(this.handleCompleted);
+    chrome.webRequest.onErrorOccurred.removeListener(this.handleErrorOccurred);
+    this.pending.clear();
+    this.finished = [];
+  }
+
+  /**
+   * Requests that finished since the last call
+   */
+  take(): NetworkEntry[] {
+    const taken = this.finished;
+    this.finished = [];
+    return taken;
+  }
+
+  private finish(
+    requestId: string,
+    timeStamp: number,
+    update: Partial<NetworkEntry>,
+    responseHeaders?: chrome.webRequest.HttpHeader[]
+  ): void {
+    const request = this.pending.get(requestId);
+    if (!request) return;
+    this.pending.delete(requestId);
+
+    const { entry, sentAt, headersAt } = request;
+    const headers = responseHeaders && toHeaders(responseHeaders);
+    const contentLength = headers?.find((h) => h.name.toLowerCase() === 'content-length')?.value;
+    const contentType = headers?.find((h) => h.name.toLowerCase() === 'content-type')?.value;
+
+    if (this.finished.length >= MAX_ENTRIES) return;
+    this.finished.push({
+      ...entry,
+      ...update,
+      duration: Math.round(timeStamp - entry.startedAt),
+      timing: sentAt !== undefined && headersAt !== undefined
+        ? {
+            blocked: Math.round(sentAt - entry.startedAt),
+            wait: Math.round(headersAt - sentAt),
+            receive: Math.round(timeStamp - headersAt),
+          }
+        : undefined,
+      size: contentLength !== undefined ? parseInt(contentLength, 10) || 0 : undefined,
+      mimeType: contentType?.split(';')[0].trim(),
+      responseHeaders: headers,
+    });
+  }
+
+  private handleBeforeRequest = (details: chrome.webRequest.WebRequestBodyDetails): void => {
+    if (!this.tabs.getAll().includes(details.tabId)) return;
+
+    this.pending.set(details.requestId, {
+      entry: {
+        requestId: details.requestId,
+        type: details.type === 'xmlhttprequest' ? 'fetch' : 'document',
+        method: details.method,
+        url: details.url,
+        status: 0,
+        startedAt: Math.round(details.timeStamp),
+        duration: 0,
+      },
+    });
+  };
+
+  private handleSendHeaders = (details: chrome.webRequest.WebRequestHeadersDetails): void => {
+    const request = this.pending.get(details.requestId);
+    if (!request) return;
+    request.sentAt = details.timeStamp;
+    request.entry.requestHeaders = details.requestHeaders && toHeaders(details.requestHeaders);
+  };
+
+  private handleHeadersReceived = (details: chrome.webRequest.WebResponseHeadersDetails): void => {
+    const request = this.pending.get(details.requestId);
+    if (request) request.headersAt = details.timeStamp;
+  };
+
+  private handleBeforeRedirect = (details: chrome.webRequest.WebRedirectionResponseDetails): void => {
+    // The redirected request starts over with the same requestId
+    this.finish(
+      details.requestId,
+      details.timeStamp,
+      { status: details.statusCode, statusText: getStatusText(details.statusLine), redirectUrl: details.redirectUrl },
+      details.responseHeaders
+    );
+  };
+
+  private handleCompleted = (details: chrome.webRequest.WebResponseCacheDetails): void => {
+    this.finish(
+      details.requestId,
+      details.timeStamp,
+      { status: details.statusCode, statusText: getStatusText(details.statusLine), fromCache: details.fromCache },
+      details.responseHeaders
+    );
+  };
+
+  private handleErrorOccurred = (details: chrome.webRequest.WebResponseErrorDetails): void => {
+    this.finish(details.requestId, details.timeStamp, { error: details.error });
+  };
+}
+
+function toHeaders(headers: chrome.webRequest.HttpHeader[]): HttpHeader[] {
+  return headers.map((h) => ({ name: h.name, value: h.value ?? '' }));
+}
+
+// "HTTP/1.1 404 Not Found" -> "Not Found"
+function getStatusText(statusLine: string): string {
+  return statusLine.split(' ').slice(2).join(' ');
+}
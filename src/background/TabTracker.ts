@@ -0,0 +1,159 @@
+/**
+ * Tabs and popup windows opened during a test run
+ * The starting tab is index 0; tabs opened from any tracked tab (chrome.tabs.onCreated
+ * with a tracked openerTabId) are appended in opening order. Closed tabs drop out of
+ * the list, the same way the recorder numbers them for switchTab steps.
+ */
+export class TabTracker {
+  private tabs: number[];
+  private openers = new Map<number, number>();
+  // Opened but not yet picked up by a waitForPopup step
+  private unclaimed: number[] = [];
+  private waiter: ((tabId: number) => void) | null = null;
+  private current: number;
+  // The current tab closed itself (window.close()) and we moved on to its opener
+  private closedByPage = false;
+
+  constructor(startTabId: number) {
+    this.tabs = [startTabId];
+    this.current = startTabId;
+    chrome.tabs.onCreated.addListener(this.handleCreated);
+    chrome.tabs.onRemoved.addListener(this.handleRemoved);
+  }
+
+  dispose(): void {
+    chrome.tabs.onCreated.removeListener(this.handleCreated);
+    chrome.tabs.onRemoved.removeListener(this.handleRemoved);
+    this.waiter = null;
+  }
+
+  getCurrent(): number {
+    return this.current;
+  }
+
+  getAll(): number[] {
+    return [...this.tabs];
+  }
+
+  /**
+   * Make the next popup current; resolves immediately if one already opened
+   */
+  async waitForPopup(timeout: number): Promise<number> {
+    const tabId = this.unclaimed.shift() ?? await new Promise<number>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        reject(new Error(`No new tab or window opened within ${timeout}ms`));
+      }, timeout);
+      this.waiter = (id) => {
+        clearTimeout(timer);
+        resolve(id);
+      };
+    });
+
+    await this.activate(tabId);
+    return tabId;
+  }
+
+  async switchTo(target: { index?: number; url?: string }): Promise<number> {
+    let tabId: number | undefined;
+    if (target.url) {
+      for (const id of this.tabs) {
+        const tab = await chrome.tabs.get(id);
+        if (tab.url?.includes(target.url)) {
+          tabId = id;
+          break;
+        }
+      }
+      if (tabId === undefined) throw new Error(`No tab with URL containing "${target.url}"`);
+    } else {
+      tabId = this.tabs[target.index ?? 0];
+      if (tabId === undefined) throw new Error(`No tab at index ${target.index} (${this.tabs.length} open)`);
+    }
+
+    await this.activate(tabId);
+    return tabId;
+  }
+
+  /**
+   * Close the current tab and continue in its opener (or the most recent tab left).
+   * A popup that already closed itself counts as closed.
+   */
+  async closeCurrent(): Promise<number> {
+    if (this.closedByPage) {
+      await this.activate(this.current);
+      return this.current;
+    }
+    if (this.tabs.length === 1) {
+      throw new Error('Cannot close the only tab of the test');
+    }
+
+    const closing = this.current;
+    const next = this.fallback(closing);
+    this.forget(closing);
+    await chrome.tabs.remove(closing);
+    await this.activate(next);
+    return next;
+  }
+
+  /**
+   * Close every tab the test opened and go back to the starting tab
+   */
+  async reset(): Promise<number> {
+    const [startTabId, ...opened] = this.tabs;
+    opened.forEach((id) => this.forget(id));
+    this.unclaimed = [];
+    if (opened.length > 0) {
+      await chrome.tabs.remove(opened).catch(() => {});
+    }
+    await this.activate(startTabId);
+    return startTabId;
+  }
+
+  private async activate(tabId: number): Promise<void> {
+    this.current = tabId;
+    this.closedByPage = false;
+    this.unclaimed = this.unclaimed.filter((id) => id !== tabId);
+    // Screenshots capture the visible tab of the focused window
+    const tab = await chrome.tabs.update(tabId, { active: true });
+    if (tab?.windowId !== undefined) {
+      await chrome.windows.update(tab.windowId, { focused: true });
+    }
+  }
+
+  private fallback(tabId: number): number {
+    const opener = this.openers.get(tabId);
+    if (opener !== undefined && this.tabs.includes(opener)) return opener;
+    return this.tabs.filter((id) => id !== tabId).pop() ?? this.tabs[0];
+  }
+
+  private forget(tabId: number): void {
+    this.tabs = this.tabs.filter((id) => id !== tabId);
+    this.unclaimed = this.unclaimed.filter((id) => id !== tabId);
+    this.openers.delete(tabId);
+  }
+
+  private handleCreated = (tab: chrome.tabs.Tab): void => {
+    if (tab.id === undefined || tab.openerTabId === undefined || !this.tabs.includes(tab.openerTabId)) return;
+
+    this.tabs.push(tab.id);
+    this.openers.set(tab.id, tab.openerTabId);
+    if (this.waiter) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      resolve(tab.id);
+    } else {
+      this.unclaimed.push(tab.id);
+    }
+  };
+
+  private handleRemoved = (tabId: number): void => {
+    if (!this.tabs.includes(tabId)) return;
+    // Closed by the page (window.close()) or the user
+    const next = this.fallback(tabId);
+    this.forget(tabId);
+    if (this.current === tabId) {
+      this.current = next;
+      this.closedByPage = true;
+    }
+  };
+}
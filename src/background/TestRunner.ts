@@ -0,0 +1,1216 @@
+import {
+  FRAME_SEPARATOR,
+  type FixtureFile,
+  type RetryPolicy,
+  type StepCondition,
+  type UIAction,
+  type UIStep,
+} from '@/types/test';
+import type {
+  BudgetViolation,
+  PerformanceSample,
+  RunProgress,
+  RunRequest,
+  RunStepResult,
+  SelectorHealingSuggestion,
+  StepError,
+  TestRun,
+  TraceFrame,
+  UIStepResult,
+} from '@/types/result';
+import type { ValidationContext } from '@/types/validation';
+import type { StepResult as PlaybackStepResult } from '@/content/playback/PlaybackEngine';
+import type { ScreenshotRecord } from '@/types/settings';
+import {
+  FixtureRepository,
+  ResultRepository,
+  ScreenshotRepository,
+  SettingsRepository,
+  StorageStateRepository,
+} from '@/core/storage/repositories';
+import { AIService } from '@/core/services/AIService';
+import { AIValidationService } from '@/core/services/AIValidationService';
+import { VisualDiffService } from '@/core/services/VisualDiffService';
+import { checkBudget, isBlockStep, parseForEachItems } from '@/core/utils';
+import { TabTracker } from './TabTracker';
+import { TraceRecorder } from './TraceRecorder';
+import { NetworkRecorder } from './NetworkRecorder';
+import { NetworkMocker } from './NetworkMocker';
+import { VisualChecker } from './VisualChecker';
+import { getConfig } from '@/config';
+import { v4 as uuid } from 'uuid';
+import { runUserScript } from './pageHooks';
+import { captureStorageState, clearSiteData, restoreCookies, restoreWebStorage } from './storageState';
+
+const DEFAULT_STEP_TIMEOUT = 30000;
+const MAX_NAVIGATION_RETRIES = 2;
+const STEP_DELAY = 300;
+const POPUP_TIMEOUT = 10000;
+// How long an element condition looks for its iframe when it has no timeout of its own
+const CONDITION_FRAME_TIMEOUT = 1000;
+// Extension API calls reset the service worker's idle timer (30s)
+const KEEP_ALIVE_INTERVAL = 20000;
+
+/**
+ * Everything a step needs from the surrounding run
+ */
+interface StepContext {
+  request: RunRequest;
+  tabId: number;
+  stepIndex: number;
+  dataSetIndex: number;
+  variables: Record<string, string>;
+  previousUrl: string;
+  validationService: AIValidationService;
+}
+
+/**
+ * What a step list shares with the block (or data set) it runs in
+ */
+interface StepScope extends Omit<StepContext, 'tabId' | 'stepIndex'> {
+  tabs: TabTracker;
+  autoHealSelectors: boolean;
+  dataSetAttempt: number;
+}
+
+/**
+ * Runs tests from the background service worker
+ * Owns the run state so a run keeps going when the side panel is closed,
+ * persists every step result to IndexedDB and broadcasts progress to the UI
+ * ('runner:progress' / 'runner:completed').
+ */
+export class TestRunner {
+  private progress: RunProgress | null = null;
+  private shouldStop = false;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private tabs: TabTracker | null = null;
+  private traces: TraceRecorder | null = null;
+  private network: NetworkRecorder | null = null;
+  private mocker: NetworkMocker | null = null;
+  private visual: VisualChecker | null = null;
+  private performance: PerformanceSample[] = [];
+  // Set while start() awaits, before progress exists, so a second start is refused
+  private starting = false;
+  private ready: Promise<void>;
+
+  constructor() {
+    // Runs can't survive a service worker restart; close any left open
+    this.ready = this.recoverInterruptedRuns().catch((error) => {
+      console.error('[QAerx Runner] Failed to recover interrupted runs:', error);
+    });
+  }
+
+  getState(): RunProgress | null {
+    return this.progress;
+  }
+
+  isRunning(): boolean {
+    return this.progress?.status === 'running' || this.progress?.status === 'stopping';
+  }
+
+  async start(request: RunRequest): Promise<{ success: boolean; runId?: string; error?: string }> {
+    await this.ready;
+
+    if (this.isRunning()) {
+      return { success: false, error: `"${this.progress!.testName}" is already running` };
+    }
+    if (this.starting) {
+      return { success: false, error: 'Another test is starting' };
+    }
+    if (request.steps.length === 0) {
+      return { success: false, error: 'Add at least one step before running' };
+    }
+
+    this.starting = true;
+    let tabId: number | undefined;
+    let run: TestRun;
+    try {
+      tabId = request.tabId ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+      if (!tabId) {
+        return { success: false, error: 'No active tab found' };
+      }
+      run = await ResultRepository.create(request.testId, request.suiteId);
+    } finally {
+      this.starting = false;
+    }
+
+    this.shouldStop = false;
+    this.performance = [];
+    this.tabs?.dispose();
+    this.tabs = new TabTracker(tabId);
+    this.network?.dispose();
+    this.network = new NetworkRecorder(this.tabs);
+    this.progress = {
+      runId: run.id,
+      testId: request.testId,
+      testName: request.testName,
+      tabId,
+      status: 'running',
+      currentStep: 0,
+      total: request.steps.length,
+      currentDataSet: 0,
+      totalDataSets: request.dataSets.length,
+      currentStepId: null,
+      results: [],
+      startedAt: run.startedAt,
+    };
+    this.broadcast();
+
+    // Not awaited: the caller only needs the run id, progress arrives via broadcasts
+    this.execute(request, this.tabs).catch((error) => {
+      console.error('[QAerx Runner] Run failed to finish:', error);
+      this.stopKeepAlive();
+      if (!this.progress) return;
+      this.progress = {
+        ...this.progress,
+        status: 'error',
+        currentStepId: null,
+        completedAt: Date.now(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+      this.broadcast('runner:completed');
+    });
+
+    return { success: true, runId: run.id };
+  }
+
+  async stop(): Promise<{ success: boolean; error?: string }> {
+    if (!this.progress || !this.isRunning()) {
+      return { success: false, error: 'No test is running' };
+    }
+
+    this.shouldStop = true;
+    this.updateProgress({ status: 'stopping' });
+
+    try {
+      await chrome.tabs.sendMessage(this.progress.tabId, { type: 'playback:stop' });
+    } catch (error) {
+      console.warn('[QAerx Runner] Failed to send stop command:', error);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Close runs that were interrupted by a service worker restart
+   */
+  private async recoverInterruptedRuns(): Promise<void> {
+    await NetworkMocker.clearBlockRules();
+    const count = await ResultRepository.failInterrupted();
+    if (count > 0) {
+      console.warn(`[QAerx Runner] Marked ${count} interrupted run(s) as error`);
+    }
+  }
+
+  private async execute(request: RunRequest, tabs: TabTracker): Promise<void> {
+    const { steps, dataSets } = request;
+    const validationService = new AIValidationService();
+    let runError: string | undefined;
+
+    this.startKeepAlive();
+
+    try {
+      await validationService.initialize();
+    } catch (error) {
+      console.warn('[QAerx Runner] AI validation not available, using fallback:', error);
+    }
+
+    try {
+      const tab = await chrome.tabs.get(tabs.getCurrent());
+      const { autoHealSelectors, traceSteps } = await SettingsRepository.get();
+      this.traces = traceSteps && this.progress ? new TraceRecorder(this.progress.runId) : null;
+      this.visual = getConfig().features.visualComparison && this.progress
+        ? new VisualChecker(this.progress.runId, request.testId)
+        : null;
+      const dataSetRetry = request.retryPolicy?.scope === 'dataSet' ? request.retryPolicy : undefined;
+
+      const mockRules = (request.mockRules ?? []).filter((rule) => rule.enabled && rule.urlPattern.trim());
+      if (getConfig().features.networkMocking && mockRules.length > 0) {
+        this.mocker = new NetworkMocker(mockRules, tabs);
+        await this.mocker.start();
+      }
+
+      const storageState = request.storageState ? await StorageStateRepository.getByName(request.storageState) : undefined;
+      if (request.storageState && !storageState) {
+        throw new Error(`Storage state not found: ${request.storageState}`);
+      }
+
+      // Run for each data set
+      for (let dataSetIndex = 0; dataSetIndex < dataSets.length; dataSetIndex++) {
+        if (this.shouldStop) break;
+        this.updateProgress({ currentDataSet: dataSetIndex });
+
+        for (let attempt = 1; ; attempt++) {
+          let failure: unknown = null;
+          try {
+            // Extract and script steps write into this copy
+            const variables = { ...dataSets[dataSetIndex] };
+
+            // Each data set starts over in the starting tab
+            const tabId = await tabs.reset();
+            this.updateProgress({ tabId });
+
+            const startUrl = request.url && request.url !== 'https://' ? substituteVariables(request.url, variables) : undefined;
+            if (request.clearState && startUrl) {
+              await clearSiteData(tabId, new URL(startUrl).origin);
+            }
+            if (storageState) {
+              await restoreCookies(storageState);
+            }
+
+            // Navigate to initial test URL if specified
+            if (startUrl) {
+              await chrome.tabs.update(tabId, { url: startUrl });
+              await sleep(2500);
+              await this.ensureContentScript(tabId);
+            }
+            if (storageState && (await restoreWebStorage(tabId, storageState))) {
+              const loaded = waitForTabLoad(tabId);
+              await chrome.tabs.reload(tabId);
+              await loaded;
+              await this.ensureContentScript(tabId);
+            }
+            // Requests of the starting page load belong to no step
+            this.network?.take();
+
+            await this.runSteps(steps, {
+              request,
+              tabs,
+              dataSetIndex,
+              variables,
+              previousUrl: tab.url || '',
+              validationService,
+              autoHealSelectors: !!autoHealSelectors,
+              dataSetAttempt: attempt,
+            });
+          } catch (error) {
+            failure = error;
+          }
+
+          // Steps with continueOnFailure fail the data set without stopping it
+          const failed = failure !== null || this.hasFailures(dataSetIndex);
+          if (!failed) break;
+          if (!dataSetRetry || attempt > dataSetRetry.retries || this.shouldStop) {
+            if (failure !== null) throw failure;
+            break;
+          }
+
+          console.info(`[QAerx Runner] Data set ${dataSetIndex + 1} failed, retrying from the start (attempt ${attempt + 1})`);
+          await this.markDataSetRetried(dataSetIndex);
+          await sleep(getRetryDelay(dataSetRetry, attempt));
+        }
+      }
+    } catch (error) {
+      runError = error instanceof Error ? error.message : String(error);
+      console.error('[QAerx Runner] Test execution error:', error);
+    } finally {
+      this.stopKeepAlive();
+      const budgetViolations = request.performanceBudget ? checkBudget(this.performance, request.performanceBudget) : [];
+      await this.finish(runError, budgetViolations);
+    }
+  }
+
+  /**
+   * Execute steps ONE AT A TIME to properly handle navigation between steps.
+   * Throws when a step fails without continueOnFailure.
+   */
+  private async runSteps(steps: UIStep[], scope: StepScope, nested = false): Promise<void> {
+    const { tabs, autoHealSelectors, dataSetAttempt, ...base } = scope;
+
+    for (let i = 0; i < steps.length; i++) {
+      if (this.shouldStop) break;
+
+      const step = steps[i];
+
+      // Progress counts top-level steps; nested steps only move the highlight
+      this.updateProgress(nested ? { currentStepId: step.id } : { currentStepId: step.id, currentStep: i });
+
+      // Disabled steps never touch the tab; disabled blocks skip their nested steps too
+      if (!step.enabled) {
+        await this.recordResult({ dataSetIndex: base.dataSetIndex, stepId: step.id, status: 'skipped', duration: 0 }, step);
+        continue;
+      }
+
+      const context: StepContext = { ...base, tabId: tabs.getCurrent(), stepIndex: i };
+      let result = isBlockStep(step)
+        ? await this.executeBlock(step, context, scope)
+        : await this.executeWithRetries(step, context, autoHealSelectors);
+      if (dataSetAttempt > 1 && result.attempt === undefined) {
+        result = { ...result, attempt: dataSetAttempt };
+      }
+      if (result.extracted) {
+        scope.variables[result.extracted.variable] = result.extracted.value;
+      }
+      await this.recordResult(result, step);
+
+      // If step failed, don't continue unless continueOnFailure is set
+      if (result.status === 'failed' && !step.continueOnFailure) {
+        throw new Error(result.error || 'Step failed');
+      }
+
+      // Small delay between steps
+      if (i < steps.length - 1) {
+        await sleep(STEP_DELAY);
+      }
+    }
+  }
+
+  /**
+   * Execute a step, healing it if allowed, and retry failures per the step's
+   * own retry policy or the test's step-level one. Failed attempts are recorded
+   * as retried so flaky steps stay visible in the run.
+   */
+  private async executeWithRetries(step: UIStep, context: StepContext, autoHealSelectors: boolean): Promise<RunStepResult> {
+    const { retryPolicy } = context.request;
+    const policy = step.retry ?? (retryPolicy?.scope === 'step' ? retryPolicy : undefined);
+
+    for (let attempt = 1; ; attempt++) {
+      const before = await this.traces?.capture(context.tabId, context.variables);
+      let result = await this.executeStep(step, context);
+      if (autoHealSelectors && result.status === 'failed' && isElementNotFound(result)) {
+        result = (await this.healStep(step, context, result)) ?? result;
+      }
+      if (result.status === 'passed') {
+        result = await this.checkVisual(step, result, context);
+      }
+      const network = this.network?.take();
+      if (network?.length) {
+        result = { ...result, network };
+      }
+      await this.samplePerformance(step, context);
+      if (before) {
+        result = await this.traceStep(step, result, before, policy ? attempt : undefined);
+      }
+      if (result.status === 'passed' || !policy || attempt > policy.retries || this.shouldStop) {
+        return attempt > 1 ? { ...result, attempt } : result;
+      }
+
+      await this.recordResult({ ...result, attempt, retried: true }, step);
+      await sleep(getRetryDelay(policy, attempt));
+    }
+  }
+
+  /**
+   * Run an if/repeat/forEach block's nested steps. A nested step that fails
+   * without continueOnFailure fails the block with its error.
+   */
+  private async executeBlock(step: UIStep, context: StepContext, scope: StepScope): Promise<RunStepResult> {
+    const startTime = Date.now();
+    const result = (status: RunStepResult['status'], error?: string): RunStepResult => ({
+      dataSetIndex: context.dataSetIndex,
+      stepId: step.id,
+      status,
+      error,
+      duration: Date.now() - startTime,
+    });
+    const action = step.action;
+
+    try {
+      if (action.type === 'if') {
+        const matched = await this.evaluateCondition(action.condition, step, scope);
+        await this.runSteps(matched ? action.then : action.else ?? [], scope, true);
+      } else if (action.type === 'repeat') {
+        for (let iteration = 0; !this.shouldStop; iteration++) {
+          if (action.until && (await this.evaluateCondition(action.until, step, scope))) break;
+          if (iteration >= action.times) {
+            if (action.until) return result('failed', `Repeat condition not met after ${action.times} iterations`);
+            break;
+          }
+          await this.runSteps(action.steps, scope, true);
+        }
+      } else if (action.type === 'forEach') {
+        const items = parseForEachItems(substituteVariables(action.items, context.variables));
+        // The loop variable shares the scope's record so values extracted
+        // inside the loop stay visible after it
+        const variables = scope.variables;
+        const shadowed: string | undefined = variables[action.variable];
+        try {
+          for (const item of items) {
+            if (this.shouldStop) break;
+            variables[action.variable] = item;
+            await this.runSteps(action.steps, scope, true);
+          }
+        } finally {
+          if (shadowed === undefined) delete variables[action.variable];
+          else variables[action.variable] = shadowed;
+        }
+      }
+      return result('passed');
+    } catch (error) {
+      return result('failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Element conditions check the block step's own selectors in the current tab
+   */
+  private async evaluateCondition(condition: StepCondition, step: UIStep, scope: StepScope): Promise<boolean> {
+    if (condition.type === 'variable') {
+      return matchesVariableCondition(condition, scope.variables);
+    }
+
+    const tabId = scope.tabs.getCurrent();
+    const timeout = condition.timeout ?? 0;
+    let frameId: number;
+    try {
+      frameId = await resolveStepFrameId(tabId, step, timeout || CONDITION_FRAME_TIMEOUT);
+    } catch {
+      // No iframe means no element inside it
+      return condition.state === 'hidden';
+    }
+
+    const response = await chrome.tabs.sendMessage(tabId, {
+      type: 'playback:check-condition',
+      selectors: step.selectors,
+      state: condition.state,
+      timeout,
+    }, { frameId });
+    if (!response?.success) {
+      throw new Error(response?.error || 'Condition check failed');
+    }
+    return response.matched;
+  }
+
+  private async executeStep(step: UIStep, context: StepContext): Promise<RunStepResult> {
+    const { tabId, stepIndex, dataSetIndex, variables } = context;
+    const startTime = Date.now();
+    const passed = (): RunStepResult => ({ dataSetIndex, stepId: step.id, status: 'passed', duration: Date.now() - startTime });
+
+    // Browser navigation and waitTime run here; the content script is torn down
+    // by navigation, so it can't report these itself
+    if (isTabNavigation(step.action.type) || step.action.type === 'waitTime') {
+      try {
+        await this.executeTabAction(step, tabId, variables);
+        return passed();
+      } catch (error) {
+        return {
+          dataSetIndex,
+          stepId: step.id,
+          status: 'failed',
+          error: `${step.action.type === 'waitTime' ? 'Wait' : 'Navigation'} failed: ${error instanceof Error ? error.message : String(error)}`,
+          duration: 0,
+        };
+      }
+    }
+
+    if (isTabManagement(step.action.type)) {
+      try {
+        await this.executeTabManagement(step, variables);
+        return passed();
+      } catch (error) {
+        return {
+          dataSetIndex,
+          stepId: step.id,
+          status: 'failed',
+          error: `Tab switch failed: ${error instanceof Error ? error.message : String(error)}`,
+          duration: Date.now() - startTime,
+        };
+      }
+    }
+
+    if (step.action.type === 'script') {
+      return this.executeScriptStep(step, step.action, context);
+    }
+
+    if (step.action.type === 'saveStorageState') {
+      try {
+        const state = await captureStorageState(tabId);
+        await StorageStateRepository.save({
+          ...state,
+          name: substituteVariables(step.action.name, variables),
+          testId: context.request.testId,
+        });
+        return passed();
+      } catch (error) {
+        return {
+          dataSetIndex,
+          stepId: step.id,
+          status: 'failed',
+          error: `Saving storage state failed: ${error instanceof Error ? error.message : String(error)}`,
+          duration: Date.now() - startTime,
+        };
+      }
+    }
+
+    const stepTimeout = step.waitConfig?.timeout || DEFAULT_STEP_TIMEOUT;
+
+    // Fixture Blobs live in the extension's IndexedDB, out of the content script's reach
+    let fixtures: FixtureFile[] = [];
+    if (step.action.type === 'upload') {
+      try {
+        fixtures = await FixtureRepository.getFiles(context.request.testId, resolveFixtureNames(step.action.files, variables));
+      } catch (error) {
+        return {
+          dataSetIndex,
+          stepId: step.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          duration: Date.now() - startTime,
+        };
+      }
+    }
+
+    for (let retryCount = 0; ; retryCount++) {
+      try {
+        // Run the step in the content script of the frame that owns its element
+        const frameId = await resolveStepFrameId(tabId, step, stepTimeout);
+        const response = await chrome.tabs.sendMessage(tabId, {
+          type: 'playback:execute',
+          steps: [step],
+          variables,
+          fixtures,
+          dialogPolicy: context.request.dialogPolicy,
+          failOnPageError: context.request.failOnPageError,
+          timeout: stepTimeout,
+        }, { frameId });
+
+        const stepResult: PlaybackStepResult | undefined = response?.result?.stepResults?.[0];
+        if (!stepResult) {
+          // No result returned - step may have succeeded but page navigated
+          console.warn(`[QAerx Runner] No result for step ${step.id}, assuming success after navigation`);
+          return passed();
+        }
+
+        const result = await this.validateStepResult(stepResult, step, context);
+        return stepResult.screenshot && step.action.type === 'screenshot' && result.status === 'passed'
+          ? { ...result, screenshotId: await this.saveScreenshot(step, context, stepResult.screenshot) }
+          : result;
+      } catch (error) {
+        if (!isNavigationError(error)) {
+          return {
+            dataSetIndex,
+            stepId: step.id,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - startTime,
+          };
+        }
+
+        // Page navigated - wait for it to load
+        console.info(`[QAerx Runner] Navigation detected after step ${stepIndex + 1}, waiting for page load...`);
+        await sleep(2000);
+        await this.ensureContentScript(tabId);
+
+        // A click the page received before unloading is what navigated it; one that
+        // never reached a content script didn't happen and is retried
+        if ((step.action.type === 'click' || step.action.type === 'dblclick') && !isUndelivered(error)) {
+          return passed();
+        }
+        if (retryCount >= MAX_NAVIGATION_RETRIES) {
+          return {
+            dataSetIndex,
+            stepId: step.id,
+            status: 'failed',
+            error: `Page navigated away ${retryCount + 1} times before the step could complete`,
+            duration: Date.now() - startTime,
+          };
+        }
+      }
+    }
+  }
+
+  private async executeTabAction(step: UIStep, tabId: number, variables: Record<string, string>): Promise<void> {
+    if (step.action.type === 'waitTime') {
+      await sleep(step.action.duration);
+      return;
+    }
+
+    const loaded = waitForTabLoad(tabId);
+    if (step.action.type === 'navigate') {
+      await chrome.tabs.update(tabId, { url: substituteVariables(step.action.url, variables) });
+    } else if (step.action.type === 'reload') {
+      await chrome.tabs.reload(tabId);
+    } else if (step.action.type === 'goBack') {
+      await chrome.tabs.goBack(tabId);
+    } else {
+      await chrome.tabs.goForward(tabId);
+    }
+
+    await loaded;
+    await this.ensureContentScript(tabId);
+  }
+
+  /**
+   * Move the run to another tab; later steps target whichever tab is current
+   */
+  private async executeTabManagement(step: UIStep, variables: Record<string, string>): Promise<void> {
+    if (!this.tabs) return;
+
+    let tabId: number;
+    if (step.action.type === 'waitForPopup') {
+      tabId = await this.tabs.waitForPopup(step.action.timeout || POPUP_TIMEOUT);
+    } else if (step.action.type === 'switchTab') {
+      const url = step.action.url ? substituteVariables(step.action.url, variables) : undefined;
+      tabId = await this.tabs.switchTo({ index: step.action.index, url });
+    } else {
+      tabId = await this.tabs.closeCurrent();
+    }
+
+    // A fresh popup may still be loading
+    if ((await chrome.tabs.get(tabId)).status !== 'complete') {
+      await waitForTabLoad(tabId);
+    }
+    await this.ensureContentScript(tabId);
+    this.updateProgress({ tabId });
+  }
+
+  /**
+   * Script steps run in the page's MAIN world of the step's frame, so they
+   * see the app's globals rather than the content script's
+   */
+  private async executeScriptStep(
+    step: UIStep,
+    action: Extract<UIAction, { type: 'script' }>,
+    context: StepContext
+  ): Promise<RunStepResult> {
+    const { tabId, dataSetIndex, variables } = context;
+    const startTime = Date.now();
+    const timeout = step.waitConfig?.timeout || DEFAULT_STEP_TIMEOUT;
+
+    let outcome: { value: string } | { error: string } | undefined;
+    try {
+      const frameId = await resolveStepFrameId(tabId, step, timeout);
+      const [injection] = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [frameId] },
+        world: 'MAIN',
+        func: runUserScript,
+        args: [action.code, variables, timeout],
+      });
+      outcome = injection?.result;
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const base = { dataSetIndex, stepId: step.id, duration: Date.now() - startTime };
+    if (!outcome || 'error' in outcome) {
+      const message = outcome?.error ?? 'the page navigated away before the script finished';
+      return { ...base, status: 'failed', error: `Script error: ${message}` };
+    }
+
+    const extracted = action.variable ? { variable: action.variable, value: outcome.value } : undefined;
+    if (action.expected === undefined) {
+      return { ...base, status: 'passed', extracted };
+    }
+
+    const expected = substituteVariables(action.expected, variables);
+    const matched = outcome.value === expected;
+    const assertionResults = [{
+      assertionIndex: 0,
+      passed: matched,
+      expected,
+      actual: outcome.value,
+      message: matched ? undefined : `Expected script to return "${expected}", got "${outcome.value}"`,
+    }];
+    return matched
+      ? { ...base, status: 'passed', assertionResults, extracted }
+      : { ...base, status: 'failed', error: `Assertion failed: ${assertionResults[0].message}`, assertionResults, extracted };
+  }
+
+  /**
+   * Decide pass/fail for a step result; 'pending' results are judged by AI validation
+   */
+  private async validateStepResult(
+    stepResult: PlaybackStepResult,
+    step: UIStep,
+    context: StepContext
+  ): Promise<RunStepResult> {
+    const { request, stepIndex, dataSetIndex, variables, previousUrl, validationService } = context;
+    const base = {
+      dataSetIndex,
+      stepId: stepResult.stepId,
+      duration: stepResult.duration || 0,
+      pageResponse: stepResult.pageResponse,
+      dialogs: stepResult.dialogs,
+      extracted: stepResult.extracted,
+      logs: stepResult.logs,
+    };
+
+    // If step already failed due to execution error or assertion, keep it as failed
+    if (stepResult.status === 'failed' && stepResult.error) {
+      return { ...base, status: 'failed', error: stepResult.error, assertionResults: stepResult.assertionResults };
+    }
+
+    // Steps whose assertions all passed don't need AI interpretation
+    if (stepResult.status === 'passed') {
+      return { ...base, status: 'passed', assertionResults: stepResult.assertionResults };
+    }
+
+    const validationContext: ValidationContext = {
+      stepName: step.name,
+      stepIndex,
+      totalSteps: request.steps.length,
+      actionType: step.action.type,
+      actionDescription: getActionDescription(step),
+      pageResponse: stepResult.pageResponse,
+      urlBefore: previousUrl,
+      urlAfter: stepResult.context?.urlAfter || previousUrl,
+      titleBefore: stepResult.context?.titleBefore || '',
+      titleAfter: stepResult.context?.titleAfter || '',
+      scenario: request.dataSetScenarios[dataSetIndex] || 'normal',
+      variables,
+    };
+
+    const validation = await validationService.validateStep(validationContext);
+
+    return {
+      ...base,
+      status: validation.status,
+      error: validation.status === 'failed' ? validation.reason : undefined,
+      aiValidation: validationService.toAIValidationData(validation),
+    };
+  }
+
+  /**
+   * Retry a step whose element wasn't found with healed selectors.
+   * AI suggestions come first when an API key is configured, then the content
+   * script's local similarity match. Returns null if nothing healed the step.
+   */
+  private async healStep(step: UIStep, context: StepContext, failed: RunStepResult): Promise<RunStepResult | null> {
+    const originalSelector = step.selectors[0];
+    if (!originalSelector) return null;
+
+    let response: { success: boolean; suggestion: SelectorHealingSuggestion | null; domSnapshot: string } | undefined;
+    try {
+      const frameId = await resolveStepFrameId(context.tabId, step, step.waitConfig?.timeout || DEFAULT_STEP_TIMEOUT);
+      response = await chrome.tabs.sendMessage(
+        context.tabId,
+        { type: 'playback:heal', selectors: step.selectors, stepName: step.name },
+        { frameId }
+      );
+    } catch (error) {
+      console.warn('[QAerx Runner] Could not collect healing candidates:', error);
+    }
+    if (!response?.success) return null;
+
+    const suggestions: SelectorHealingSuggestion[] = [];
+    try {
+      const aiService = new AIService();
+      await aiService.initialize();
+      suggestions.push(await aiService.healSelector(originalSelector.value, response.domSnapshot, failed.error || '', step.name));
+    } catch (error) {
+      console.warn('[QAerx Runner] AI healing unavailable, using local heuristic:', error);
+    }
+    if (response.suggestion) {
+      suggestions.push(response.suggestion);
+    }
+
+    for (const suggestion of suggestions) {
+      const selectors = suggestion.suggestedSelectors
+        .filter((s) => s.value)
+        .map((s) => ({ ...s, frameSelector: originalSelector.frameSelector }));
+      if (selectors.length === 0) continue;
+
+      const result = await this.executeStep({ ...step, selectors }, context);
+      if (result.status === 'passed') {
+        console.info(`[QAerx Runner] Healed step "${step.name}" with ${selectors[0].value}`);
+        return {
+          ...result,
+          healed: true,
+          selectorHealing: { ...suggestion, originalSelector, suggestedSelectors: selectors },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Keep a screenshot step's image in the screenshots table, for visual
+   * assertions and the report
+   */
+  private async saveScreenshot(step: UIStep, context: StepContext, dataUrl: string): Promise<string | undefined> {
+    if (!this.progress) return undefined;
+
+    try {
+      const record: ScreenshotRecord = {
+        id: uuid(),
+        testRunId: this.progress.runId,
+        testId: context.request.testId,
+        stepId: step.id,
+        dataSetIndex: context.dataSetIndex,
+        timestamp: Date.now(),
+        dataUrl,
+        ...(await VisualDiffService.measure(dataUrl)),
+        isBaseline: false,
+        name: step.name,
+      };
+      await ScreenshotRepository.add(record);
+      return record.id;
+    } catch (error) {
+      console.warn('[QAerx Runner] Failed to persist screenshot:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Compare the page with the step's visual baselines once its other checks passed
+   */
+  private async checkVisual(step: UIStep, result: RunStepResult, context: StepContext): Promise<RunStepResult> {
+    if (!this.visual || !this.tabs) return result;
+
+    const visualResults = await this.visual.check(step, this.tabs.getCurrent(), context.dataSetIndex, result.screenshotId);
+    if (visualResults.length === 0) return result;
+
+    const assertionResults = [...(result.assertionResults ?? []), ...visualResults]
+      .sort((a, b) => a.assertionIndex - b.assertionIndex);
+    const failed = visualResults.find((r) => !r.passed);
+    return failed
+      ? { ...result, status: 'failed', error: `Assertion failed: ${failed.message}`, assertionResults }
+      : { ...result, assertionResults };
+  }
+
+  /**
+   * Read the web performance of the current page after a step. Pages without
+   * the content script (browser pages, downloads) are skipped.
+   */
+  private async samplePerformance(step: UIStep, context: StepContext): Promise<void> {
+    if (!this.progress || !this.tabs) return;
+
+    try {
+      const response = await chrome.tabs.sendMessage(this.tabs.getCurrent(), { type: 'performance:take' }, { frameId: 0 });
+      if (!response?.success) return;
+
+      const sample: PerformanceSample = {
+        ...response.metrics,
+        stepId: step.id,
+        dataSetIndex: context.dataSetIndex,
+        timestamp: Date.now(),
+      };
+      this.performance.push(sample);
+      await ResultRepository.addPerformanceSample(this.progress.runId, sample);
+    } catch (error) {
+      console.warn('[QAerx Runner] Could not sample page performance:', error);
+    }
+  }
+
+  /**
+   * Save the step's trace; a failed step also keeps the DOM it failed on
+   */
+  private async traceStep(step: UIStep, result: RunStepResult, before: TraceFrame, attempt?: number): Promise<RunStepResult> {
+    if (!this.traces || !this.tabs) return result;
+
+    const variables = result.extracted
+      ? { ...before.variables, [result.extracted.variable]: result.extracted.value }
+      : before.variables;
+    const after = await this.traces.capture(this.tabs.getCurrent(), variables);
+    await this.traces.save(step, { ...result, attempt }, before, after);
+
+    return result.status === 'failed' && after.dom ? { ...result, domSnapshot: after.dom } : result;
+  }
+
+  private async recordResult(result: RunStepResult, step: UIStep): Promise<void> {
+    if (!this.progress) return;
+
+    this.updateProgress({ currentStepId: null, results: [...this.progress.results, result] });
+
+    try {
+      await ResultRepository.addStepResult(this.progress.runId, toStoredResult(result, step));
+    } catch (error) {
+      console.warn('[QAerx Runner] Failed to persist step result:', error);
+    }
+  }
+
+  private hasFailures(dataSetIndex: number): boolean {
+    return !!this.progress?.results.some((r) => r.dataSetIndex === dataSetIndex && r.status === 'failed' && !r.retried);
+  }
+
+  /**
+   * Keep a failed data set attempt on record, superseded by the rerun
+   */
+  private async markDataSetRetried(dataSetIndex: number): Promise<void> {
+    if (!this.progress) return;
+
+    const results = this.progress.results.map((r) => (r.dataSetIndex === dataSetIndex ? { ...r, retried: true } : r));
+    this.updateProgress({ results });
+
+    try {
+      await ResultRepository.markRetried(this.progress.runId, dataSetIndex);
+    } catch (error) {
+      console.warn('[QAerx Runner] Failed to persist retried results:', error);
+    }
+  }
+
+  private async finish(runError?: string, budgetViolations: BudgetViolation[] = []): Promise<void> {
+    if (!this.progress) return;
+
+    const { results } = this.progress;
+    const status = this.shouldStop
+      ? 'stopped'
+      : results.some((r) => r.status === 'failed' && !r.retried)
+        ? 'failed'
+        // Mark as error if the run broke down or no steps were executed
+        : runError || results.every((r) => r.status === 'skipped')
+          ? 'error'
+          : budgetViolations.length > 0
+            ? 'failed'
+            : 'passed';
+
+    try {
+      await this.mocker?.dispose();
+    } catch (error) {
+      console.warn('[QAerx Runner] Failed to remove network mocks:', error);
+    }
+    this.mocker = null;
+
+    // Give the pages their native dialogs back
+    for (const tabId of this.tabs?.getAll() ?? [this.progress.tabId]) {
+      chrome.tabs.sendMessage(tabId, { type: 'playback:stop' }).catch(() => {});
+    }
+    this.tabs?.dispose();
+    this.tabs = null;
+    this.traces = null;
+    this.visual = null;
+    this.network?.dispose();
+    this.network = null;
+
+    try {
+      if (budgetViolations.length > 0) {
+        await ResultRepository.update(this.progress.runId, { budgetViolations });
+      }
+      await ResultRepository.complete(this.progress.runId, status);
+    } catch (error) {
+      console.warn('[QAerx Runner] Failed to save test run:', error);
+    }
+
+    this.progress = {
+      ...this.progress,
+      status,
+      currentStepId: null,
+      completedAt: Date.now(),
+      error: runError,
+      budgetViolations: budgetViolations.length > 0 ? budgetViolations : undefined,
+    };
+    this.broadcast('runner:completed');
+  }
+
+  private updateProgress(update: Partial<RunProgress>): void {
+    if (!this.progress) return;
+    this.progress = { ...this.progress, ...update };
+    this.broadcast();
+  }
+
+  private broadcast(type: 'runner:progress' | 'runner:completed' = 'runner:progress'): void {
+    chrome.runtime.sendMessage({ type, progress: this.progress }).catch(() => {
+      // No extension page is listening (side panel and popup closed)
+    });
+  }
+
+  private async ensureContentScript(tabId: number): Promise<void> {
+    try {
+      await chrome.tabs.sendMessage(tabId, { type: 'ping' });
+    } catch {
+      await chrome.scripting.executeScript({
+        target: { tabId, allFrames: true },
+        files: ['content.js'],
+      });
+      await sleep(300);
+    }
+  }
+
+  private startKeepAlive(): void {
+    this.stopKeepAlive();
+    this.keepAliveTimer = setInterval(() => {
+      chrome.runtime.getPlatformInfo().catch(() => {});
+    }, KEEP_ALIVE_INTERVAL);
+  }
+
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+}
+
+function toStoredResult(result: RunStepResult, step: UIStep): UIStepResult {
+  const completedAt = Date.now();
+  return {
+    type: 'ui',
+    stepId: result.stepId,
+    stepName: step.name,
+    startedAt: completedAt - result.duration,
+    completedAt,
+    status: result.status,
+    error: result.error
+      ? { message: result.error, type: getErrorType(result), recoverable: !!step.continueOnFailure }
+      : undefined,
+    assertionResults: result.assertionResults,
+    selectorUsed: result.selectorHealing?.suggestedSelectors[0],
+    selectorHealing: result.selectorHealing,
+    dataSetIndex: result.dataSetIndex,
+    pageResponse: result.pageResponse,
+    aiValidation: result.aiValidation,
+    dialogs: result.dialogs,
+    extracted: result.extracted,
+    attempt: result.attempt,
+    retried: result.retried,
+    domSnapshot: result.domSnapshot,
+    logs: result.logs,
+    network: result.network,
+    screenshotId: result.screenshotId,
+  };
+}
+
+function getErrorType(result: RunStepResult): StepError['type'] {
+  const message = result.error?.toLowerCase() || '';
+  if (result.assertionResults?.some((a) => !a.passed)) return 'assertion-failed';
+  if (message.startsWith('script error') || message.startsWith('page error')) return 'script';
+  if (message.includes('not actionable')) return 'not-actionable';
+  if (message.includes('not found') || message.includes('no element')) return 'element-not-found';
+  if (message.includes('timeout') || message.includes('within')) return 'timeout';
+  return 'unknown';
+}
+
+function isElementNotFound(result: RunStepResult): boolean {
+  return !!result.error?.startsWith('Element not found');
+}
+
+function getActionDescription(step: UIStep): string {
+  const action = step.action;
+  switch (action.type) {
+    case 'type': return `Type "${action.text}" into field`;
+    case 'click': return `Click on element`;
+    case 'navigate': return `Navigate to ${action.url}`;
+    case 'select': return `Select option "${action.value}"`;
+    case 'waitTime': return `Wait ${action.duration}ms`;
+    case 'hover': return `Hover over element`;
+    case 'dialog': return `${action.action === 'accept' ? 'Accept' : 'Dismiss'} the next dialog`;
+    case 'upload': return action.files.length > 0 ? `Upload ${action.files.join(', ')}` : `Clear file input`;
+    case 'drag': return action.offset && !action.targetSelectors?.length
+      ? `Drag element by (${action.offset.x}, ${action.offset.y})`
+      : `Drag element onto target`;
+    case 'waitForPopup': return `Wait for a new tab or popup`;
+    case 'switchTab': return action.url ? `Switch to tab with URL "${action.url}"` : `Switch to tab ${action.index ?? 0}`;
+    case 'closeTab': return `Close the current tab`;
+    case 'extract': return `Store ${action.source === 'url' ? 'the page URL' : `element ${action.source}`} in {{${action.variable}}}`;
+    case 'script': return action.variable ? `Run script and store the result in {{${action.variable}}}` : `Run script`;
+    case 'press': return `Press ${[...(action.modifiers || []), action.key].join('+')}`;
+    case 'screenshot': return action.element ? 'Take screenshot of element' : action.fullPage ? 'Take full-page screenshot' : 'Take screenshot';
+    case 'a11yAudit': return 'Audit accessibility';
+    case 'saveStorageState': return `Save cookies and storage as "${action.name}"`;
+    default: return action.type;
+  }
+}
+
+function isTabNavigation(actionType: UIStep['action']['type']): boolean {
+  return actionType === 'navigate' || actionType === 'reload' || actionType === 'goBack' || actionType === 'goForward';
+}
+
+function isTabManagement(actionType: UIStep['action']['type']): boolean {
+  return actionType === 'waitForPopup' || actionType === 'switchTab' || actionType === 'closeTab';
+}
+
+function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return policy.delay * (policy.backoff ?? 1) ** (attempt - 1);
+}
+
+/**
+ * The message never reached a content script (as opposed to the page unloading mid-step)
+ */
+function isUndelivered(error: unknown): boolean {
+  return (error instanceof Error ? error.message : String(error)).toLowerCase().includes('receiving end does not exist');
+}
+
+function isNavigationError(error: unknown): boolean {
+  const errorMsg = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return (
+    errorMsg.includes('message channel closed') ||
+    errorMsg.includes('receiving end does not exist') ||
+    errorMsg.includes('context invalidated') ||
+    errorMsg.includes('bfcache') ||
+    errorMsg.includes('extension port')
+  );
+}
+
+/**
+ * Fixture names of an upload step; a variable may hold several, comma-separated
+ */
+function resolveFixtureNames(files: string[], variables: Record<string, string>): string[] {
+  return files
+    .flatMap((name) => substituteVariables(name, variables).split(','))
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+function matchesVariableCondition(
+  condition: Extract<StepCondition, { type: 'variable' }>,
+  variables: Record<string, string>
+): boolean {
+  const actual = variables[condition.variable] ?? '';
+  const expected = substituteVariables(condition.value ?? '', variables);
+  switch (condition.operator) {
+    case 'equals': return actual === expected;
+    case 'notEquals': return actual !== expected;
+    case 'contains': return actual.includes(expected);
+    case 'isEmpty': return actual.trim() === '';
+    case 'isNotEmpty': return actual.trim() !== '';
+  }
+}
+
+function substituteVariables(text: string, variables: Record<string, string>): string {
+  let result = text;
+  Object.entries(variables).forEach(([key, value]) => {
+    result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
+  });
+  return result;
+}
+
+/**
+ * Walk the step's frameSelector chain from the top frame to find the frameId of
+ * the iframe its element lives in. Steps without a frameSelector run in the top frame.
+ */
+async function resolveStepFrameId(tabId: number, step: UIStep, timeout: number): Promise<number> {
+  const frameSelector = step.selectors[0]?.frameSelector;
+  if (!frameSelector) return 0;
+
+  let frameId = 0;
+  for (const selector of frameSelector.split(FRAME_SEPARATOR)) {
+    const response = await chrome.tabs.sendMessage(
+      tabId,
+      { type: 'frame:resolve-child', selector, timeout },
+      { frameId }
+    );
+    if (!response?.success) {
+      throw new Error(response?.error || `Frame not found: ${selector}`);
+    }
+    frameId = response.frameId;
+  }
+  return frameId;
+}
+
+/**
+ * Resolve once the tab finishes loading (or after 8s, whichever comes first).
+ * Must be called before triggering the navigation so the 'complete' event isn't missed.
+ */
+function waitForTabLoad(tabId: number): Promise<void> {
+  return new Promise<void>((resolve) => {
+    let loaded = false;
+    const loadTimeout = setTimeout(() => {
+      if (!loaded) { loaded = true; resolve(); }
+      chrome.tabs.onUpdated.removeListener(listener);
+    }, 8000);
+
+    const listener = (updatedTabId: number, info: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId === tabId && info.status === 'complete' && !loaded) {
+        loaded = true;
+        clearTimeout(loadTimeout);
+        chrome.tabs.onUpdated.removeListener(listener);
+        setTimeout(() => resolve(), 500);
+      }
+    };
+    chrome.tabs.onUpdated.addListener(listener);
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+let runnerInstance: TestRunner | null = null;
+
+export function getTestRunner(): TestRunner {
+  if (!runnerInstance) {
+    runnerInstance = new TestRunner();
+  }
+  return runnerInstance;
+}
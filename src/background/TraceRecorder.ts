@@ -0,0 +1,74 @@
+import type { RunStepResult, StepTrace, TraceFrame } from '@/types/result';
+import type { UIStep } from '@/types/test';
+import { TraceRepository } from '@/core/storage/repositories';
+import { v4 as uuid } from 'uuid';
+import { captureVisibleTab } from './screenCapture';
+
+const SNAPSHOT_TIMEOUT = 3000;
+
+/**
+ * Records page state before and after every step of a run into the traces table.
+ * Capturing is best effort: a page that can't be read (navigating, restricted URL)
+ * leaves gaps in the frame but never fails the step.
+ */
+export class TraceRecorder {
+  private order = 0;
+
+  constructor(private runId: string) {}
+
+  async capture(tabId: number, variables: Record<string, string>): Promise<TraceFrame> {
+    const frame: TraceFrame = { timestamp: Date.now(), url: '', title: '', variables: { ...variables } };
+
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      frame.url = tab.url || '';
+      frame.title = tab.title || '';
+      frame.dom = await this.snapshotDom(tabId);
+      frame.screenshot = await this.captureScreenshot(tab.windowId);
+    } catch (error) {
+      console.warn('[QAerx Trace] Incomplete trace frame:', error);
+    }
+
+    return frame;
+  }
+
+  async save(step: UIStep, result: RunStepResult, before: TraceFrame, after: TraceFrame): Promise<void> {
+    const trace: StepTrace = {
+      id: uuid(),
+      runId: this.runId,
+      order: this.order++,
+      stepId: step.id,
+      stepName: step.name,
+      dataSetIndex: result.dataSetIndex,
+      attempt: result.attempt,
+      status: result.status,
+      error: result.error,
+      before,
+      after,
+    };
+
+    try {
+      await TraceRepository.add(trace);
+    } catch (error) {
+      console.warn('[QAerx Trace] Failed to persist trace:', error);
+    }
+  }
+
+  private async snapshotDom(tabId: number): Promise<string | undefined> {
+    const response: { success: boolean; dom?: string | null } | undefined = await Promise.race([
+      chrome.tabs.sendMessage(tabId, { type: 'trace:snapshot' }, { frameId: 0 }),
+      new Promise<undefined>((resolve) => setTimeout(resolve, SNAPSHOT_TIMEOUT)),
+    ]).catch(() => undefined);
+
+    return response?.success ? response.dom ?? undefined : undefined;
+  }
+
+  private async captureScreenshot(windowId: number): Promise<string | undefined> {
+    try {
+      return await captureVisibleTab(windowId, { format: 'jpeg', quality: 70 });
+    } catch (error) {
+      console.warn('[QAerx Trace] Screenshot failed:', error);
+      return undefined;
+    }
+  }
+}
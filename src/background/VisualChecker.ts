@@ -0,0 +1,132 @@
+import type { UIStep, VisualAssertion } from '@/types/test';
+import type { AssertionResult } from '@/types/result';
+import type { ScreenshotRecord } from '@/types/settings';
+import { ScreenshotRepository } from '@/core/storage/repositories';
+import { VisualDiffService, type VisualDiffResult } from '@/core/services/VisualDiffService';
+import { v4 as uuid } from 'uuid';
+import { captureVisibleTab } from './screenCapture';
+
+/**
+ * Evaluates a step's visual assertions against the tab after the step ran, or
+ * against the screenshot a screenshot step took (full page, element).
+ * The first run of a step saves its screenshot as the baseline; later runs are
+ * compared against it and kept with their diff image for review.
+ */
+export class VisualChecker {
+  constructor(private runId: string, private testId: string) {}
+
+  async check(step: UIStep, tabId: number, dataSetIndex: number, screenshotId?: string): Promise<AssertionResult[]> {
+    const assertions = (step.assertions ?? [])
+      .map((assertion, index) => ({ assertion, index }))
+      .filter((entry): entry is { assertion: VisualAssertion; index: number } => entry.assertion.type === 'visual');
+    if (assertions.length === 0) return [];
+
+    let record: ScreenshotRecord | undefined;
+    let scale: number;
+    try {
+      record = screenshotId ? await ScreenshotRepository.getById(screenshotId) : undefined;
+      if (record) {
+        scale = await getPixelRatio(tabId);
+      } else {
+        const tab = await chrome.tabs.get(tabId);
+        const dataUrl = await captureVisibleTab(tab.windowId, { format: 'png' });
+        const size = await VisualDiffService.measure(dataUrl);
+        scale = tab.width ? size.width / tab.width : 1;
+        record = {
+          id: uuid(),
+          testRunId: this.runId,
+          testId: this.testId,
+          stepId: step.id,
+          dataSetIndex,
+          timestamp: Date.now(),
+          dataUrl,
+          ...size,
+          isBaseline: false,
+          name: step.name,
+        };
+      }
+    } catch (error) {
+      const message = `Visual check failed: ${error instanceof Error ? error.message : String(error)}`;
+      return assertions.map(({ index }) => ({ assertionIndex: index, passed: false, expected: null, actual: null, message }));
+    }
+
+    const results: AssertionResult[] = [];
+    let worst: { baselineId: string; diff: VisualDiffResult } | undefined;
+
+    for (const { assertion, index } of assertions) {
+      try {
+        const baseline = assertion.baselineId
+          ? await ScreenshotRepository.getById(assertion.baselineId)
+          : await ScreenshotRepository.getBaseline(this.testId, step.id, dataSetIndex);
+
+        if (!baseline) {
+          if (assertion.baselineId) {
+            results.push({ assertionIndex: index, passed: false, expected: assertion.baselineId, actual: null, message: 'Baseline screenshot not found' });
+          } else {
+            await ScreenshotRepository.saveBaseline(record);
+            results.push({ assertionIndex: index, passed: true, expected: null, actual: null, message: 'Saved as the new baseline' });
+          }
+          continue;
+        }
+
+        const diff = await VisualDiffService.compare(baseline.dataUrl, record.dataUrl, {
+          colorThreshold: assertion.tolerance.colorThreshold,
+          perceptual: assertion.usePerceptualDiff,
+          ignoreRegions: assertion.ignoreRegions,
+          scale,
+        });
+        if (!worst || diff.diffPercentage > worst.diff.diffPercentage) {
+          worst = { baselineId: baseline.id, diff };
+        }
+
+        const passed = diff.diffPercentage <= assertion.tolerance.pixelThreshold;
+        results.push({
+          assertionIndex: index,
+          passed,
+          expected: `≤ ${assertion.tolerance.pixelThreshold}%`,
+          actual: `${diff.diffPercentage}%`,
+          message: passed
+            ? undefined
+            : `${diff.diffPercentage}% of pixels differ from the baseline (allowed ${assertion.tolerance.pixelThreshold}%)` +
+              (diff.sizeMismatch ? `, size changed from ${baseline.width}×${baseline.height} to ${diff.width}×${diff.height}` : ''),
+        });
+      } catch (error) {
+        results.push({
+          assertionIndex: index,
+          passed: false,
+          expected: null,
+          actual: null,
+          message: `Visual check failed: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+
+    // Keep compared screenshots so a changed page can be reviewed and approved
+    if (worst) {
+      try {
+        await ScreenshotRepository.add({
+          ...record,
+          diff: {
+            baselineId: worst.baselineId,
+            diffPercentage: worst.diff.diffPercentage,
+            diffImageDataUrl: worst.diff.diffImageDataUrl,
+          },
+        });
+      } catch (error) {
+        console.warn('[QAerx Visual] Failed to persist screenshot:', error);
+      }
+    }
+
+    return results;
+  }
+}
+
+// Image pixels per CSS pixel of a stored screenshot; devicePixelRatio includes page zoom
+async function getPixelRatio(tabId: number): Promise<number> {
+  try {
+    const [frame] = await chrome.scripting.executeScript({ target: { tabId }, func: () => window.devicePixelRatio });
+    return frame?.result || 1;
+  } catch {
+    return 1;
+  }
+}
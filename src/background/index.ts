@@ -1,9 +1,13 @@
-import type { UIStep } from '@/types/test';
+import type { UIAction, UIStep } from '@/types/test';
+import { installNetworkHook, installDialogHook, installConsoleHook } from './pageHooks';
+import { getTestRunner } from './TestRunner';
+import { captureFullPage, captureVisibleTab, type CaptureClip } from './screenCapture';
 
 interface RecordingState {
   isRecording: boolean;
   sessionId: string | null;
-  tabId: number | null;
+  tabId: number | null; // The tab the user is recording in right now
+  tabIds: number[]; // Every tab of the session, starting tab first (switchTab indexes)
   steps: UIStep[];
 }
 
@@ -11,9 +15,13 @@ const recordingState: RecordingState = {
   isRecording: false,
   sessionId: null,
   tabId: null,
+  tabIds: [],
   steps: [],
 };
 
+// Opener of each popup recorded in the session
+const recordingOpeners = new Map<number, number>();
+
 // Handle messages from content scripts and UI
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   switch (message.type) {
@@ -21,15 +29,15 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       console.log('[QAerx] Content script ready in tab:', sender.tab?.id);
 
       // If recording is active for this tab, resume recording on the new content script
-      // This handles page reloads during recording
-      if (recordingState.isRecording && recordingState.tabId === sender.tab?.id && recordingState.sessionId) {
+      // This handles page reloads during recording and popups opened from a recorded tab
+      if (recordingState.isRecording && sender.tab?.id && recordingState.tabIds.includes(sender.tab.id) && recordingState.sessionId) {
         console.log('[QAerx] Page reloaded during recording, resuming recording session...');
 
-        // Send recording:start to the new content script
+        // Send recording:start to the new content script (only that frame)
         chrome.tabs.sendMessage(sender.tab.id, {
           type: 'recording:start',
           sessionId: recordingState.sessionId,
-        }).then((response) => {
+        }, { frameId: sender.frameId ?? 0 }).then((response) => {
           console.log('[QAerx] Recording resumed after page reload, response:', response);
         }).catch((error) => {
           console.error('[QAerx] Failed to resume recording after page reload:', error);
@@ -40,21 +48,36 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       break;
 
     case 'recording:started':
+      // Iframe recorders join the top frame's session; only the top frame drives state
+      if (sender.frameId) {
+        sendResponse({ success: true });
+        break;
+      }
+      // Keep collected steps when the same session resumes after a page reload
+      // or continues in a popup
+      if (recordingState.sessionId !== message.sessionId) {
+        recordingState.steps = [];
+        recordingState.tabId = sender.tab?.id || null;
+        recordingState.tabIds = sender.tab?.id ? [sender.tab.id] : [];
+        recordingOpeners.clear();
+      }
       recordingState.isRecording = true;
       recordingState.sessionId = message.sessionId;
-      recordingState.tabId = sender.tab?.id || null;
-      recordingState.steps = [];
       notifyUI({ type: 'recording:state-changed', state: recordingState });
       sendResponse({ success: true });
       break;
 
     case 'recording:stopped':
+      if (sender.frameId) {
+        sendResponse({ success: true });
+        break;
+      }
       recordingState.isRecording = false;
-      recordingState.steps = message.steps || [];
+      recordingState.steps = mergeRecordedSteps(recordingState.steps, message.steps);
       notifyUI({
         type: 'recording:completed',
         sessionId: message.sessionId,
-        steps: message.steps,
+        steps: recordingState.steps,
       });
       sendResponse({ success: true });
       break;
@@ -97,7 +120,42 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       break;
 
     case 'command:capture-screenshot':
-      captureScreenshot(message.tabId)
+      captureScreenshot(message.tabId ?? sender.tab?.id, { fullPage: message.fullPage, clip: message.clip })
+        .then(sendResponse)
+        .catch(err => sendResponse({ success: false, error: err.message }));
+      return true;
+
+    // Test runner commands from UI
+    case 'runner:start':
+      getTestRunner()
+        .start(message.request)
+        .then(sendResponse)
+        .catch(err => sendResponse({ success: false, error: err.message }));
+      return true;
+
+    case 'runner:stop':
+      getTestRunner().stop().then(sendResponse);
+      return true;
+
+    case 'runner:get-state':
+      sendResponse({ progress: getTestRunner().getState() });
+      break;
+
+    // Requests from content scripts that need page (MAIN world) access
+    case 'page:install-network-hook':
+      injectPageHook(sender, installNetworkHook)
+        .then(sendResponse)
+        .catch(err => sendResponse({ success: false, error: err.message }));
+      return true;
+
+    case 'page:install-dialog-hook':
+      injectPageHook(sender, installDialogHook)
+        .then(sendResponse)
+        .catch(err => sendResponse({ success: false, error: err.message }));
+      return true;
+
+    case 'page:install-console-hook':
+      injectPageHook(sender, installConsoleHook)
         .then(sendResponse)
         .catch(err => sendResponse({ success: false, error: err.message }));
       return true;
@@ -142,7 +200,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<{ success: bo
 
     // Inject content script
     await chrome.scripting.executeScript({
-      target: { tabId },
+      target: { tabId, allFrames: true },
       files: ['content.js'],
     });
 
@@ -197,9 +255,11 @@ async function startRecording(tabId?: number): Promise<{ success: boolean; error
     console.log('[QAerx Background] recording:start response:', response);
 
     recordingState.tabId = targetTabId;
+    recordingState.tabIds = [targetTabId];
     recordingState.isRecording = true;
     recordingState.sessionId = sessionId;
     recordingState.steps = [];
+    recordingOpeners.clear();
 
     console.log('[QAerx Background] Recording started successfully');
     return { success: true };
@@ -236,8 +296,17 @@ async function stopRecording(): Promise<{ success: boolean; steps?: UIStep[]; er
     console.log('[QAerx Background] recording:stop response:', response);
     console.log('[QAerx Background] Steps from content script:', response?.steps?.length || 0);
 
+    // Steps recorded inside iframes only reach us through recording:step-added
     recordingState.isRecording = false;
-    return { success: true, steps: response.steps };
+    recordingState.steps = mergeRecordedSteps(recordingState.steps, response?.steps);
+
+    // Other tabs of the session keep their recorder running until told otherwise
+    for (const tabId of recordingState.tabIds) {
+      if (tabId === recordingState.tabId) continue;
+      const other = await chrome.tabs.sendMessage(tabId, { type: 'recording:stop' }).catch(() => null);
+      recordingState.steps = mergeRecordedSteps(recordingState.steps, other?.steps);
+    }
+    return { success: true, steps: recordingState.steps };
   } catch (error) {
     console.error('[QAerx Background] Failed to stop recording:', error);
     console.log('[QAerx Background] Returning fallback steps:', recordingState.steps.length);
@@ -246,16 +315,98 @@ async function stopRecording(): Promise<{ success: boolean; steps?: UIStep[]; er
   }
 }
 
+/**
+ * Combine the steps collected from every frame with the list a recorder reported on stop.
+ * Collected steps keep their recording order; reported steps we never saw
+ * (e.g. the service worker restarted mid-recording) are appended.
+ */
+function mergeRecordedSteps(collected: UIStep[], reportedSteps: UIStep[] = []): UIStep[] {
+  const known = new Set(collected.map((s) => s.id));
+  const latest = new Map(reportedSteps.map((s) => [s.id, s]));
+  const merged = [
+    ...collected.map((s) => latest.get(s.id) ?? s),
+    ...reportedSteps.filter((s) => !known.has(s.id)),
+  ];
+  return merged.map((step, order) => ({ ...step, order }));
+}
+
+/**
+ * Add a tab step to the recording. Content scripts only see their own tab,
+ * so new tabs, tab switches and closed tabs are recorded here.
+ */
+async function recordTabStep(action: UIAction, name: string, flushTabId?: number): Promise<void> {
+  if (flushTabId !== undefined) {
+    // Events still debounced in the previous tab (e.g. the click that opened a popup) go first
+    await chrome.tabs.sendMessage(flushTabId, { type: 'recording:flush' }).catch(() => {});
+  }
+
+  const step: UIStep = {
+    id: crypto.randomUUID(),
+    type: 'ui',
+    order: recordingState.steps.length,
+    name,
+    enabled: true,
+    continueOnFailure: false,
+    action,
+    selectors: [],
+  };
+  recordingState.steps.push(step);
+  notifyUI({ type: 'recording:step-added', step });
+}
+
+chrome.tabs.onCreated.addListener((tab) => {
+  if (!recordingState.isRecording || tab.id === undefined || tab.openerTabId === undefined) return;
+  if (!recordingState.tabIds.includes(tab.openerTabId)) return;
+
+  // The new tab's content script reports ready and joins the session
+  recordingState.tabIds.push(tab.id);
+  recordingOpeners.set(tab.id, tab.openerTabId);
+
+  // Tabs opened in the background are entered later through a switchTab step
+  if (tab.active) {
+    recordingState.tabId = tab.id;
+    recordTabStep({ type: 'waitForPopup' }, 'Wait for new tab', tab.openerTabId);
+  }
+});
+
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+  if (!recordingState.isRecording || tabId === recordingState.tabId) return;
+  const index = recordingState.tabIds.indexOf(tabId);
+  if (index < 0) return;
+
+  const previousTabId = recordingState.tabId ?? undefined;
+  recordingState.tabId = tabId;
+  recordTabStep({ type: 'switchTab', index }, index === 0 ? 'Switch to starting tab' : `Switch to tab ${index}`, previousTabId);
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  if (!recordingState.isRecording || !recordingState.tabIds.includes(tabId)) return;
+
+  recordingState.tabIds = recordingState.tabIds.filter((id) => id !== tabId);
+  const opener = recordingOpeners.get(tabId);
+  recordingOpeners.delete(tabId);
+  if (tabId !== recordingState.tabId || recordingState.tabIds.length === 0) return;
+
+  // Playback continues in the opener too, so activating it isn't a separate switch
+  recordingState.tabId = opener !== undefined && recordingState.tabIds.includes(opener)
+    ? opener
+    : recordingState.tabIds[recordingState.tabIds.length - 1];
+  recordTabStep({ type: 'closeTab' }, 'Close tab');
+});
+
 async function getActiveTabId(): Promise<number | undefined> {
   const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
   return tab?.id;
 }
 
 /**
- * Capture a screenshot of the visible tab
- * Used for capturing failure screenshots during test playback
+ * Capture a screenshot of the visible tab, the whole page or a clip of it
+ * Used for screenshot steps and failure screenshots during test playback
  */
-async function captureScreenshot(tabId?: number): Promise<{ success: boolean; screenshot?: string; error?: string }> {
+async function captureScreenshot(
+  tabId?: number,
+  options: { fullPage?: boolean; clip?: CaptureClip } = {}
+): Promise<{ success: boolean; screenshot?: string; error?: string }> {
   try {
     const targetTabId = tabId || (await getActiveTabId());
     if (!targetTabId) {
@@ -268,8 +419,12 @@ async function captureScreenshot(tabId?: number): Promise<{ success: boolean; sc
       return { success: false, error: 'Tab has no window' };
     }
 
+    if (options.fullPage || options.clip) {
+      return { success: true, screenshot: await captureFullPage(targetTabId, tab.windowId, options.clip) };
+    }
+
     // Capture the visible tab as base64 PNG
-    const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
+    const dataUrl = await captureVisibleTab(tab.windowId, {
       format: 'png',
       quality: 80,
     });
@@ -281,6 +436,26 @@ async function captureScreenshot(tabId?: number): Promise<{ success: boolean; sc
   }
 }
 
+/**
+ * Run a page hook in the MAIN world of the frame that requested it
+ */
+async function injectPageHook(
+  sender: chrome.runtime.MessageSender,
+  hook: () => void
+): Promise<{ success: boolean; error?: string }> {
+  if (!sender.tab?.id) {
+    return { success: false, error: 'Request did not come from a tab' };
+  }
+
+  await chrome.scripting.executeScript({
+    target: { tabId: sender.tab.id, frameIds: [sender.frameId ?? 0] },
+    world: 'MAIN',
+    func: hook,
+  });
+
+  return { success: true };
+}
+
 function notifyUI(message: unknown): void {
   // Send to all extension pages (popup, side panel)
   chrome.runtime.sendMessage(message).catch(() => {
@@ -298,4 +473,7 @@ chrome.action.onClicked.addListener((tab) => {
 // Enable side panel
 chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true });
 
+// Create the runner eagerly so runs interrupted by a restart are closed
+getTestRunner();
+
 console.log('[QAerx] Background service worker initialized');
@@ -0,0 +1,331 @@
+/**
+ * Functions injected into the page's MAIN world via chrome.scripting.executeScript.
+ * They are serialized by Chrome, so each must be self-contained (no imports or closures).
+ */
+
+/**
+ * Patch fetch and XMLHttpRequest to report the number of in-flight requests.
+ * The isolated content script can't see page requests, so the count is posted
+ * back to it with window.postMessage.
+ */
+export function installNetworkHook(): void {
+  const w = window as Window & { __qaerxNetworkHook?: boolean };
+  if (w.__qaerxNetworkHook) return;
+  w.__qaerxNetworkHook = true;
+
+  let inflight = 0;
+  const report = (delta: number) => {
+    inflight = Math.max(0, inflight + delta);
+    window.postMessage({ source: 'qaerx-network', inflight }, '*');
+  };
+
+  const originalFetch = window.fetch;
+  window.fetch = function (...args: Parameters<typeof fetch>) {
+    report(1);
+    return originalFetch.apply(this, args).finally(() => report(-1));
+  };
+
+  const originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function (...args: Parameters<XMLHttpRequest['send']>) {
+    report(1);
+    this.addEventListener('loadend', () => report(-1), { once: true });
+    return originalSend.apply(this, args);
+  };
+}
+
+/**
+ * Answer alert/confirm/prompt without blocking the page, and keep beforeunload
+ * from prompting. Idle (and while recording) the real dialogs are shown; once
+ * the content script posts a policy, dialogs are answered by the next armed
+ * handler or the policy. Every dialog is reported through a synchronous
+ * 'qaerx-dialog' CustomEvent so the recorder sees it before the next event.
+ * beforeunload can only be accepted: swallowing the request is all a script can do.
+ */
+export function installDialogHook(): void {
+  const w = window as Window & { __qaerxDialogHook?: boolean };
+  if (w.__qaerxDialogHook) return;
+  w.__qaerxDialogHook = true;
+
+  type Handler = { action: 'accept' | 'dismiss'; promptText?: string; expectedMessage?: string };
+  let policy: Handler | null = null;
+  const armed: Handler[] = [];
+
+  window.addEventListener('message', (event) => {
+    if (event.source !== window || event.data?.source !== 'qaerx-dialog-control') return;
+    switch (event.data.type) {
+      case 'policy':
+        policy = event.data.policy;
+        break;
+      case 'arm':
+        armed.push(event.data.handler);
+        break;
+      case 'reset':
+        policy = null;
+        armed.length = 0;
+        break;
+    }
+  });
+
+  const report = (info: Record<string, unknown>) => {
+    // Objects don't cross into the content script's world; strings do
+    window.dispatchEvent(new CustomEvent('qaerx-dialog', { detail: JSON.stringify(info) }));
+  };
+
+  const handle = (type: 'alert' | 'confirm' | 'prompt', message: string, defaultValue: string | undefined, native: () => unknown) => {
+    const handler = policy ? armed.shift() ?? policy : null;
+    if (!handler) {
+      const result = native();
+      report({
+        type,
+        message,
+        defaultValue,
+        accepted: type === 'alert' || (result !== false && result !== null),
+        promptText: typeof result === 'string' ? result : undefined,
+        handled: false,
+      });
+      return result;
+    }
+
+    const accepted = handler.action === 'accept';
+    const promptText = type === 'prompt' && accepted ? handler.promptText ?? defaultValue ?? '' : undefined;
+    report({ type, message, defaultValue, accepted, promptText, expectedMessage: handler.expectedMessage, handled: true });
+    if (type === 'confirm') return accepted;
+    if (type === 'prompt') return accepted ? promptText : null;
+    return undefined;
+  };
+
+  const originalAlert = window.alert;
+  const originalConfirm = window.confirm;
+  const originalPrompt = window.prompt;
+  window.alert = function (message?: unknown) {
+    handle('alert', String(message ?? ''), undefined, () => originalAlert.call(window, message));
+  };
+  window.confirm = function (message?: string) {
+    return handle('confirm', String(message ?? ''), undefined, () => originalConfirm.call(window, message)) as boolean;
+  };
+  window.prompt = function (message?: string, defaultValue?: string) {
+    return handle('prompt', String(message ?? ''), defaultValue, () =>
+      originalPrompt.call(window, message, defaultValue)
+    ) as string | null;
+  };
+
+  // The page asks for a beforeunload prompt with preventDefault(), returnValue or a
+  // string returned from onbeforeunload. Own the handler property so its return
+  // value can be intercepted too.
+  let pageOnBeforeUnload = window.onbeforeunload;
+  window.onbeforeunload = null;
+  Object.defineProperty(window, 'onbeforeunload', {
+    configurable: true,
+    get: () => pageOnBeforeUnload,
+    set: (fn) => {
+      pageOnBeforeUnload = typeof fn === 'function' ? fn : null;
+    },
+  });
+
+  // Capture listeners at the target run before the page's own listeners
+  window.addEventListener(
+    'beforeunload',
+    (event) => {
+      if (!policy) return;
+      let requested = false;
+      const request = () => {
+        if (requested) return;
+        requested = true;
+        const handler = armed.shift() ?? policy!;
+        report({ type: 'beforeunload', message: '', accepted: true, expectedMessage: handler.expectedMessage, handled: true });
+      };
+      Object.defineProperty(event, 'returnValue', { configurable: true, get: () => '', set: request });
+      event.preventDefault = request;
+    },
+    true
+  );
+
+  window.addEventListener('beforeunload', (event) => {
+    const result = pageOnBeforeUnload?.call(window, event);
+    if (result !== undefined && result !== null) {
+      event.preventDefault();
+      event.returnValue = String(result);
+    }
+  });
+}
+
+/**
+ * Report console.error/warn calls, uncaught exceptions and unhandled promise
+ * rejections through a 'qaerx-console' CustomEvent. The page's own logging is
+ * passed through untouched.
+ */
+export function installConsoleHook(): void {
+  const w = window as Window & { __qaerxConsoleHook?: boolean };
+  if (w.__qaerxConsoleHook) return;
+  w.__qaerxConsoleHook = true;
+
+  const MAX_MESSAGE_LENGTH = 2000;
+
+  const format = (value: unknown): string => {
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+    if (typeof value === 'string') return value;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const report = (entry: { level: 'error' | 'warn'; source: string; message: string; stack?: string }) => {
+    // Objects don't cross into the content script's world; strings do
+    const detail = JSON.stringify({ ...entry, message: entry.message.slice(0, MAX_MESSAGE_LENGTH), timestamp: Date.now() });
+    window.dispatchEvent(new CustomEvent('qaerx-console', { detail }));
+  };
+
+  for (const level of ['error', 'warn'] as const) {
+    const original = console[level];
+    console[level] = function (...args: unknown[]) {
+      const error = args.find((arg): arg is Error => arg instanceof Error);
+      report({ level, source: 'console', message: args.map(format).join(' '), stack: error?.stack });
+      return original.apply(this, args);
+    };
+  }
+
+  window.addEventListener('error', (event) => {
+    // Failed resource loads fire plain Events; only script errors are ErrorEvents
+    if (!(event instanceof ErrorEvent)) return;
+    const location = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : '';
+    report({ level: 'error', source: 'exception', message: `${event.message}${location}`, stack: event.error?.stack });
+  });
+
+  window.addEventListener('unhandledrejection', (event) => {
+    const reason: unknown = event.reason;
+    report({
+      level: 'error',
+      source: 'rejection',
+      message: `Unhandled promise rejection: ${format(reason)}`,
+      stack: reason instanceof Error ? reason.stack : undefined,
+    });
+  });
+}
+
+/**
+ * Answer fetch/XHR requests matching a mock rule with a synthetic response, and
+ * hold back requests matching a delay rule. Blocking is left to
+ * declarativeNetRequest; a matching block rule just keeps later rules from
+ * applying. Calling again replaces the rules, an empty list turns mocking off.
+ */
+export function installMockHook(
+  rules: { urlPattern: string; method?: string; action: string; status?: number; headers?: Record<string, string>; body?: string; delay?: number }[]
+): void {
+  type Rule = (typeof rules)[number];
+  const w = window as Window & { __qaerxMockRules?: Rule[] };
+  const installed = w.__qaerxMockRules !== undefined;
+  w.__qaerxMockRules = rules;
+  if (installed) return;
+
+  const find = (url: string, method: string): Rule | undefined =>
+    (w.__qaerxMockRules ?? []).find((rule) => {
+      if (rule.method && rule.method.toUpperCase() !== method.toUpperCase()) return false;
+      const pattern = rule.urlPattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      return new RegExp(pattern, 'i').test(url);
+    });
+  const absolute = (url: string) => {
+    try {
+      return new URL(url, location.href).href;
+    } catch {
+      return url;
+    }
+  };
+  const wait = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const originalFetch = window.fetch;
+  window.fetch = async function (this: unknown, ...args: Parameters<typeof fetch>) {
+    const [input, init] = args;
+    const url = absolute(input instanceof Request ? input.url : String(input));
+    const rule = find(url, init?.method ?? (input instanceof Request ? input.method : 'GET'));
+    if (rule?.action === 'mock' || rule?.action === 'delay') {
+      await wait(rule.delay);
+    }
+    if (rule?.action !== 'mock') {
+      return originalFetch.apply(this, args);
+    }
+
+    const status = rule.status ?? 200;
+    // These statuses can't carry a body
+    const body = [101, 204, 205, 304].includes(status) ? null : rule.body ?? '';
+    const response = new Response(body, { status, headers: rule.headers });
+    Object.defineProperty(response, 'url', { value: url });
+    return response;
+  };
+
+  // Mocked XHRs get their response as own properties shadowing the prototype's getters
+  const MOCKED = ['readyState', 'status', 'statusText', 'responseURL', 'responseText', 'response', 'getResponseHeader', 'getAllResponseHeaders'];
+  const opened = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+  const originalOpen = XMLHttpRequest.prototype.open as (this: XMLHttpRequest, ...args: unknown[]) => void;
+  XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, ...args: unknown[]) {
+    MOCKED.forEach((name) => delete (this as unknown as Record<string, unknown>)[name]);
+    opened.set(this, { method: String(args[0]), url: absolute(String(args[1])) });
+    return originalOpen.apply(this, args);
+  } as XMLHttpRequest['open'];
+
+  const originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, ...args: Parameters<XMLHttpRequest['send']>) {
+    const request = opened.get(this);
+    const rule = request && find(request.url, request.method);
+    if (!request || !rule || rule.action === 'block') {
+      return originalSend.apply(this, args);
+    }
+    if (rule.action === 'delay') {
+      setTimeout(() => originalSend.apply(this, args), rule.delay ?? 0);
+      return;
+    }
+
+    const headers = rule.headers ?? {};
+    const text = rule.body ?? '';
+    let json: unknown = null;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      // Not JSON; responseType 'json' gets null like a real response would
+    }
+    const values: Record<string, unknown> = {
+      readyState: 4,
+      status: rule.status ?? 200,
+      statusText: '',
+      responseURL: request.url,
+      responseText: text,
+      response: this.responseType === 'json' ? json : text,
+      getResponseHeader: (name: string) =>
+        Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1] ?? null,
+      getAllResponseHeaders: () => Object.entries(headers).map(([key, value]) => `${key}: ${value}\r\n`).join(''),
+    };
+
+    setTimeout(() => {
+      MOCKED.forEach((name) => Object.defineProperty(this, name, { configurable: true, value: values[name] }));
+      this.dispatchEvent(new Event('readystatechange'));
+      this.dispatchEvent(new ProgressEvent('load'));
+      this.dispatchEvent(new ProgressEvent('loadend'));
+    }, rule.delay ?? 0);
+  };
+}
+
+/**
+ * Run a script step: the code is the body of an async function that sees the
+ * test variables as `vars`. Returns strings as-is and anything else as JSON.
+ * Pages whose CSP forbids 'unsafe-eval' reject the Function constructor.
+ */
+export async function runUserScript(
+  code: string,
+  vars: Record<string, string>,
+  timeout: number
+): Promise<{ value: string } | { error: string }> {
+  try {
+    const run = new Function('vars', `return (async () => {\n${code}\n})();`) as (vars: Record<string, string>) => Promise<unknown>;
+    const result = await Promise.race([
+      run({ ...vars }),
+      new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error(`Script did not finish within ${timeout}ms`)), timeout);
+      }),
+    ]);
+    return { value: typeof result === 'string' ? result : JSON.stringify(result) ?? '' };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
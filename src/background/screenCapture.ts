@@ -0,0 +1,106 @@
+import type { CaptureMetrics } from '@/content/utils/pageCapture';
+
+// captureVisibleTab is limited to two calls per second across the extension
+const MIN_CAPTURE_INTERVAL = 550;
+// Canvas dimensions browsers reliably allocate; taller pages are cut off
+const MAX_CANVAS_HEIGHT = 16384;
+
+let lastCaptureAt = 0;
+
+// Part of the page in CSS pixels of the document
+export interface CaptureClip {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * captureVisibleTab, spaced out so traces, visual checks and screenshot steps
+ * capturing in quick succession don't hit the quota
+ */
+export async function captureVisibleTab(windowId: number, options: chrome.tabs.CaptureVisibleTabOptions): Promise<string> {
+  const wait = lastCaptureAt + MIN_CAPTURE_INTERVAL - Date.now();
+  lastCaptureAt = Date.now() + Math.max(0, wait);
+  if (wait > 0) {
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+
+  return chrome.tabs.captureVisibleTab(windowId, options);
+}
+
+/**
+ * Screenshot of the whole page, or of the clip when given, as a PNG data URL.
+ * The top frame is scrolled through the area one viewport at a time and the
+ * captures are stitched in an OffscreenCanvas; fixed and sticky elements only
+ * show in the first capture. The page's scroll position is restored afterwards.
+ */
+export async function captureFullPage(tabId: number, windowId: number, clip?: CaptureClip): Promise<string> {
+  const send = <T>(message: Record<string, unknown>): Promise<T & { success: boolean; error?: string }> =>
+    chrome.tabs.sendMessage(tabId, message, { frameId: 0 });
+
+  const { metrics } = await send<{ metrics: CaptureMetrics }>({ type: 'screenshot:prepare' });
+  try {
+    const top = clip ? Math.max(0, clip.y) : 0;
+    const bottom = clip ? Math.min(metrics.pageHeight, clip.y + clip.height) : metrics.pageHeight;
+    const left = clip ? Math.max(0, clip.x - metrics.scrollX) : 0;
+    const right = clip ? Math.min(metrics.viewportWidth, clip.x - metrics.scrollX + clip.width) : metrics.viewportWidth;
+    if (bottom <= top || right <= left) {
+      throw new Error('Nothing to capture: the area is empty or outside the page');
+    }
+
+    const scale = metrics.pixelRatio;
+    let canvas: OffscreenCanvas | null = null;
+    let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+    for (let y = top, frame = 0; y < bottom; frame++) {
+      const response = await send<{ scrollY: number }>({ type: 'screenshot:scroll', y, hideFixed: frame > 0 || !!clip });
+      if (!response.success) throw new Error(response.error || 'Could not scroll the page');
+
+      const bitmap = await createImageBitmap(await (await fetch(await captureVisibleTab(windowId, { format: 'png' }))).blob());
+      if (!canvas || !ctx) {
+        canvas = new OffscreenCanvas(
+          Math.round((right - left) * scale),
+          Math.min(MAX_CANVAS_HEIGHT, Math.round((bottom - top) * scale))
+        );
+        ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D context unavailable');
+      }
+
+      // A clamped last scroll overlaps the previous frame; drawing at the real
+      // offset lines the overlap up
+      const scrollY = response.scrollY;
+      const from = Math.max(y, scrollY);
+      const to = Math.min(bottom, scrollY + metrics.viewportHeight);
+      ctx.drawImage(
+        bitmap,
+        left * scale,
+        (from - scrollY) * scale,
+        (right - left) * scale,
+        (to - from) * scale,
+        0,
+        (from - top) * scale,
+        (right - left) * scale,
+        (to - from) * scale
+      );
+      bitmap.close();
+
+      if (to <= y || (to - top) * scale >= canvas.height) break;
+      y = to;
+    }
+
+    if (!canvas) throw new Error('Nothing was captured');
+    return await blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+  } finally {
+    await send({ type: 'screenshot:restore' }).catch(() => {});
+  }
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,144 @@
+import type { StorageState, StoredCookie } from '@/types/test';
+
+type CapturedState = Pick<StorageState, 'origin' | 'cookies' | 'localStorage' | 'sessionStorage'>;
+
+interface WebStorage {
+  origin: string;
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+}
+
+/**
+ * Cookies the top frame's page would send, plus any others of its host, and
+ * the page's local and session storage
+ */
+export async function captureStorageState(tabId: number): Promise<CapturedState> {
+  const tab = await chrome.tabs.get(tabId);
+  const url = tab.url ? new URL(tab.url) : null;
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw new Error(`Cannot save the storage state of ${tab.url || 'this page'}`);
+  }
+
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [0] },
+    func: readWebStorage,
+  });
+  const storage = injection?.result as WebStorage | undefined;
+  if (!storage) {
+    throw new Error('The page navigated away before its storage could be read');
+  }
+
+  const cookies = new Map<string, StoredCookie>();
+  const found = [
+    ...(await chrome.cookies.getAll({ url: url.href })),
+    ...(await chrome.cookies.getAll({ domain: url.hostname })),
+  ];
+  for (const cookie of found) {
+    cookies.set(`${cookie.name};${cookie.domain};${cookie.path}`, {
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      hostOnly: cookie.hostOnly,
+      sameSite: cookie.sameSite,
+      expirationDate: cookie.session ? undefined : cookie.expirationDate,
+    });
+  }
+
+  return { ...storage, cookies: Array.from(cookies.values()) };
+}
+
+/**
+ * Set the state's cookies; expired ones are skipped. Done before navigating
+ * so the first request already carries them.
+ */
+export async function restoreCookies(state: StorageState): Promise<void> {
+  const now = Date.now() / 1000;
+  for (const cookie of state.cookies) {
+    if (cookie.expirationDate !== undefined && cookie.expirationDate < now) continue;
+    await chrome.cookies.set({
+      url: `${cookie.secure ? 'https' : 'http'}://${cookie.domain.replace(/^\./, '')}${cookie.path}`,
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.hostOnly ? undefined : cookie.domain,
+      path: cookie.path,
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      sameSite: cookie.sameSite,
+      expirationDate: cookie.expirationDate,
+    });
+  }
+}
+
+/**
+ * Write the state's local and session storage into the top frame, which must
+ * be on the state's origin. Returns whether anything was written; the page has
+ * already read its storage by then, so the caller reloads it.
+ */
+export async function restoreWebStorage(tabId: number, state: StorageState): Promise<boolean> {
+  if (Object.keys(state.localStorage).length === 0 && Object.keys(state.sessionStorage).length === 0) {
+    return false;
+  }
+  if (!(await isOnOrigin(tabId, state.origin))) {
+    console.warn(`[QAerx Runner] Tab is not on ${state.origin}; storage state "${state.name}" restored cookies only`);
+    return false;
+  }
+
+  await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [0] },
+    func: writeWebStorage,
+    args: [state.localStorage, state.sessionStorage],
+  });
+  return true;
+}
+
+/**
+ * Remove the origin's cookies, storage, caches and service workers. Chrome
+ * clears cookies of the whole site (registrable domain). Session storage
+ * belongs to the tab and is cleared only when the tab is on the origin.
+ */
+export async function clearSiteData(tabId: number, origin: string): Promise<void> {
+  await chrome.browsingData.remove({ origins: [origin] }, {
+    cookies: true,
+    localStorage: true,
+    indexedDB: true,
+    cacheStorage: true,
+    serviceWorkers: true,
+  });
+
+  if (await isOnOrigin(tabId, origin)) {
+    await chrome.scripting.executeScript({
+      target: { tabId, frameIds: [0] },
+      func: () => sessionStorage.clear(),
+    });
+  }
+}
+
+async function isOnOrigin(tabId: number, origin: string): Promise<boolean> {
+  const { url } = await chrome.tabs.get(tabId);
+  try {
+    return !!url && new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+// Injected with executeScript, so self-contained like the page hooks
+function readWebStorage(): WebStorage {
+  const read = (storage: Storage) => {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null) entries[key] = storage.getItem(key) ?? '';
+    }
+    return entries;
+  };
+  return { origin: location.origin, localStorage: read(localStorage), sessionStorage: read(sessionStorage) };
+}
+
+function writeWebStorage(local: Record<string, string>, session: Record<string, string>): void {
+  for (const [key, value] of Object.entries(local)) localStorage.setItem(key, value);
+  for (const [key, value] of Object.entries(session)) sessionStorage.setItem(key, value);
+}
@@ -62,10 +62,23 @@ export const ACTION_TYPES = {
   CHECK: 'check',
   UNCHECK: 'uncheck',
   HOVER: 'hover',
+  DRAG: 'drag',
+  UPLOAD: 'upload',
+  DIALOG: 'dialog',
+  EXTRACT: 'extract',
+  SCRIPT: 'script',
+  WAIT_FOR_POPUP: 'waitForPopup',
+  SWITCH_TAB: 'switchTab',
+  CLOSE_TAB: 'closeTab',
+  IF: 'if',
+  REPEAT: 'repeat',
+  FOR_EACH: 'forEach',
   SCROLL: 'scroll',
   WAIT: 'wait',
   ASSERT: 'assert',
   SCREENSHOT: 'screenshot',
+  A11Y_AUDIT: 'a11yAudit',
+  SAVE_STORAGE_STATE: 'saveStorageState',
   API: 'api',
 } as const;
 
@@ -81,7 +81,7 @@ export const defaultConfig: Config = {
     aiDataGeneration: true,
     visualComparison: true,
     selectorHealing: true,
-    networkMocking: false, // Future feature
+    networkMocking: true,
   },
 };
 
@@ -0,0 +1,153 @@
+// Local copy of FRAME_SEPARATOR from @/types/test to avoid external chunk imports
+const FRAME_SEPARATOR = ' |> ';
+const MESSAGE_SOURCE = 'qaerx-frame';
+const IDENTIFY_TIMEOUT = 1000;
+const POLL_INTERVAL = 100;
+
+// chrome.runtime.getFrameId is available to content scripts (Chrome 106+) but missing from @types/chrome
+type RuntimeWithFrameId = typeof chrome.runtime & {
+  getFrameId(target: Element | Window): number;
+};
+
+interface IdentifyRequest {
+  source: typeof MESSAGE_SOURCE;
+  type: 'identify';
+  requestId: string;
+}
+
+interface IdentifyResponse {
+  source: typeof MESSAGE_SOURCE;
+  type: 'identified';
+  requestId: string;
+  frameSelector?: string;
+}
+
+/**
+ * Connects the content scripts running in a page's frames
+ * A frame learns its own frameSelector (the chain of iframe selectors from the
+ * top document) by asking its parent, which can match event.source against its
+ * iframes even when they are cross-origin.
+ */
+export class FrameBridge {
+  readonly isTopFrame = window === window.top;
+  private frameSelector: string | undefined;
+  private resolvePromise: Promise<string | undefined> | null = null;
+
+  constructor() {
+    window.addEventListener('message', (event) => {
+      const data = event.data as IdentifyRequest | undefined;
+      if (data?.source !== MESSAGE_SOURCE || data.type !== 'identify' || !event.source) return;
+      this.answerIdentify(event.source as Window, data.requestId);
+    });
+  }
+
+  /**
+   * Selector chain of this frame, or undefined in the top frame.
+   * Only available once resolveFrameSelector() has settled.
+   */
+  getFrameSelector(): string | undefined {
+    return this.frameSelector;
+  }
+
+  resolveFrameSelector(): Promise<string | undefined> {
+    if (this.isTopFrame) return Promise.resolve(undefined);
+
+    if (!this.resolvePromise) {
+      this.resolvePromise = this.askParent().then((selector) => {
+        this.frameSelector = selector;
+        return selector;
+      });
+    }
+    return this.resolvePromise;
+  }
+
+  /**
+   * Find the child iframe matching `selector` in this document and return its
+   * extension frameId, waiting for it to appear
+   */
+  async resolveChildFrameId(selector: string, timeout: number): Promise<number> {
+    const startTime = Date.now();
+
+    do {
+      const frame = document.querySelector(selector);
+      if (frame instanceof HTMLIFrameElement || frame instanceof HTMLFrameElement) {
+        const frameId = (chrome.runtime as RuntimeWithFrameId).getFrameId(frame);
+        if (frameId >= 0) return frameId;
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    } while (Date.now() - startTime < timeout);
+
+    throw new Error(`Frame not found: ${selector}`);
+  }
+
+  private askParent(): Promise<string | undefined> {
+    const requestId = crypto.randomUUID();
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        window.removeEventListener('message', onMessage);
+        resolve(undefined);
+      }, IDENTIFY_TIMEOUT);
+
+      const onMessage = (event: MessageEvent) => {
+        const data = event.data as IdentifyResponse | undefined;
+        if (
+          event.source !== window.parent ||
+          data?.source !== MESSAGE_SOURCE ||
+          data.type !== 'identified' ||
+          data.requestId !== requestId
+        ) {
+          return;
+        }
+        clearTimeout(timer);
+        window.removeEventListener('message', onMessage);
+        resolve(data.frameSelector);
+      };
+
+      window.addEventListener('message', onMessage);
+      window.parent.postMessage({ source: MESSAGE_SOURCE, type: 'identify', requestId } satisfies IdentifyRequest, '*');
+    });
+  }
+
+  private async answerIdentify(child: Window, requestId: string): Promise<void> {
+    const frame = Array.from(document.querySelectorAll('iframe, frame')).find(
+      (el) => (el as HTMLIFrameElement).contentWindow === child
+    ) as HTMLIFrameElement | undefined;
+    if (!frame) return;
+
+    const ownSelector = await this.resolveFrameSelector();
+    const selector = this.buildSelector(frame);
+    const response: IdentifyResponse = {
+      source: MESSAGE_SOURCE,
+      type: 'identified',
+      requestId,
+      frameSelector: ownSelector ? `${ownSelector}${FRAME_SEPARATOR}${selector}` : selector,
+    };
+    child.postMessage(response, '*');
+  }
+
+  private buildSelector(frame: HTMLIFrameElement): string {
+    const tag = frame.tagName.toLowerCase();
+    const quote = (value: string) => value.replace(/"/g, '\\"');
+
+    if (frame.id) return `${tag}#${CSS.escape(frame.id)}`;
+    if (frame.name) return `${tag}[name="${quote(frame.name)}"]`;
+    if (frame.title) return `${tag}[title="${quote(frame.title)}"]`;
+
+    const src = frame.getAttribute('src');
+    if (src) return `${tag}[src="${quote(src)}"]`;
+
+    // Fall back to position among sibling frames
+    const siblings = Array.from(frame.parentElement?.children ?? []).filter((el) => el.tagName === frame.tagName);
+    return `${tag}:nth-of-type(${siblings.indexOf(frame) + 1})`;
+  }
+}
+
+let bridgeInstance: FrameBridge | null = null;
+
+export function getFrameBridge(): FrameBridge {
+  if (!bridgeInstance) {
+    bridgeInstance = new FrameBridge();
+  }
+  return bridgeInstance;
+}
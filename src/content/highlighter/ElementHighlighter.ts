@@ -1,3 +1,5 @@
+import { querySelectorDeep } from '../utils/shadowDom';
+
 export class ElementHighlighter {
   private highlightBox: HTMLDivElement | null = null;
 
@@ -5,7 +7,7 @@ export class ElementHighlighter {
     this.clear();
 
     try {
-      const element = document.querySelector(selector);
+      const element = querySelectorDeep(selector);
       if (!element) return;
 
       this.createHighlightBox(element);
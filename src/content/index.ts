@@ -3,6 +3,11 @@ import { getPlayback } from './playback/PlaybackEngine';
 import { getElementPicker } from './picker/ElementPicker';
 import { getElementHighlighter } from './highlighter/ElementHighlighter';
 import { getSimplifiedPageContext, analyzeCurrentPage } from './helpers/PageAnalyzer';
+import { getFrameBridge } from './frames/FrameBridge';
+import { querySelectorAllDeep } from './utils/shadowDom';
+import { serializeDocument } from './utils/domSnapshot';
+import { prepareCapture, restoreCapture, scrollForCapture } from './utils/pageCapture';
+import { takePageMetrics } from './utils/pagePerformance';
 
 // Log immediately when script starts executing
 console.log('[QAerx] Content script starting...');
@@ -14,6 +19,26 @@ let elementPicker: ReturnType<typeof getElementPicker> | null = null;
 let highlighter: ReturnType<typeof getElementHighlighter> | null = null;
 let initError: string | null = null;
 
+// Content scripts also run in iframes; those only take part in recording and playback
+const frameBridge = getFrameBridge();
+const FRAME_MESSAGE_TYPES = new Set([
+  'recording:start',
+  'recording:stop',
+  'recording:pause',
+  'recording:resume',
+  'recording:flush',
+  'playback:execute',
+  'playback:stop',
+  'playback:heal',
+  'playback:check-condition',
+  'frame:resolve-child',
+]);
+
+if (!frameBridge.isTopFrame) {
+  // Resolve early so recorded events carry their frameSelector
+  frameBridge.resolveFrameSelector();
+}
+
 try {
   recorder = getRecorder();
   playback = getPlayback();
@@ -27,6 +52,10 @@ try {
 
 // Listen for messages from background/popup
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (!frameBridge.isTopFrame && !FRAME_MESSAGE_TYPES.has(message.type)) {
+    return false;
+  }
+
   console.log('[QAerx] Received message:', message.type);
 
   switch (message.type) {
@@ -92,6 +121,11 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
       }
       return false;
 
+    case 'recording:flush':
+      recorder?.flush();
+      sendResponse({ success: true });
+      return false;
+
     case 'recording:status':
       try {
         if (!recorder) {
@@ -118,6 +152,9 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         .execute(message.steps, {
           timeout: message.timeout || 30000,
           variables: message.variables || {},
+          fixtures: message.fixtures || [],
+          dialogPolicy: message.dialogPolicy,
+          failOnPageError: message.failOnPageError,
           onStepStart: (step, index) => {
             chrome.runtime.sendMessage({
               type: 'playback:step-start',
@@ -150,6 +187,37 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
       sendResponse({ success: true });
       return false;
 
+    case 'playback:heal':
+      if (!playback) {
+        sendResponse({ success: false, error: 'Playback not initialized' });
+        return false;
+      }
+      try {
+        sendResponse({ success: true, ...playback.suggestHealing(message.selectors, message.stepName) });
+      } catch (error) {
+        sendResponse({ success: false, error: String(error) });
+      }
+      return false;
+
+    case 'playback:check-condition':
+      if (!playback) {
+        sendResponse({ success: false, error: 'Playback not initialized' });
+        return false;
+      }
+      playback
+        .checkElementState(message.selectors, message.state, message.timeout || 0)
+        .then((matched) => sendResponse({ success: true, matched }))
+        .catch((error) => sendResponse({ success: false, error: String(error) }));
+      return true;
+
+    // Locate a child iframe so the caller can message its content script
+    case 'frame:resolve-child':
+      frameBridge
+        .resolveChildFrameId(message.selector, message.timeout || 10000)
+        .then((frameId) => sendResponse({ success: true, frameId }))
+        .catch((error) => sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) }));
+      return true;
+
     // Element picker commands
     case 'picker:start':
       if (!elementPicker) {
@@ -177,7 +245,7 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     // Selector validation
     case 'selector:validate':
       try {
-        const elements = document.querySelectorAll(message.selector);
+        const elements = querySelectorAllDeep(message.selector);
         sendResponse({
           success: true,
           isValid: elements.length > 0,
@@ -230,6 +298,40 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
       }
       return false;
 
+    // Step traces
+    case 'trace:snapshot':
+      try {
+        sendResponse({ success: true, dom: serializeDocument() });
+      } catch (error) {
+        sendResponse({ success: false, error: String(error) });
+      }
+      return false;
+
+    // Full-page and element screenshots, driven by the background
+    case 'screenshot:prepare':
+      sendResponse({ success: true, metrics: prepareCapture() });
+      return false;
+
+    case 'screenshot:scroll':
+      scrollForCapture(message.y, !!message.hideFixed)
+        .then((scrollY) => sendResponse({ success: true, scrollY }))
+        .catch((error) => sendResponse({ success: false, error: String(error) }));
+      return true;
+
+    case 'screenshot:restore':
+      restoreCapture();
+      sendResponse({ success: true });
+      return false;
+
+    // Web performance of the page, sampled by the runner after every step
+    case 'performance:take':
+      try {
+        sendResponse({ success: true, metrics: takePageMetrics() });
+      } catch (error) {
+        sendResponse({ success: false, error: String(error) });
+      }
+      return false;
+
     default:
       sendResponse({ error: 'Unknown message type' });
       return false;
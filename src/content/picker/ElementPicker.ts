@@ -1,5 +1,6 @@
 import { SelectorGenerator } from '../recorder/SelectorGenerator';
 import type { SelectorStrategy } from '@/types/test';
+import { deepElementFromPoint } from '../utils/shadowDom';
 
 export class ElementPicker {
   private isActive = false;
@@ -149,7 +150,7 @@ export class ElementPicker {
   }
 
   private handleMouseMove = (e: MouseEvent): void => {
-    const element = document.elementFromPoint(e.clientX, e.clientY);
+    const element = deepElementFromPoint(e.clientX, e.clientY);
     if (!element || element.id?.startsWith('qaerx-picker')) return;
 
     this.currentElement = element;
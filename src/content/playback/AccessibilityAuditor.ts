@@ -0,0 +1,466 @@
+import type { A11yAuditAction, A11yImpact, A11yRuleId } from '@/types/test';
+import type { AssertionResult } from '@/types/result';
+import { SelectorGenerator } from '../recorder/SelectorGenerator';
+
+// Results kept per audit; a page with broken contrast can report thousands
+const MAX_RESULTS = 100;
+
+const IMPACTS: A11yImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+// WCAG 2.1 AA: 4.5:1 for body text, 3:1 from 24px, or 18.66px bold
+const CONTRAST_NORMAL = 4.5;
+const CONTRAST_LARGE = 3;
+
+const VALID_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+  'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+  'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+  'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
+  'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none',
+  'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status',
+  'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+  'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+]);
+
+const LABELLED_INPUT_EXCLUDED_TYPES = new Set(['hidden', 'button', 'submit', 'reset', 'image']);
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]', 'area[href]', 'button:not([disabled])', 'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])', 'textarea:not([disabled])', 'iframe', 'summary',
+  '[tabindex]', '[contenteditable=""]', '[contenteditable="true"]',
+].join(',');
+
+const CONTROL_SELECTOR = [
+  'a[href]', 'button', 'summary', 'input[type="button"]',
+  '[role="button"]', '[role="link"]', '[role="menuitem"]', '[role="tab"]', '[role="switch"]',
+  '[role="checkbox"]', '[role="radio"]', '[role="option"]', '[role="treeitem"]',
+].join(',');
+
+interface Finding {
+  element: Element;
+  message: string;
+}
+
+interface AuditRule {
+  id: A11yRuleId;
+  impact: A11yImpact;
+  pageOnly?: boolean; // Checks the document itself, so subtree audits skip it
+  check(elements: Element[]): Finding[];
+}
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Rule-based accessibility checks of a page or subtree, covering the problems
+ * automated tools reliably catch: missing names and alt text, contrast,
+ * invalid ARIA, heading structure and duplicate ids. Open shadow roots are
+ * included. Contrast is judged against the background colors of the element's
+ * ancestors, so text over images or positioned siblings is skipped.
+ */
+export class AccessibilityAuditor {
+  private selectors = new SelectorGenerator();
+
+  private rules: AuditRule[] = [
+    {
+      id: 'image-alt',
+      impact: 'critical',
+      check: (elements) =>
+        elements
+          .filter((el) =>
+            el instanceof HTMLImageElement
+              ? !el.hasAttribute('alt') && !isPresentational(el) && !this.accessibleName(el)
+              : (el instanceof HTMLInputElement && el.type === 'image') || el.getAttribute('role') === 'img'
+                ? !this.accessibleName(el)
+                : false
+          )
+          .filter(isRendered)
+          .map((element) => ({ element, message: 'Image has no alternative text' })),
+    },
+    {
+      id: 'label',
+      impact: 'critical',
+      check: (elements) =>
+        elements
+          .filter(
+            (el) =>
+              (el instanceof HTMLInputElement && !LABELLED_INPUT_EXCLUDED_TYPES.has(el.type)) ||
+              el instanceof HTMLSelectElement ||
+              el instanceof HTMLTextAreaElement
+          )
+          .filter((el) => isRendered(el) && !this.accessibleName(el) && !el.getAttribute('placeholder')?.trim())
+          .map((element) => ({ element, message: 'Form field has no label' })),
+    },
+    {
+      id: 'color-contrast',
+      impact: 'serious',
+      check: (elements) => {
+        const findings: Finding[] = [];
+        for (const el of elements) {
+          if (!hasOwnText(el) || !isRendered(el) || isAriaHidden(el) || isDisabled(el)) continue;
+          const style = getComputedStyle(el);
+          const background = this.backgroundColor(el);
+          const foreground = parseColor(style.color);
+          if (!background || !foreground) continue;
+
+          const ratio = contrastRatio(blend(foreground, background), background);
+          const size = parseFloat(style.fontSize);
+          const bold = parseInt(style.fontWeight, 10) >= 700;
+          const required = size >= 24 || (bold && size >= 18.66) ? CONTRAST_LARGE : CONTRAST_NORMAL;
+          if (ratio < required) {
+            findings.push({ element: el, message: `Text contrast ${ratio.toFixed(2)}:1 is below ${required}:1` });
+          }
+        }
+        return findings;
+      },
+    },
+    {
+      id: 'duplicate-id',
+      impact: 'minor',
+      check: (elements) => {
+        const findings: Finding[] = [];
+        const reported = new Set<string>();
+        for (const el of elements) {
+          if (!el.id || reported.has(el.id)) continue;
+          // ids are unique per document or shadow root, wherever the audit started
+          const root = el.getRootNode() as Document | ShadowRoot;
+          const count = root.querySelectorAll(`[id="${CSS.escape(el.id)}"]`).length;
+          if (count > 1) {
+            reported.add(el.id);
+            findings.push({ element: el, message: `id "${el.id}" is used by ${count} elements` });
+          }
+        }
+        return findings;
+      },
+    },
+    {
+      id: 'aria-roles',
+      impact: 'critical',
+      check: (elements) =>
+        elements
+          .filter((el) => el.hasAttribute('role'))
+          .flatMap((element) => {
+            const roles = (element.getAttribute('role') ?? '').trim().split(/\s+/).filter(Boolean);
+            const invalid = roles.filter((role) => !VALID_ROLES.has(role.toLowerCase()));
+            if (roles.length === 0) return [{ element, message: 'role attribute is empty' }];
+            return invalid.length > 0 ? [{ element, message: `Invalid ARIA role "${invalid.join(' ')}"` }] : [];
+          }),
+    },
+    {
+      id: 'heading-order',
+      impact: 'moderate',
+      check: (elements) => {
+        const findings: Finding[] = [];
+        let previous = 0;
+        for (const el of elements) {
+          const level = headingLevel(el);
+          if (!level || !isRendered(el) || isAriaHidden(el)) continue;
+          if (previous && level > previous + 1) {
+            findings.push({ element: el, message: `Heading level jumps from h${previous} to h${level}` });
+          }
+          previous = level;
+        }
+        return findings;
+      },
+    },
+    {
+      id: 'empty-heading',
+      impact: 'minor',
+      check: (elements) =>
+        elements
+          .filter((el) => headingLevel(el) && isRendered(el) && !isAriaHidden(el) && !this.accessibleName(el))
+          .map((element) => ({ element, message: 'Heading has no text' })),
+    },
+    {
+      id: 'focusable-name',
+      impact: 'serious',
+      check: (elements) =>
+        elements
+          .filter((el) => el.matches(CONTROL_SELECTOR) && !isPresentational(el))
+          .filter((el) => isRendered(el) && !isAriaHidden(el) && !this.accessibleName(el))
+          .map((element) => ({ element, message: `${describeControl(element)} has no accessible name` })),
+    },
+    {
+      id: 'aria-hidden-focus',
+      impact: 'serious',
+      check: (elements) =>
+        elements
+          .filter((el) => el.matches(FOCUSABLE_SELECTOR) && (el as HTMLElement).tabIndex >= 0)
+          .filter((el) => isAriaHidden(el) && isRendered(el) && !(el as HTMLElement).closest('[inert]'))
+          .map((element) => ({ element, message: 'Focusable element is inside aria-hidden content' })),
+    },
+    {
+      id: 'document-title',
+      impact: 'serious',
+      pageOnly: true,
+      check: () =>
+        document.title.trim() ? [] : [{ element: document.documentElement, message: 'Page has no title' }],
+    },
+    {
+      id: 'html-lang',
+      impact: 'serious',
+      pageOnly: true,
+      check: () =>
+        document.documentElement.lang.trim()
+          ? []
+          : [{ element: document.documentElement, message: 'Page has no lang attribute' }],
+    },
+  ];
+
+  // Composited background per element for one audit; siblings share ancestors
+  private backgrounds = new Map<Element, Rgba | null>();
+
+  /**
+   * Audit root, or the whole page without one. Every violation becomes an
+   * assertion result; known ones (in the baseline) and those below minImpact
+   * pass, the rest fail.
+   */
+  audit(root: Element | null, action: A11yAuditAction): AssertionResult[] {
+    const elements = collectElements(root ?? document.documentElement);
+    const disabled = new Set(action.disabledRules ?? []);
+    const baseline = new Set(action.baseline ?? []);
+    const minImpact = IMPACTS.indexOf(action.minImpact ?? 'minor');
+    const results: AssertionResult[] = [];
+
+    try {
+      for (const rule of this.rules) {
+        if (disabled.has(rule.id) || (rule.pageOnly && root)) continue;
+
+        let findings: Finding[];
+        try {
+          findings = rule.check(elements);
+        } catch (error) {
+          console.warn(`[AccessibilityAuditor] Rule ${rule.id} failed:`, error);
+          continue;
+        }
+
+        for (const { element, message } of findings) {
+          const selector = this.selectorFor(element);
+          const known = baseline.has(a11yFingerprint(rule.id, selector));
+          results.push({
+            assertionIndex: -1,
+            passed: known || IMPACTS.indexOf(rule.impact) < minImpact,
+            expected: null,
+            actual: snippet(element),
+            message: known ? `${message} (known issue)` : message,
+            rule: rule.id,
+            impact: rule.impact,
+            selector,
+          });
+        }
+      }
+    } finally {
+      this.backgrounds.clear();
+    }
+
+    // Failures first so truncation never hides one behind known issues
+    results.sort((a, b) => Number(a.passed) - Number(b.passed));
+    return results.slice(0, MAX_RESULTS);
+  }
+
+  private selectorFor(element: Element): string {
+    try {
+      return this.selectors.generate(element)[0]?.value ?? element.tagName.toLowerCase();
+    } catch {
+      return element.tagName.toLowerCase();
+    }
+  }
+
+  /**
+   * Simplified accessible name: aria-labelledby, aria-label, labels, alt,
+   * content and title, in that order
+   */
+  private accessibleName(el: Element): string {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const root = el.getRootNode() as Document | ShadowRoot;
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => (id ? textAlternative(root.getElementById(id)) : ''))
+        .join(' ')
+        .trim();
+      if (text) return text;
+    }
+
+    const ariaLabel = el.getAttribute('aria-label')?.trim();
+    if (ariaLabel) return ariaLabel;
+
+    if (el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) {
+      const labels = Array.from(el.labels ?? [])
+        .map((label) => textAlternative(label))
+        .join(' ')
+        .trim();
+      if (labels) return labels;
+      if (el instanceof HTMLInputElement) {
+        if (el.type === 'image' && el.alt.trim()) return el.alt.trim();
+        if (el.type === 'button' && el.value.trim()) return el.value.trim();
+        if (el.type === 'submit' || el.type === 'reset') return el.value.trim() || el.type;
+      }
+    } else if (el instanceof HTMLImageElement) {
+      if (el.alt.trim()) return el.alt.trim();
+    } else if (el.matches(CONTROL_SELECTOR) || headingLevel(el)) {
+      const text = textAlternative(el);
+      if (text) return text;
+    }
+
+    return el.getAttribute('title')?.trim() ?? '';
+  }
+
+  /**
+   * Opaque color behind the element's text, from the background colors of it
+   * and its ancestors; null when a background image or gradient is in the way
+   */
+  private backgroundColor(el: Element): Rgba | null {
+    const cached = this.backgrounds.get(el);
+    if (cached !== undefined) return cached;
+
+    const style = getComputedStyle(el);
+    let result: Rgba | null;
+    if (style.backgroundImage !== 'none') {
+      result = null;
+    } else {
+      const own = parseColor(style.backgroundColor) ?? { r: 0, g: 0, b: 0, a: 0 };
+      const parent = parentElement(el);
+      if (own.a >= 1) {
+        result = own;
+      } else {
+        const below = parent ? this.backgroundColor(parent) : { r: 255, g: 255, b: 255, a: 1 };
+        result = below && blend(own, below);
+      }
+    }
+
+    this.backgrounds.set(el, result);
+    return result;
+  }
+}
+
+// Baseline entry of a violation; the step editor writes them the same way
+function a11yFingerprint(rule: string, selector: string): string {
+  return `${rule} ${selector}`;
+}
+
+// Elements of root in document order, descending into open shadow roots
+function collectElements(root: Element): Element[] {
+  const elements: Element[] = [];
+  const visit = (el: Element) => {
+    elements.push(el);
+    if (el.shadowRoot) {
+      Array.from(el.shadowRoot.children).forEach(visit);
+    }
+    Array.from(el.children).forEach(visit);
+  };
+  visit(root);
+  return elements;
+}
+
+function parentElement(el: Element): Element | null {
+  if (el.parentElement) return el.parentElement;
+  const root = el.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+}
+
+function isRendered(el: Element): boolean {
+  if (el === document.documentElement) return true;
+  if (el.getClientRects().length === 0) return false;
+  return getComputedStyle(el).visibility !== 'hidden';
+}
+
+function isAriaHidden(el: Element): boolean {
+  for (let current: Element | null = el; current; current = parentElement(current)) {
+    if (current.getAttribute('aria-hidden') === 'true') return true;
+  }
+  return false;
+}
+
+function isPresentational(el: Element): boolean {
+  const role = el.getAttribute('role');
+  return role === 'presentation' || role === 'none';
+}
+
+function isDisabled(el: Element): boolean {
+  return el.closest(':disabled, [aria-disabled="true"]') !== null;
+}
+
+function hasOwnText(el: Element): boolean {
+  if (el instanceof HTMLScriptElement || el instanceof HTMLStyleElement || el.closest('svg, noscript')) return false;
+  return Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+}
+
+function headingLevel(el: Element): number {
+  const match = /^H([1-6])$/.exec(el.tagName);
+  if (match) return Number(match[1]);
+  if (el.getAttribute('role') === 'heading') {
+    return Number(el.getAttribute('aria-level')) || 2;
+  }
+  return 0;
+}
+
+function describeControl(el: Element): string {
+  const role = el.getAttribute('role');
+  if (role) return role.charAt(0).toUpperCase() + role.slice(1);
+  return el.tagName === 'A' ? 'Link' : 'Button';
+}
+
+// Text of an element's content the way screen readers read it: image alt
+// text and aria-labels included, aria-hidden parts left out
+function textAlternative(el: Element | null): string {
+  if (!el) return '';
+  const parts: string[] = [];
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent ?? '');
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    if (node.getAttribute('aria-hidden') === 'true' || node instanceof HTMLScriptElement || node instanceof HTMLStyleElement) {
+      return;
+    }
+    const label = node.getAttribute('aria-label')?.trim();
+    if (label) {
+      parts.push(` ${label} `);
+    } else if (node instanceof HTMLImageElement) {
+      parts.push(` ${node.alt} `);
+    } else {
+      node.childNodes.forEach(visit);
+    }
+  };
+  el.childNodes.forEach(visit);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+function snippet(el: Element): string {
+  const html = el.outerHTML;
+  const open = html.slice(0, html.indexOf('>') + 1) || html;
+  return open.length > 120 ? `${open.slice(0, 117)}...` : open;
+}
+
+function parseColor(value: string): Rgba | null {
+  const match = /^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)$/.exec(value.trim());
+  if (!match) return null;
+  const alpha = match[4] === undefined ? 1 : Number(match[4]) / (match[5] ? 100 : 1);
+  return { r: Number(match[1]), g: Number(match[2]), b: Number(match[3]), a: alpha };
+}
+
+// Color of top drawn over an opaque bottom
+function blend(top: Rgba, bottom: Rgba): Rgba {
+  const mix = (upper: number, lower: number) => upper * top.a + lower * (1 - top.a);
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a: 1 };
+}
+
+function luminance({ r, g, b }: Rgba): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+function contrastRatio(a: Rgba, b: Rgba): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
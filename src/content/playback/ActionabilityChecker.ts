@@ -0,0 +1,140 @@
+import type { SelectorStrategy } from '@/types/test';
+import type { ElementLocator } from './ElementLocator';
+import { deepElementFromPoint } from '../utils/shadowDom';
+import { isStable, isVisible } from '../utils/visibility';
+
+const POLL_INTERVAL = 100;
+
+export type ActionabilityCheck = 'visible' | 'stable' | 'enabled' | 'editable' | 'receivesEvents';
+
+/**
+ * Playwright-style actionability checks
+ * Before an action the element must be attached and pass every requested
+ * check; the checks are retried until the timeout, and the error names the
+ * last reason the element wasn't actionable (e.g. "covered by div.cookie-banner").
+ */
+export class ActionabilityChecker {
+  constructor(private locator: ElementLocator) {}
+
+  async waitForActionable(
+    selectors: SelectorStrategy[],
+    checks: ActionabilityCheck[],
+    timeout: number,
+    pollInterval = POLL_INTERVAL
+  ): Promise<Element> {
+    const startTime = Date.now();
+    let lastReason: string | null = null;
+    let found = false;
+
+    do {
+      const element = this.locator.queryFirst(selectors);
+      if (element) {
+        found = true;
+        lastReason = await this.check(element, checks);
+        if (!lastReason) return element;
+      }
+      await this.sleep(pollInterval);
+    } while (Date.now() - startTime < timeout);
+
+    const selectorList = selectors.map((s) => s.value).join(', ');
+    if (!found) {
+      throw new Error(`Element not found with selectors: ${selectorList}`);
+    }
+    throw new Error(`Element not actionable within ${timeout}ms: ${lastReason} (${selectorList})`);
+  }
+
+  /**
+   * Run the checks in order; returns the first failing reason, or null
+   */
+  async check(element: Element, checks: ActionabilityCheck[]): Promise<string | null> {
+    if (!element.isConnected) return 'element was detached from the DOM';
+
+    for (const check of checks) {
+      const reason = await this.runCheck(element, check);
+      if (reason) return reason;
+    }
+    return null;
+  }
+
+  private async runCheck(element: Element, check: ActionabilityCheck): Promise<string | null> {
+    switch (check) {
+      case 'visible':
+        return isVisible(element) ? null : 'element is not visible';
+
+      case 'stable':
+        return (await isStable(element)) ? null : 'element is not stable (still moving or animating)';
+
+      case 'enabled':
+        return this.isDisabled(element) ? 'element is disabled' : null;
+
+      case 'editable':
+        if (this.isDisabled(element)) return 'element is disabled';
+        if ((element as HTMLInputElement).readOnly || element.getAttribute('aria-readonly') === 'true') {
+          return 'element is read-only';
+        }
+        return null;
+
+      case 'receivesEvents':
+        return this.hitTest(element);
+    }
+  }
+
+  private isDisabled(element: Element): boolean {
+    if ((element as HTMLButtonElement).disabled) return true;
+    if (element.closest('fieldset:disabled') && !element.closest('legend')) return true;
+    return element.closest('[aria-disabled="true"]') !== null;
+  }
+
+  /**
+   * Check that a click at the element's center would land on it (or inside it)
+   * rather than on an overlay. Scrolls the element into view first.
+   */
+  private hitTest(element: Element): string | null {
+    let rect = element.getBoundingClientRect();
+    if (!this.isInViewport(rect)) {
+      element.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+      rect = element.getBoundingClientRect();
+    }
+
+    const x = Math.min(Math.max(rect.left + rect.width / 2, 0), window.innerWidth - 1);
+    const y = Math.min(Math.max(rect.top + rect.height / 2, 0), window.innerHeight - 1);
+    const hit = deepElementFromPoint(x, y);
+
+    if (!hit) return 'element is outside of the viewport';
+    if (this.containsComposed(element, hit)) return null;
+    // Clicking a control's label reaches the control (custom-styled checkboxes)
+    if (hit.closest('label')?.control === element) return null;
+
+    if (window.getComputedStyle(element).pointerEvents === 'none') {
+      return 'element has pointer-events: none';
+    }
+    return `covered by ${this.describe(hit)}`;
+  }
+
+  private isInViewport(rect: DOMRect): boolean {
+    return rect.bottom > 0 && rect.right > 0 && rect.top < window.innerHeight && rect.left < window.innerWidth;
+  }
+
+  /**
+   * contains() that also crosses shadow boundaries from the inner node outward
+   */
+  private containsComposed(ancestor: Element, node: Element): boolean {
+    let current: Node | null = node;
+    while (current) {
+      if (current === ancestor) return true;
+      current = current.parentNode instanceof ShadowRoot ? current.parentNode.host : current.parentNode;
+    }
+    return false;
+  }
+
+  private describe(element: Element): string {
+    const tag = element.tagName.toLowerCase();
+    if (element.id) return `${tag}#${element.id}`;
+    const classes = Array.from(element.classList).slice(0, 2);
+    return classes.length > 0 ? `${tag}.${classes.join('.')}` : tag;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,254 @@
+import type {
+  UIAssertion,
+  TextAssertion,
+  VisibilityAssertion,
+  AttributeAssertion,
+  CountAssertion,
+  SelectorStrategy,
+} from '@/types/test';
+import type { AssertionResult } from '@/types/result';
+import type { ElementLocator } from './ElementLocator';
+import { isVisible } from '../utils/visibility';
+
+const POLL_INTERVAL = 100;
+
+/**
+ * Evaluates deterministic step assertions (text, visibility, attribute, count)
+ * Assertions are retried until they pass or the timeout elapses, so they
+ * tolerate content that renders shortly after the action
+ */
+export class AssertionEvaluator {
+  constructor(private locator: ElementLocator) {}
+
+  async evaluate(
+    assertions: UIAssertion[],
+    selectors: SelectorStrategy[],
+    timeout: number,
+    substitute: (text: string) => string = (text) => text
+  ): Promise<AssertionResult[]> {
+    const results: AssertionResult[] = [];
+
+    for (let index = 0; index < assertions.length; index++) {
+      const assertion = assertions[index];
+
+      // Visual assertions need screenshot comparison and are not evaluated here
+      if (assertion.type === 'visual') continue;
+
+      const startTime = Date.now();
+      let result = this.check(assertion, index, selectors, substitute);
+
+      while (!result.passed && Date.now() - startTime < timeout) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        result = this.check(assertion, index, selectors, substitute);
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private check(
+    assertion: UIAssertion,
+    index: number,
+    selectors: SelectorStrategy[],
+    substitute: (text: string) => string
+  ): AssertionResult {
+    try {
+      switch (assertion.type) {
+        case 'text':
+          return this.checkText(assertion, index, selectors, substitute);
+        case 'visibility':
+          return this.checkVisibility(assertion, index, selectors);
+        case 'attribute':
+          return this.checkAttribute(assertion, index, selectors, substitute);
+        case 'count':
+          return this.checkCount(assertion, index, selectors);
+        default:
+          return {
+            assertionIndex: index,
+            passed: false,
+            expected: undefined,
+            actual: undefined,
+            message: `Unsupported assertion type: ${(assertion as UIAssertion).type}`,
+          };
+      }
+    } catch (error) {
+      return {
+        assertionIndex: index,
+        passed: false,
+        expected: undefined,
+        actual: undefined,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private checkText(
+    assertion: TextAssertion,
+    index: number,
+    selectors: SelectorStrategy[],
+    substitute: (text: string) => string
+  ): AssertionResult {
+    const expected = substitute(assertion.expected);
+    const element = this.locator.queryFirst(selectors);
+
+    if (!element) {
+      return { assertionIndex: index, passed: false, expected, actual: null, message: 'Element not found' };
+    }
+
+    const actual = this.getElementText(element);
+    const passed = this.compareText(actual, expected, assertion.comparison, assertion.caseSensitive ?? false);
+
+    return {
+      assertionIndex: index,
+      passed,
+      expected,
+      actual,
+      message: passed ? undefined : `Expected text to ${assertion.comparison} "${expected}", got "${actual}"`,
+    };
+  }
+
+  private checkVisibility(
+    assertion: VisibilityAssertion,
+    index: number,
+    selectors: SelectorStrategy[]
+  ): AssertionResult {
+    const element = this.locator.queryFirst(selectors);
+    const exists = element !== null;
+    const visible = element !== null && isVisible(element);
+
+    let actual: VisibilityAssertion['expected'];
+    let passed: boolean;
+
+    switch (assertion.expected) {
+      case 'visible':
+        actual = visible ? 'visible' : exists ? 'hidden' : 'notExists';
+        passed = visible;
+        break;
+      case 'hidden':
+        actual = visible ? 'visible' : 'hidden';
+        passed = !visible;
+        break;
+      case 'exists':
+        actual = exists ? 'exists' : 'notExists';
+        passed = exists;
+        break;
+      case 'notExists':
+        actual = exists ? 'exists' : 'notExists';
+        passed = !exists;
+        break;
+    }
+
+    return {
+      assertionIndex: index,
+      passed,
+      expected: assertion.expected,
+      actual,
+      message: passed ? undefined : `Expected element to be ${assertion.expected}, but it is ${actual}`,
+    };
+  }
+
+  private checkAttribute(
+    assertion: AttributeAssertion,
+    index: number,
+    selectors: SelectorStrategy[],
+    substitute: (text: string) => string
+  ): AssertionResult {
+    const expected = substitute(assertion.expected);
+    const element = this.locator.queryFirst(selectors);
+
+    if (!element) {
+      return { assertionIndex: index, passed: false, expected, actual: null, message: 'Element not found' };
+    }
+
+    const actual = element.getAttribute(assertion.attribute);
+    const passed = actual !== null && this.compareText(actual, expected, assertion.comparison, true);
+
+    return {
+      assertionIndex: index,
+      passed,
+      expected,
+      actual,
+      message: passed
+        ? undefined
+        : actual === null
+          ? `Attribute "${assertion.attribute}" is not present`
+          : `Expected ${assertion.attribute} to ${assertion.comparison} "${expected}", got "${actual}"`,
+    };
+  }
+
+  private checkCount(
+    assertion: CountAssertion,
+    index: number,
+    selectors: SelectorStrategy[]
+  ): AssertionResult {
+    const actual = this.locator.queryAllFirst(selectors).length;
+    const expected = assertion.expected;
+
+    let passed: boolean;
+    switch (assertion.comparison) {
+      case 'equals':
+        passed = actual === expected;
+        break;
+      case 'greaterThan':
+        passed = actual > expected;
+        break;
+      case 'lessThan':
+        passed = actual < expected;
+        break;
+      case 'atLeast':
+        passed = actual >= expected;
+        break;
+      case 'atMost':
+        passed = actual <= expected;
+        break;
+    }
+
+    return {
+      assertionIndex: index,
+      passed,
+      expected,
+      actual,
+      message: passed ? undefined : `Expected count ${assertion.comparison} ${expected}, got ${actual}`,
+    };
+  }
+
+  private compareText(
+    actual: string,
+    expected: string,
+    comparison: TextAssertion['comparison'],
+    caseSensitive: boolean
+  ): boolean {
+    if (comparison === 'matches') {
+      return new RegExp(expected, caseSensitive ? '' : 'i').test(actual);
+    }
+
+    const a = caseSensitive ? actual : actual.toLowerCase();
+    const e = caseSensitive ? expected : expected.toLowerCase();
+
+    switch (comparison) {
+      case 'equals':
+        return a === e;
+      case 'contains':
+        return a.includes(e);
+      case 'startsWith':
+        return a.startsWith(e);
+      case 'endsWith':
+        return a.endsWith(e);
+      default:
+        return false;
+    }
+  }
+
+  private getElementText(element: Element): string {
+    if (
+      element instanceof HTMLInputElement ||
+      element instanceof HTMLTextAreaElement ||
+      element instanceof HTMLSelectElement
+    ) {
+      return element.value;
+    }
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+}
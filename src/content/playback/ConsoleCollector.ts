@@ -0,0 +1,45 @@
+import type { LogEntry } from '@/types/result';
+import { CONSOLE_EVENT, ensureConsoleHook, parseConsoleEvent } from '../utils/consoleHook';
+
+// Entries kept per step; the first errors are usually the ones that matter
+const MAX_ENTRIES = 50;
+
+/**
+ * Collects the page's console errors and warnings, uncaught exceptions and
+ * unhandled rejections during playback. Whatever is logged between two steps
+ * is attached to the next one.
+ */
+export class ConsoleCollector {
+  private entries: LogEntry[] = [];
+  private collecting = false;
+
+  constructor() {
+    window.addEventListener(CONSOLE_EVENT, (event) => {
+      if (!this.collecting || this.entries.length >= MAX_ENTRIES) return;
+      const entry = parseConsoleEvent(event);
+      if (entry) this.entries.push(entry);
+    });
+  }
+
+  async start(): Promise<void> {
+    await ensureConsoleHook();
+    this.collecting = true;
+  }
+
+  stop(): void {
+    this.collecting = false;
+    this.entries = [];
+  }
+
+  /**
+   * Entries since the last call, and the first uncaught error among them if
+   * page errors fail the step
+   */
+  take(failOnPageError = false): { logs: LogEntry[]; error?: string } {
+    const logs = this.entries;
+    this.entries = [];
+
+    const uncaught = failOnPageError ? logs.find((entry) => entry.source && entry.source !== 'console') : undefined;
+    return { logs, error: uncaught ? `Page error: ${uncaught.message}` : undefined };
+  }
+}
@@ -0,0 +1,59 @@
+import type { DialogPolicy } from '@/types/test';
+import type { DialogInfo } from '@/types/result';
+import { DIALOG_EVENT, ensureDialogHook, parseDialogEvent, postDialogControl, type ReportedDialog } from '../utils/dialogHook';
+
+const DEFAULT_POLICY: DialogPolicy = { action: 'accept' };
+
+/**
+ * Answers native dialogs during playback so they don't block the page
+ * Dialog steps arm an answer for the next dialog; anything else gets the
+ * test's policy. Dialogs opened during a step are collected for its result.
+ */
+export class DialogHandler {
+  private dialogs: ReportedDialog[] = [];
+
+  constructor() {
+    window.addEventListener(DIALOG_EVENT, (event) => {
+      const dialog = parseDialogEvent(event);
+      if (dialog?.handled) this.dialogs.push(dialog);
+    });
+  }
+
+  async setPolicy(policy: DialogPolicy = DEFAULT_POLICY): Promise<void> {
+    await ensureDialogHook();
+    postDialogControl({ type: 'policy', policy });
+  }
+
+  arm(handler: DialogPolicy & { expectedMessage?: string }): void {
+    postDialogControl({ type: 'arm', handler });
+  }
+
+  /**
+   * Back to native dialogs once playback is over
+   */
+  reset(): void {
+    postDialogControl({ type: 'reset' });
+  }
+
+  /**
+   * Dialogs since the last call, and the first expected-message mismatch among them
+   */
+  take(): { dialogs: DialogInfo[]; error?: string } {
+    const taken = this.dialogs;
+    this.dialogs = [];
+
+    const mismatch = taken.find((d) => d.expectedMessage && !d.message.includes(d.expectedMessage));
+    return {
+      dialogs: taken.map(({ type, message, defaultValue, accepted, promptText }) => ({
+        type,
+        message,
+        defaultValue,
+        accepted,
+        promptText,
+      })),
+      error: mismatch
+        ? `Expected ${mismatch.type} message to contain "${mismatch.expectedMessage}", got "${mismatch.message}"`
+        : undefined,
+    };
+  }
+}
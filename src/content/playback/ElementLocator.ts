@@ -0,0 +1,118 @@
+import type { SelectorStrategy } from '@/types/test';
+import { querySelectorDeep, querySelectorAllDeep } from '../utils/shadowDom';
+
+/**
+ * Resolves SelectorStrategy entries to DOM elements
+ * Shared by playback, assertions and failure highlighting so every
+ * selector type is interpreted the same way. CSS-based selectors may
+ * pierce open shadow roots with `>>>`.
+ */
+export class ElementLocator {
+  /**
+   * Return the first element matching the selector, or null
+   */
+  query(selector: SelectorStrategy): Element | null {
+    switch (selector.type) {
+      case 'css':
+      case 'data-testid':
+      case 'data-cy':
+      case 'aria':
+        return querySelectorDeep(selector.value);
+      case 'xpath': {
+        const result = document.evaluate(
+          selector.value,
+          document,
+          null,
+          XPathResult.FIRST_ORDERED_NODE_TYPE,
+          null
+        );
+        return result.singleNodeValue as Element | null;
+      }
+      case 'text':
+        return this.findByText(selector.value);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Return every element matching the selector
+   */
+  queryAll(selector: SelectorStrategy): Element[] {
+    switch (selector.type) {
+      case 'css':
+      case 'data-testid':
+      case 'data-cy':
+      case 'aria':
+        return querySelectorAllDeep(selector.value);
+      case 'xpath': {
+        const result = document.evaluate(
+          selector.value,
+          document,
+          null,
+          XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+          null
+        );
+        const elements: Element[] = [];
+        for (let i = 0; i < result.snapshotLength; i++) {
+          const node = result.snapshotItem(i);
+          if (node instanceof Element) elements.push(node);
+        }
+        return elements;
+      }
+      case 'text':
+        return this.findAllByText(selector.value);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Try each selector in order and return the first match (no waiting)
+   */
+  queryFirst(selectors: SelectorStrategy[]): Element | null {
+    for (const selector of selectors) {
+      try {
+        const element = this.query(selector);
+        if (element) return element;
+      } catch {
+        // Invalid selector, try next
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Return all matches for the first selector that matches anything
+   */
+  queryAllFirst(selectors: SelectorStrategy[]): Element[] {
+    for (const selector of selectors) {
+      try {
+        const elements = this.queryAll(selector);
+        if (elements.length > 0) return elements;
+      } catch {
+        // Invalid selector, try next
+      }
+    }
+    return [];
+  }
+
+  private findByText(text: string): Element | null {
+    return this.findAllByText(text)[0] ?? null;
+  }
+
+  private findAllByText(text: string): Element[] {
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
+    const matches: Element[] = [];
+    let node: Node | null;
+
+    while ((node = walker.nextNode())) {
+      const element = node as Element;
+      if (element.textContent?.trim() === text) {
+        matches.push(element);
+      }
+    }
+
+    return matches;
+  }
+}
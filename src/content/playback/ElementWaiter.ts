@@ -0,0 +1,107 @@
+import type { SelectorStrategy, WaitConfig } from '@/types/test';
+import type { ElementLocator } from './ElementLocator';
+import type { NetworkMonitor } from './NetworkMonitor';
+import { isStable, isVisible } from '../utils/visibility';
+
+const POLL_INTERVAL = 100;
+
+/**
+ * Waits for an element to reach the state described by a WaitConfig
+ * Resolves with the element for visible/attached/stable, and with null for
+ * hidden/detached (the element is gone) or networkIdle without selectors
+ */
+export class ElementWaiter {
+  constructor(
+    private locator: ElementLocator,
+    private network: NetworkMonitor
+  ) {}
+
+  async waitFor(selectors: SelectorStrategy[], config: WaitConfig): Promise<Element | null> {
+    const pollInterval = config.pollInterval || POLL_INTERVAL;
+    const startTime = Date.now();
+    const remaining = () => Math.max(0, config.timeout - (Date.now() - startTime));
+
+    switch (config.strategy) {
+      case 'networkIdle':
+        await this.network.waitForIdle(config.timeout, pollInterval);
+        if (selectors.length === 0) return null;
+        return this.poll(selectors, remaining(), pollInterval, (el) => el && isVisible(el) ? el : undefined, 'visible');
+
+      case 'visible':
+        return this.poll(selectors, config.timeout, pollInterval, (el) => el && isVisible(el) ? el : undefined, 'visible');
+
+      case 'attached':
+        return this.poll(selectors, config.timeout, pollInterval, (el) => el ?? undefined, 'attached');
+
+      case 'hidden':
+        return this.poll(selectors, config.timeout, pollInterval, (el) => !el || !isVisible(el) ? null : undefined, 'hidden');
+
+      case 'detached':
+        return this.poll(selectors, config.timeout, pollInterval, (el) => el ? undefined : null, 'detached');
+
+      case 'stable':
+        return this.waitForStable(selectors, config.timeout, pollInterval);
+
+      default:
+        throw new Error(`Unknown wait strategy: ${(config as WaitConfig).strategy}`);
+    }
+  }
+
+  /**
+   * Poll until `check` returns something other than undefined
+   */
+  private async poll(
+    selectors: SelectorStrategy[],
+    timeout: number,
+    pollInterval: number,
+    check: (element: Element | null) => Element | null | undefined,
+    state: WaitConfig['strategy']
+  ): Promise<Element | null> {
+    const startTime = Date.now();
+
+    do {
+      const result = check(this.locator.queryFirst(selectors));
+      if (result !== undefined) return result;
+      await this.sleep(pollInterval);
+    } while (Date.now() - startTime < timeout);
+
+    throw new Error(this.timeoutMessage(selectors, state, timeout));
+  }
+
+  /**
+   * Wait until the element is visible and its bounding box is unchanged
+   * across two consecutive animation frames
+   */
+  private async waitForStable(
+    selectors: SelectorStrategy[],
+    timeout: number,
+    pollInterval: number
+  ): Promise<Element> {
+    const startTime = Date.now();
+
+    do {
+      const element = this.locator.queryFirst(selectors);
+      if (element && isVisible(element)) {
+        if ((await isStable(element)) && element.isConnected) {
+          return element;
+        }
+      } else {
+        await this.sleep(pollInterval);
+      }
+    } while (Date.now() - startTime < timeout);
+
+    throw new Error(this.timeoutMessage(selectors, 'stable', timeout));
+  }
+
+  private timeoutMessage(selectors: SelectorStrategy[], state: WaitConfig['strategy'], timeout: number): string {
+    const selectorList = selectors.map((s) => s.value).join(', ');
+    if (state === 'visible' || state === 'attached') {
+      return `Element not found with selectors: ${selectorList}`;
+    }
+    return `Element did not become ${state} within ${timeout}ms: ${selectorList}`;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,69 @@
+const IDLE_TIME = 500;
+const POLL_INTERVAL = 100;
+
+/**
+ * Tracks in-flight fetch/XHR requests of the page
+ * The counting hook runs in the page's MAIN world (installed by the background
+ * worker) and reports back via window.postMessage. Completed resource timing
+ * entries are also observed so activity before the hook was installed still counts.
+ */
+export class NetworkMonitor {
+  private inflight = 0;
+  private lastActivity = 0;
+  private installPromise: Promise<void> | null = null;
+
+  constructor() {
+    window.addEventListener('message', (event) => {
+      if (event.source !== window || event.data?.source !== 'qaerx-network') return;
+      this.inflight = event.data.inflight;
+      this.lastActivity = Date.now();
+    });
+
+    try {
+      new PerformanceObserver((list) => {
+        const hasRequest = list
+          .getEntries()
+          .some((entry) => {
+            const type = (entry as PerformanceResourceTiming).initiatorType;
+            return type === 'fetch' || type === 'xmlhttprequest';
+          });
+        if (hasRequest) this.lastActivity = Date.now();
+      }).observe({ type: 'resource', buffered: false });
+    } catch {
+      // PerformanceObserver unavailable - rely on the page hook only
+    }
+  }
+
+  /**
+   * Resolve once no requests have been in flight for `idleTime` ms
+   */
+  async waitForIdle(timeout: number, pollInterval = POLL_INTERVAL, idleTime = IDLE_TIME): Promise<void> {
+    await this.ensureInstalled();
+
+    const startTime = Date.now();
+    while (Date.now() - startTime < timeout) {
+      if (this.inflight === 0 && Date.now() - this.lastActivity >= idleTime) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+
+    throw new Error(`Network did not become idle within ${timeout}ms (${this.inflight} request(s) pending)`);
+  }
+
+  private ensureInstalled(): Promise<void> {
+    if (!this.installPromise) {
+      this.installPromise = chrome.runtime
+        .sendMessage({ type: 'page:install-network-hook' })
+        .then((response) => {
+          if (!response?.success) {
+            console.warn('[QAerx] Network hook not installed:', response?.error);
+          }
+        })
+        .catch((error) => {
+          console.warn('[QAerx] Network hook not installed:', error);
+        });
+    }
+    return this.installPromise;
+  }
+}
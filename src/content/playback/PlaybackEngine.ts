@@ -1,5 +1,18 @@
-import type { UIStep, UIAction, SelectorStrategy } from '@/types/test';
+import type { UIStep, UIAction, SelectorStrategy, WaitConfig, FixtureFile, DialogPolicy, ExtractAction } from '@/types/test';
+import type { AssertionResult, DialogInfo, ExtractedValue, LogEntry, SelectorHealingSuggestion } from '@/types/result';
 import type { AIValidationData } from '@/types/validation';
+import { ElementLocator } from './ElementLocator';
+import { AssertionEvaluator } from './AssertionEvaluator';
+import { ElementWaiter } from './ElementWaiter';
+import { NetworkMonitor } from './NetworkMonitor';
+import { SelectorHealer } from './SelectorHealer';
+import { DialogHandler } from './DialogHandler';
+import { ConsoleCollector } from './ConsoleCollector';
+import { AccessibilityAuditor } from './AccessibilityAuditor';
+import { ActionabilityChecker, type ActionabilityCheck } from './ActionabilityChecker';
+import { deepElementFromPoint, getDeepActiveElement } from '../utils/shadowDom';
+import { setCaptureTarget } from '../utils/pageCapture';
+import { isVisible } from '../utils/visibility';
 
 export interface StepExecutionContext {
   urlBefore: string;
@@ -15,6 +28,10 @@ export interface StepResult {
   error?: string;
   screenshot?: string;
   pageResponse?: string; // Captured page feedback (success/error messages)
+  assertionResults?: AssertionResult[]; // Deterministic assertion outcomes (expected vs actual)
+  dialogs?: DialogInfo[]; // Native dialogs opened during the step
+  extracted?: ExtractedValue; // Value an extract step stored
+  logs?: LogEntry[]; // Page console errors/warnings and uncaught errors since the previous step
   context?: StepExecutionContext; // Rich context for AI validation
   aiValidation?: AIValidationData; // AI validation result (added after execution)
 }
@@ -29,20 +46,51 @@ export interface PlaybackResult {
 interface PlaybackOptions {
   timeout: number;
   variables: Record<string, string>;
+  fixtures: FixtureFile[]; // Files for upload steps, resolved by the runner
+  dialogPolicy?: DialogPolicy;
+  failOnPageError?: boolean;
   onStepStart?: (step: UIStep, index: number) => void;
   onStepComplete?: (step: UIStep, result: StepResult) => void;
 }
 
 const DEFAULT_TIMEOUT = 30000;
+const ASSERTION_TIMEOUT = 5000;
+// Checks for actions that click or hover at the element's position
+const POINTER_CHECKS: ActionabilityCheck[] = ['visible', 'stable', 'enabled', 'receivesEvents'];
+const DRAG_MOVE_STEPS = 10;
+const CONDITION_POLL_INTERVAL = 100;
 
 export class PlaybackEngine {
   private shouldStop = false;
   private currentHighlight: HTMLElement | null = null;
+  private locator = new ElementLocator();
+  private assertionEvaluator = new AssertionEvaluator(this.locator);
+  private network = new NetworkMonitor();
+  private waiter = new ElementWaiter(this.locator, this.network);
+  private healer = new SelectorHealer();
+  private actionability = new ActionabilityChecker(this.locator);
+  private dialogs = new DialogHandler();
+  private pageConsole = new ConsoleCollector();
+  private auditor = new AccessibilityAuditor();
+  // Wait settings of the step being executed, used when locating its element
+  private stepWait: WaitConfig = { strategy: 'visible', timeout: DEFAULT_TIMEOUT };
+  private fixtures: FixtureFile[] = [];
 
   async execute(steps: UIStep[], options: Partial<PlaybackOptions> = {}): Promise<PlaybackResult> {
-    const { timeout = DEFAULT_TIMEOUT, variables = {}, onStepStart, onStepComplete } = options;
+    const {
+      timeout = DEFAULT_TIMEOUT,
+      variables = {},
+      fixtures = [],
+      dialogPolicy,
+      failOnPageError,
+      onStepStart,
+      onStepComplete,
+    } = options;
 
     this.shouldStop = false;
+    this.fixtures = fixtures;
+    await this.dialogs.setPolicy(dialogPolicy);
+    await this.pageConsole.start();
 
     const result: PlaybackResult = {
       status: 'passed',
@@ -75,6 +123,29 @@ export class PlaybackEngine {
       const stepResult = await this.executeStep(step, timeout, variables);
       stepResult.duration = Date.now() - stepStart;
 
+      const dialogs = this.dialogs.take();
+      if (dialogs.dialogs.length > 0) {
+        stepResult.dialogs = dialogs.dialogs;
+      }
+      if (dialogs.error && stepResult.status !== 'failed') {
+        stepResult.status = 'failed';
+        stepResult.error = dialogs.error;
+      }
+
+      const pageLogs = this.pageConsole.take(failOnPageError);
+      if (pageLogs.logs.length > 0) {
+        stepResult.logs = pageLogs.logs;
+      }
+      if (pageLogs.error && stepResult.status !== 'failed') {
+        stepResult.status = 'failed';
+        stepResult.error = pageLogs.error;
+      }
+
+      // Later steps of this playback read the value as {{variable}}
+      if (stepResult.extracted) {
+        variables[stepResult.extracted.variable] = stepResult.extracted.value;
+      }
+
       result.stepResults.push(stepResult);
       onStepComplete?.(step, stepResult);
 
@@ -99,20 +170,57 @@ export class PlaybackEngine {
   stop(): void {
     this.shouldStop = true;
     this.hideLiveHighlight(); // Clean up any active highlight
+    this.dialogs.reset();
+    this.pageConsole.stop();
+  }
+
+  /**
+   * Look for the element a step's broken selectors meant. Returns a local
+   * suggestion (if any) and a DOM snapshot the caller can hand to the AI.
+   */
+  suggestHealing(
+    selectors: SelectorStrategy[],
+    stepName?: string
+  ): { suggestion: SelectorHealingSuggestion | null; domSnapshot: string } {
+    return {
+      suggestion: this.healer.suggest(selectors, stepName),
+      domSnapshot: this.healer.snapshot(),
+    };
+  }
+
+  /**
+   * Element condition of an if/repeat block. Waits up to timeout for the
+   * element to reach the state; answers false rather than failing.
+   */
+  async checkElementState(selectors: SelectorStrategy[], state: 'visible' | 'hidden', timeout: number): Promise<boolean> {
+    const startTime = Date.now();
+    do {
+      const element = this.locator.queryFirst(selectors);
+      const visible = element !== null && isVisible(element);
+      if (visible === (state === 'visible')) return true;
+      await this.sleep(CONDITION_POLL_INTERVAL);
+    } while (Date.now() - startTime < timeout);
+    return false;
   }
 
   private async executeStep(
     step: UIStep,
-    timeout: number,
+    defaultTimeout: number,
     variables: Record<string, string>
   ): Promise<StepResult> {
     const action = this.substituteVariables(step.action, variables);
+    const timeout = step.waitConfig?.timeout || defaultTimeout;
+    this.stepWait = { strategy: 'visible', ...step.waitConfig, timeout };
 
     // Capture state before execution
     const urlBefore = window.location.href;
     const titleBefore = document.title;
 
     try {
+      if (this.stepWait.strategy === 'networkIdle') {
+        await this.network.waitForIdle(timeout, this.stepWait.pollInterval);
+      }
+
       switch (action.type) {
         case 'navigate':
           await this.navigate((action as { url: string }).url, timeout);
@@ -143,7 +251,10 @@ export class PlaybackEngine {
           break;
 
         case 'waitForElement':
-          await this.waitForElement(step.selectors, timeout);
+          // Assert steps without an explicit wait poll through their assertions instead
+          if (step.waitConfig || !step.assertions?.length) {
+            await this.waitForElement(step.selectors);
+          }
           break;
 
         case 'waitTime':
@@ -154,27 +265,150 @@ export class PlaybackEngine {
           await this.scroll((action as { x?: number; y?: number }).x || 0, (action as { x?: number; y?: number }).y || 0);
           break;
 
+        case 'hover':
+          await this.hover(step.selectors, timeout);
+          break;
+
+        case 'dialog':
+          // Nothing happens on the page until the next step opens the dialog
+          this.dialogs.arm({ action: action.action, promptText: action.promptText, expectedMessage: action.expectedMessage });
+          return { stepId: step.id, status: 'passed', duration: 0 };
+
+        case 'upload':
+          await this.upload(step.selectors, action.files, timeout);
+          break;
+
+        case 'drag':
+          await this.drag(step.selectors, action.targetSelectors, action.offset, timeout);
+          break;
+
+        case 'press':
+          await this.press(step.selectors, action.key, action.modifiers || [], timeout);
+          break;
+
+        case 'reload':
+          window.location.reload();
+          await this.waitForLoad(timeout);
+          break;
+
+        case 'goBack':
+          history.back();
+          await this.waitForLoad(timeout);
+          break;
+
+        case 'goForward':
+          history.forward();
+          await this.waitForLoad(timeout);
+          break;
+
+        case 'extract':
+          return {
+            stepId: step.id,
+            status: 'passed',
+            duration: 0,
+            extracted: { variable: action.variable, value: await this.extract(step.selectors, action, timeout) },
+            context: {
+              urlBefore,
+              urlAfter: window.location.href,
+              titleBefore,
+              titleAfter: document.title,
+            },
+          };
+
+        case 'screenshot': {
+          const screenshot = action.element
+            ? await this.captureElementScreenshot(step.selectors, timeout)
+            : await this.requestScreenshot({ fullPage: action.fullPage });
+          return {
+            stepId: step.id,
+            status: 'passed',
+            duration: 0,
+            screenshot,
+            context: {
+              urlBefore,
+              urlAfter: window.location.href,
+              titleBefore,
+              titleAfter: document.title,
+            },
+          };
+        }
+
+        case 'a11yAudit': {
+          // Without selectors the whole page is audited
+          const root = step.selectors.length > 0 ? await this.findElement(step.selectors, timeout, []) : null;
+          const assertionResults = this.auditor.audit(root, action);
+          const violations = assertionResults.filter((r) => !r.passed);
+          return {
+            stepId: step.id,
+            status: violations.length > 0 ? 'failed' : 'passed',
+            duration: 0,
+            error:
+              violations.length > 0
+                ? `Accessibility audit found ${violations.length} violation(s): ` +
+                  violations.slice(0, 3).map((r) => `[${r.rule}] ${r.message} (${r.selector})`).join('; ')
+                : undefined,
+            assertionResults,
+            context: {
+              urlBefore,
+              urlAfter: window.location.href,
+              titleBefore,
+              titleAfter: document.title,
+            },
+          };
+        }
+
         default:
-          throw new Error(`Unknown action type: ${action.type}`);
+          throw new Error(`Unknown action type: ${(action as UIAction).type}`);
       }
 
       // Wait a bit for page to update after action
       await this.sleep(500);
 
+      // Run deterministic assertions after the action
+      const assertionResults = step.assertions?.length
+        ? await this.assertionEvaluator.evaluate(
+            step.assertions,
+            step.selectors,
+            Math.min(timeout, ASSERTION_TIMEOUT),
+            (text) => this.substituteText(text, variables)
+          )
+        : undefined;
+      const failedAssertions = assertionResults?.filter((r) => !r.passed) ?? [];
+
       // Capture page response/feedback
-      const pageResponse = this.capturePageResponse(action.type);
+      const pageResponse = this.capturePageResponse(action.type, failedAssertions.length > 0);
 
       // Capture state after execution
       const urlAfter = window.location.href;
       const titleAfter = document.title;
 
-      // Return result with 'pending' status - AI validation will determine final pass/fail
+      if (failedAssertions.length > 0) {
+        return {
+          stepId: step.id,
+          status: 'failed',
+          duration: 0,
+          error: `Assertion failed: ${failedAssertions.map((r) => r.message).join('; ')}`,
+          pageResponse,
+          assertionResults,
+          context: {
+            urlBefore,
+            urlAfter,
+            titleBefore,
+            titleAfter,
+          },
+        };
+      }
+
+      // Steps with passing assertions are decided deterministically; the runner
+      // checks visual assertions against their baseline afterwards.
+      // Otherwise return 'pending' - AI validation will determine final pass/fail
       // This replaces the fragile `pageResponse.startsWith('Error:')` check
       return {
         stepId: step.id,
-        status: 'pending',  // Final status determined by AI validation in sidepanel
+        status: step.assertions?.length ? 'passed' : 'pending',
         duration: 0,
         pageResponse,
+        assertionResults,
         context: {
           urlBefore,
           urlAfter,
@@ -283,7 +517,7 @@ export class PlaybackEngine {
           const elements = document.querySelectorAll(selector);
           for (const el of elements) {
             const text = el.textContent?.trim();
-            if (text && text.length > 2 && text.length < 300 && this.isElementVisible(el)) {
+            if (text && text.length > 2 && text.length < 300 && isVisible(el)) {
               const lowerText = text.toLowerCase();
               // Check if it contains any error keyword
               if (errorKeywords.some(keyword => lowerText.includes(keyword))) {
@@ -303,7 +537,7 @@ export class PlaybackEngine {
         const allElements = document.querySelectorAll('p, span, div, li');
         for (const el of allElements) {
           const text = el.textContent?.trim();
-          if (text && text.length > 5 && text.length < 150 && this.isElementVisible(el)) {
+          if (text && text.length > 5 && text.length < 150 && isVisible(el)) {
             const lowerText = text.toLowerCase();
             // Strong error indicators
             if ((lowerText.includes('invalid') && (lowerText.includes('password') || lowerText.includes('email') || lowerText.includes('credentials'))) ||
@@ -322,7 +556,7 @@ export class PlaybackEngine {
             const elements = document.querySelectorAll(selector);
             for (const el of elements) {
               const text = el.textContent?.trim();
-              if (text && text.length > 2 && text.length < 300 && this.isElementVisible(el)) {
+              if (text && text.length > 2 && text.length < 300 && isVisible(el)) {
                 const lowerText = text.toLowerCase();
                 if (successKeywords.some(keyword => lowerText.includes(keyword))) {
                   return `Success: ${text.substring(0, 150)}`;
@@ -373,10 +607,12 @@ export class PlaybackEngine {
     }
   }
 
+  private substituteText(text: string, variables: Record<string, string>): string {
+    return text.replace(/\{\{(\w+)\}\}/g, (_, key) => variables[key] ?? `{{${key}}}`);
+  }
+
   private substituteVariables(action: UIAction, variables: Record<string, string>): UIAction {
-    const substitute = (text: string): string => {
-      return text.replace(/\{\{(\w+)\}\}/g, (_, key) => variables[key] ?? `{{${key}}}`);
-    };
+    const substitute = (text: string): string => this.substituteText(text, variables);
 
     const result = { ...action };
 
@@ -389,6 +625,17 @@ export class PlaybackEngine {
     if ('value' in result && typeof result.value === 'string') {
       result.value = substitute(result.value);
     }
+    if (result.type === 'dialog') {
+      if (result.promptText !== undefined) result.promptText = substitute(result.promptText);
+      if (result.expectedMessage !== undefined) result.expectedMessage = substitute(result.expectedMessage);
+    }
+    if (result.type === 'extract' && result.pattern) {
+      result.pattern = substitute(result.pattern);
+    }
+    if (result.type === 'upload') {
+      // A variable may hold several comma-separated fixture names
+      result.files = result.files.flatMap((name) => substitute(name).split(',')).map((name) => name.trim()).filter(Boolean);
+    }
 
     return result;
   }
@@ -460,79 +707,29 @@ export class PlaybackEngine {
     });
   }
 
-  private async findElement(selectors: SelectorStrategy[], timeout: number): Promise<Element> {
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < timeout) {
-      for (const selector of selectors) {
-        try {
-          let element: Element | null = null;
-
-          switch (selector.type) {
-            case 'css':
-            case 'data-testid':
-            case 'data-cy':
-            case 'aria':
-              element = document.querySelector(selector.value);
-              break;
-            case 'xpath':
-              const result = document.evaluate(
-                selector.value,
-                document,
-                null,
-                XPathResult.FIRST_ORDERED_NODE_TYPE,
-                null
-              );
-              element = result.singleNodeValue as Element;
-              break;
-            case 'text':
-              element = this.findByText(selector.value);
-              break;
-          }
-
-          if (element && this.isElementVisible(element)) {
-            return element;
-          }
-        } catch {
-          // Try next selector
-        }
-      }
-
-      await this.sleep(100);
-    }
-
-    throw new Error(`Element not found with selectors: ${selectors.map((s) => s.value).join(', ')}`);
-  }
-
-  private findByText(text: string): Element | null {
-    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-    let node: Node | null;
-
-    while ((node = walker.nextNode())) {
-      const element = node as Element;
-      if (element.textContent?.trim() === text) {
-        return element;
-      }
+  /**
+   * Locate the element an action operates on and wait until it passes the
+   * action's actionability checks. The 'attached' strategy opts out of the
+   * visibility/hit-test checks (acting on hidden elements); 'stable' is always
+   * checked for it.
+   */
+  private async findElement(
+    selectors: SelectorStrategy[],
+    timeout: number,
+    checks: ActionabilityCheck[] = ['visible']
+  ): Promise<Element> {
+    const { strategy, pollInterval } = this.stepWait;
+    let required = checks;
+    if (strategy === 'attached') {
+      required = checks.filter((c) => c !== 'visible' && c !== 'stable' && c !== 'receivesEvents');
+    } else if (strategy === 'stable' && !checks.includes('stable')) {
+      required = [...checks, 'stable'];
     }
-
-    return null;
-  }
-
-  private isElementVisible(element: Element): boolean {
-    const rect = element.getBoundingClientRect();
-    const style = window.getComputedStyle(element);
-
-    return (
-      rect.width > 0 &&
-      rect.height > 0 &&
-      style.visibility !== 'hidden' &&
-      style.display !== 'none' &&
-      style.opacity !== '0'
-    );
+    return this.actionability.waitForActionable(selectors, required, timeout, pollInterval);
   }
 
   private async click(selectors: SelectorStrategy[], timeout: number): Promise<void> {
-    const element = await this.findElement(selectors, timeout);
+    const element = await this.findElement(selectors, timeout, POINTER_CHECKS);
     this.scrollIntoView(element);
     this.showLiveHighlight(element);
     (element as HTMLElement).click();
@@ -541,7 +738,7 @@ export class PlaybackEngine {
   }
 
   private async dblclick(selectors: SelectorStrategy[], timeout: number): Promise<void> {
-    const element = await this.findElement(selectors, timeout);
+    const element = await this.findElement(selectors, timeout, POINTER_CHECKS);
     this.scrollIntoView(element);
     this.showLiveHighlight(element);
     element.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
@@ -550,7 +747,7 @@ export class PlaybackEngine {
   }
 
   private async type(selectors: SelectorStrategy[], text: string, timeout: number): Promise<void> {
-    const element = await this.findElement(selectors, timeout);
+    const element = await this.findElement(selectors, timeout, ['visible', 'editable']);
     this.scrollIntoView(element);
     this.showLiveHighlight(element);
 
@@ -574,7 +771,7 @@ export class PlaybackEngine {
   }
 
   private async select(selectors: SelectorStrategy[], value: string, timeout: number): Promise<void> {
-    const element = await this.findElement(selectors, timeout);
+    const element = await this.findElement(selectors, timeout, ['visible', 'enabled']);
     this.scrollIntoView(element);
     this.showLiveHighlight(element);
 
@@ -590,7 +787,7 @@ export class PlaybackEngine {
   }
 
   private async check(selectors: SelectorStrategy[], checked: boolean, timeout: number): Promise<void> {
-    const element = await this.findElement(selectors, timeout);
+    const element = await this.findElement(selectors, timeout, POINTER_CHECKS);
     this.scrollIntoView(element);
     this.showLiveHighlight(element);
 
@@ -606,8 +803,49 @@ export class PlaybackEngine {
     }
   }
 
-  private async waitForElement(selectors: SelectorStrategy[], timeout: number): Promise<void> {
-    await this.findElement(selectors, timeout);
+  /**
+   * Wait for the element to reach the step's wait strategy (visible by default)
+   */
+  private async waitForElement(selectors: SelectorStrategy[]): Promise<void> {
+    const targetSelectors = selectors.filter((s) => s.value.trim());
+    if (targetSelectors.length === 0 && this.stepWait.strategy !== 'networkIdle') {
+      throw new Error('Wait step has no selector');
+    }
+    // networkIdle was already awaited before the action
+    const strategy = this.stepWait.strategy === 'networkIdle' ? 'visible' : this.stepWait.strategy;
+    if (targetSelectors.length > 0) {
+      await this.waiter.waitFor(targetSelectors, { ...this.stepWait, strategy });
+    }
+  }
+
+  /**
+   * Read the step's value from the element or the page URL, narrowed by the step's pattern
+   */
+  private async extract(selectors: SelectorStrategy[], action: ExtractAction, timeout: number): Promise<string> {
+    let value: string;
+    if (action.source === 'url') {
+      value = window.location[action.urlPart || 'href'];
+    } else {
+      // Hidden elements (e.g. inputs holding generated ids) can be read too
+      const element = await this.findElement(selectors, timeout, []);
+      if (action.source === 'attribute') {
+        if (!action.attribute) throw new Error('Extract step has no attribute name');
+        const attribute = element.getAttribute(action.attribute);
+        if (attribute === null) throw new Error(`Element has no "${action.attribute}" attribute`);
+        value = attribute;
+      } else if (action.source === 'value') {
+        value = (element as HTMLInputElement).value ?? '';
+      } else {
+        value = ((element as HTMLElement).innerText ?? element.textContent ?? '').trim();
+      }
+    }
+
+    if (!action.pattern) return value;
+    const match = value.match(new RegExp(action.pattern));
+    if (!match) {
+      throw new Error(`Pattern /${action.pattern}/ did not match "${value.slice(0, 100)}"`);
+    }
+    return match[1] ?? match[0];
   }
 
   private async waitTime(duration: number): Promise<void> {
@@ -618,6 +856,264 @@ export class PlaybackEngine {
     window.scrollTo(x, y);
   }
 
+  private async hover(selectors: SelectorStrategy[], timeout: number): Promise<void> {
+    const element = await this.findElement(selectors, timeout, ['visible', 'stable', 'receivesEvents']);
+    this.scrollIntoView(element);
+    this.showLiveHighlight(element);
+
+    const rect = element.getBoundingClientRect();
+    const init: MouseEventInit = {
+      bubbles: true,
+      cancelable: true,
+      clientX: rect.left + rect.width / 2,
+      clientY: rect.top + rect.height / 2,
+    };
+
+    element.dispatchEvent(new PointerEvent('pointerover', init));
+    element.dispatchEvent(new PointerEvent('pointerenter', { ...init, bubbles: false }));
+    element.dispatchEvent(new MouseEvent('mouseover', init));
+    element.dispatchEvent(new MouseEvent('mouseenter', { ...init, bubbles: false }));
+    element.dispatchEvent(new PointerEvent('pointermove', init));
+    element.dispatchEvent(new MouseEvent('mousemove', init));
+
+    await this.sleep(300);
+    this.hideLiveHighlight();
+  }
+
+  /**
+   * Set the files of an <input type="file"> from the test's fixtures, the way
+   * a user picking them in the file chooser would
+   */
+  private async upload(selectors: SelectorStrategy[], names: string[], timeout: number): Promise<void> {
+    const element = await this.findElement(selectors, timeout, ['enabled']);
+    if (!(element instanceof HTMLInputElement) || element.type !== 'file') {
+      throw new Error('Element is not a file input');
+    }
+    if (names.length > 1 && !element.multiple) {
+      throw new Error(`File input accepts a single file, got ${names.length}`);
+    }
+
+    const dataTransfer = new DataTransfer();
+    for (const name of names) {
+      const fixture = this.fixtures.find((f) => f.name === name);
+      if (!fixture) throw new Error(`Fixture not found: ${name}`);
+      dataTransfer.items.add(this.toFile(fixture));
+    }
+
+    element.files = dataTransfer.files;
+    element.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+
+  private toFile(fixture: FixtureFile): File {
+    const binary = atob(fixture.data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new File([bytes], fixture.name, { type: fixture.mimeType });
+  }
+
+  /**
+   * Drag the step's element onto the target element, or by a pixel offset.
+   * Sources that are HTML5-draggable get the dragstart/dragover/drop sequence
+   * with a shared DataTransfer; everything else gets pointer and mouse events
+   * moved in steps, as pointer-based drag libraries expect.
+   */
+  private async drag(
+    selectors: SelectorStrategy[],
+    targetSelectors: SelectorStrategy[] | undefined,
+    offset: { x: number; y: number } | undefined,
+    timeout: number
+  ): Promise<void> {
+    const source = await this.findElement(selectors, timeout, POINTER_CHECKS);
+    this.scrollIntoView(source);
+    this.showLiveHighlight(source);
+
+    const sourceRect = source.getBoundingClientRect();
+    const start = { x: sourceRect.left + sourceRect.width / 2, y: sourceRect.top + sourceRect.height / 2 };
+
+    let target: Element | null = null;
+    let end: { x: number; y: number };
+    if (targetSelectors?.length) {
+      target = await this.findElement(targetSelectors, timeout, ['visible']);
+      const targetRect = target.getBoundingClientRect();
+      end = { x: targetRect.left + targetRect.width / 2, y: targetRect.top + targetRect.height / 2 };
+    } else if (offset) {
+      end = { x: start.x + offset.x, y: start.y + offset.y };
+    } else {
+      this.hideLiveHighlight();
+      throw new Error('Drag step has no target selector or offset');
+    }
+
+    const draggable = source.closest('[draggable="true"]');
+    if (draggable) {
+      await this.dragHtml5(draggable, target ?? deepElementFromPoint(end.x, end.y), start, end);
+    } else {
+      await this.dragPointer(source, start, end);
+    }
+
+    await this.sleep(100);
+    this.hideLiveHighlight();
+  }
+
+  private async dragHtml5(
+    source: Element,
+    target: Element | null,
+    start: { x: number; y: number },
+    end: { x: number; y: number }
+  ): Promise<void> {
+    const dataTransfer = new DataTransfer();
+    const init = (point: { x: number; y: number }): DragEventInit => ({
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      clientX: point.x,
+      clientY: point.y,
+      dataTransfer,
+    });
+
+    source.dispatchEvent(new DragEvent('dragstart', init(start)));
+    await this.sleep(50);
+
+    let dropped = false;
+    if (target) {
+      target.dispatchEvent(new DragEvent('dragenter', init(end)));
+      // Drop zones opt in by canceling dragover
+      const accepted = !target.dispatchEvent(new DragEvent('dragover', init(end)));
+      if (accepted) {
+        target.dispatchEvent(new DragEvent('drop', init(end)));
+        dropped = true;
+      } else {
+        target.dispatchEvent(new DragEvent('dragleave', init(end)));
+      }
+    }
+
+    if (!dropped) dataTransfer.dropEffect = 'none';
+    source.dispatchEvent(new DragEvent('dragend', init(end)));
+  }
+
+  private async dragPointer(source: Element, start: { x: number; y: number }, end: { x: number; y: number }): Promise<void> {
+    const init = (point: { x: number; y: number }, buttons: number): PointerEventInit => ({
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      clientX: point.x,
+      clientY: point.y,
+      button: 0,
+      buttons,
+      pointerId: 1,
+      pointerType: 'mouse',
+      isPrimary: true,
+    });
+
+    source.dispatchEvent(new PointerEvent('pointerdown', init(start, 1)));
+    source.dispatchEvent(new MouseEvent('mousedown', init(start, 1)));
+
+    // Libraries start dragging only after a few moves past their threshold
+    for (let i = 1; i <= DRAG_MOVE_STEPS; i++) {
+      const point = {
+        x: start.x + ((end.x - start.x) * i) / DRAG_MOVE_STEPS,
+        y: start.y + ((end.y - start.y) * i) / DRAG_MOVE_STEPS,
+      };
+      const over = deepElementFromPoint(point.x, point.y) ?? source;
+      over.dispatchEvent(new PointerEvent('pointermove', init(point, 1)));
+      over.dispatchEvent(new MouseEvent('mousemove', init(point, 1)));
+      await this.sleep(20);
+    }
+
+    const release = deepElementFromPoint(end.x, end.y) ?? source;
+    release.dispatchEvent(new PointerEvent('pointerup', init(end, 0)));
+    release.dispatchEvent(new MouseEvent('mouseup', init(end, 0)));
+  }
+
+  /**
+   * Press a key (with optional modifiers) on the step's element, or on the
+   * currently focused element when the step has no selectors.
+   * Synthetic key events don't trigger browser defaults, so the common ones
+   * (form submit on Enter, focus move on Tab, Backspace editing) are applied manually.
+   */
+  private async press(
+    selectors: SelectorStrategy[],
+    key: string,
+    modifiers: string[],
+    timeout: number
+  ): Promise<void> {
+    let target: Element = getDeepActiveElement() ?? document.body;
+    const targetSelectors = selectors.filter((s) => s.value.trim());
+
+    if (targetSelectors.length > 0) {
+      target = await this.findElement(targetSelectors, timeout);
+      this.showLiveHighlight(target);
+      (target as HTMLElement).focus?.();
+    }
+
+    const init: KeyboardEventInit = {
+      key,
+      code: this.getKeyCode(key),
+      bubbles: true,
+      cancelable: true,
+      ctrlKey: modifiers.includes('Ctrl'),
+      shiftKey: modifiers.includes('Shift'),
+      altKey: modifiers.includes('Alt'),
+      metaKey: modifiers.includes('Meta'),
+    };
+
+    const notCanceled = target.dispatchEvent(new KeyboardEvent('keydown', init));
+    if (key === 'Enter' || key.length === 1) {
+      target.dispatchEvent(new KeyboardEvent('keypress', init));
+    }
+    if (notCanceled) {
+      this.applyKeyDefault(target, key, modifiers);
+    }
+    target.dispatchEvent(new KeyboardEvent('keyup', init));
+
+    await this.sleep(100);
+    this.hideLiveHighlight();
+  }
+
+  private applyKeyDefault(target: Element, key: string, modifiers: string[]): void {
+    switch (key) {
+      case 'Enter':
+        if (target instanceof HTMLInputElement && target.form) {
+          target.form.requestSubmit();
+        } else if (target instanceof HTMLButtonElement || target instanceof HTMLAnchorElement) {
+          target.click();
+        }
+        break;
+
+      case 'Tab':
+        this.moveFocus(target, modifiers.includes('Shift') ? -1 : 1);
+        break;
+
+      case 'Backspace':
+        if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+          target.value = target.value.slice(0, -1);
+          target.dispatchEvent(new Event('input', { bubbles: true }));
+        }
+        break;
+    }
+  }
+
+  private moveFocus(from: Element, direction: 1 | -1): void {
+    const focusable = Array.from(
+      document.querySelectorAll<HTMLElement>(
+        'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]'
+      )
+    ).filter((el) => !(el as HTMLInputElement).disabled && isVisible(el));
+
+    const index = focusable.indexOf(from as HTMLElement);
+    const next = focusable[(index + direction + focusable.length) % focusable.length];
+    next?.focus();
+  }
+
+  private getKeyCode(key: string): string {
+    if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+    if (/^[0-9]$/.test(key)) return `Digit${key}`;
+    if (key === ' ') return 'Space';
+    return key;
+  }
+
   private scrollIntoView(element: Element): void {
     element.scrollIntoView({ behavior: 'smooth', block: 'center' });
   }
@@ -668,39 +1164,7 @@ export class PlaybackEngine {
    */
   private tryFindFailedElement(selectors: SelectorStrategy[]): Element | null {
     if (!selectors || selectors.length === 0) return null;
-
-    for (const selector of selectors) {
-      try {
-        let element: Element | null = null;
-
-        switch (selector.type) {
-          case 'css':
-          case 'data-testid':
-          case 'data-cy':
-          case 'aria':
-            element = document.querySelector(selector.value);
-            break;
-          case 'xpath':
-            const result = document.evaluate(
-              selector.value,
-              document,
-              null,
-              XPathResult.FIRST_ORDERED_NODE_TYPE,
-              null
-            );
-            element = result.singleNodeValue as Element;
-            break;
-        }
-
-        if (element) {
-          return element;
-        }
-      } catch {
-        // Continue to next selector
-      }
-    }
-
-    return null;
+    return this.locator.queryFirst(selectors);
   }
 
   /**
@@ -735,22 +1199,43 @@ export class PlaybackEngine {
     try {
       // Small delay to ensure highlight is rendered
       await this.sleep(100);
+      return await this.requestScreenshot();
+    } catch (error) {
+      console.warn('[PlaybackEngine] Failed to capture screenshot:', error);
+      return undefined;
+    }
+  }
 
-      // Request screenshot from background script
-      const response = await chrome.runtime.sendMessage({
-        type: 'command:capture-screenshot',
-      });
+  /**
+   * Screenshot of the step's element; the background scrolls the page when the
+   * element is taller than the viewport
+   */
+  private async captureElementScreenshot(selectors: SelectorStrategy[], timeout: number): Promise<string> {
+    // The background measures and scrolls the top frame only
+    if (window !== window.top) {
+      throw new Error('Element screenshots only support elements in the top frame');
+    }
 
-      if (response.success && response.screenshot) {
-        return response.screenshot;
-      }
+    const element = await this.findElement(selectors, timeout);
+    const rect = element.getBoundingClientRect();
+    setCaptureTarget(element);
+    try {
+      return await this.requestScreenshot({
+        clip: { x: rect.left + window.scrollX, y: rect.top + window.scrollY, width: rect.width, height: rect.height },
+      });
+    } finally {
+      setCaptureTarget(null);
+    }
+  }
 
-      console.warn('[PlaybackEngine] Screenshot capture failed:', response.error);
-      return undefined;
-    } catch (error) {
-      console.warn('[PlaybackEngine] Failed to request screenshot:', error);
-      return undefined;
+  private async requestScreenshot(
+    options: { fullPage?: boolean; clip?: { x: number; y: number; width: number; height: number } } = {}
+  ): Promise<string> {
+    const response = await chrome.runtime.sendMessage({ type: 'command:capture-screenshot', ...options });
+    if (!response?.success || !response.screenshot) {
+      throw new Error(`Screenshot capture failed${response?.error ? `: ${response.error}` : ''}`);
     }
+    return response.screenshot;
   }
 }
 
@@ -0,0 +1,207 @@
+import type { SelectorStrategy } from '@/types/test';
+import type { SelectorHealingSuggestion } from '@/types/result';
+import { SelectorGenerator } from '../recorder/SelectorGenerator';
+import { isShadowSelector } from '../utils/shadowDom';
+import { isVisible } from '../utils/visibility';
+
+const CANDIDATE_SELECTOR = 'a, button, input, select, textarea, label, summary, [role], [tabindex], [data-testid], [data-cy], [aria-label]';
+const MIN_SCORE = 0.5;
+const MAX_SNAPSHOT_ELEMENTS = 200;
+const MAX_SNAPSHOT_TEXT = 60;
+
+/**
+ * What the broken selectors tell us about the element they used to match
+ */
+interface ElementFingerprint {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: Map<string, string>;
+  text?: string;
+}
+
+/**
+ * Local (non-AI) selector healing
+ * Extracts a fingerprint of the intended element from the selectors that no
+ * longer match, scores the page's interactive elements against it by string
+ * similarity and generates fresh selectors for the best match.
+ */
+export class SelectorHealer {
+  private generator = new SelectorGenerator();
+
+  suggest(selectors: SelectorStrategy[], stepName?: string): SelectorHealingSuggestion | null {
+    if (selectors.length === 0) return null;
+
+    const fingerprint = this.fingerprint(selectors, stepName);
+    const candidates = this.getCandidates(fingerprint);
+
+    let best: { element: Element; score: number } | null = null;
+    for (const element of candidates) {
+      if (!isVisible(element)) continue;
+      const score = this.score(element, fingerprint);
+      if (score > (best?.score ?? 0)) {
+        best = { element, score };
+      }
+    }
+
+    if (!best || best.score < MIN_SCORE) return null;
+
+    const suggestedSelectors = this.generator
+      .generate(best.element)
+      .map((s) => ({ ...s, confidence: Math.min(s.confidence, best!.score) }));
+    if (suggestedSelectors.length === 0) return null;
+
+    return {
+      originalSelector: selectors[0],
+      suggestedSelectors,
+      confidence: best.score,
+    };
+  }
+
+  /**
+   * Compact list of the page's interactive elements, for AI healing
+   */
+  snapshot(): string {
+    return Array.from(document.querySelectorAll(CANDIDATE_SELECTOR))
+      .filter((el) => isVisible(el))
+      .slice(0, MAX_SNAPSHOT_ELEMENTS)
+      .map((el) => {
+        const attributes = Array.from(el.attributes)
+          .filter((attr) => attr.name !== 'style' && !attr.name.startsWith('on'))
+          .map((attr) => `${attr.name}="${attr.value.substring(0, MAX_SNAPSHOT_TEXT)}"`)
+          .join(' ');
+        const tag = el.tagName.toLowerCase();
+        const text = (el.textContent || '').trim().replace(/\s+/g, ' ').substring(0, MAX_SNAPSHOT_TEXT);
+        return `<${tag}${attributes ? ' ' + attributes : ''}>${text}</${tag}>`;
+      })
+      .join('\n');
+  }
+
+  private fingerprint(selectors: SelectorStrategy[], stepName?: string): ElementFingerprint {
+    const fingerprint: ElementFingerprint = { classes: [], attributes: new Map() };
+
+    for (const selector of selectors) {
+      if (selector.type === 'text') {
+        fingerprint.text ??= selector.value;
+        continue;
+      }
+
+      if (selector.type === 'xpath') {
+        for (const [, name, value] of selector.value.matchAll(/@([\w-]+)\s*=\s*["']([^"']+)["']/g)) {
+          this.addAttribute(fingerprint, name, value);
+        }
+        const text = selector.value.match(/text\(\)\s*,?\s*=?\s*["']([^"']+)["']/);
+        if (text) fingerprint.text ??= text[1];
+        continue;
+      }
+
+      // CSS-based: only the innermost compound describes the element itself
+      const value = isShadowSelector(selector.value) ? selector.value.split('>>>').pop()!.trim() : selector.value;
+      const compound = value.split(/\s*[>+~]\s*|\s+(?![^[]*\])/).pop() || value;
+
+      const tag = compound.match(/^[a-z][\w-]*/i);
+      if (tag) fingerprint.tag ??= tag[0].toLowerCase();
+
+      for (const [, name, attrValue] of compound.matchAll(/\[([\w-]+)\s*[~|^$*]?=\s*["']?([^"'\]]+)["']?\]/g)) {
+        this.addAttribute(fingerprint, name, attrValue);
+      }
+
+      const withoutAttributes = compound.replace(/\[[^\]]*\]/g, '');
+      const id = withoutAttributes.match(/#((?:\\.|[\w-])+)/);
+      if (id) fingerprint.id ??= id[1].replace(/\\/g, '');
+
+      for (const [, className] of withoutAttributes.matchAll(/\.((?:\\.|[\w-])+)/g)) {
+        fingerprint.classes.push(className.replace(/\\/g, ''));
+      }
+    }
+
+    // Recorded step names quote the element text, e.g. Click "Sign in"
+    if (!fingerprint.text && stepName) {
+      const quoted = stepName.match(/"([^"]+)"/g);
+      if (quoted) fingerprint.text = quoted[quoted.length - 1].slice(1, -1).replace(/\.\.\.$/, '');
+    }
+
+    return fingerprint;
+  }
+
+  private addAttribute(fingerprint: ElementFingerprint, name: string, value: string): void {
+    if (name === 'id') {
+      fingerprint.id ??= value;
+    } else if (name === 'class') {
+      fingerprint.classes.push(...value.split(/\s+/).filter(Boolean));
+    } else if (!fingerprint.attributes.has(name)) {
+      fingerprint.attributes.set(name, value);
+    }
+  }
+
+  private getCandidates(fingerprint: ElementFingerprint): Element[] {
+    const candidates = new Set(document.querySelectorAll(CANDIDATE_SELECTOR));
+    if (fingerprint.tag) {
+      document.querySelectorAll(fingerprint.tag).forEach((el) => candidates.add(el));
+    }
+    return Array.from(candidates);
+  }
+
+  /**
+   * Weighted similarity between an element and the fingerprint, 0-1
+   */
+  private score(element: Element, fingerprint: ElementFingerprint): number {
+    let total = 0;
+    let weight = 0;
+
+    const add = (similarity: number, w: number) => {
+      total += similarity * w;
+      weight += w;
+    };
+
+    if (fingerprint.tag) {
+      add(element.tagName.toLowerCase() === fingerprint.tag ? 1 : 0, 1);
+    }
+    if (fingerprint.id) {
+      add(similarity(element.id, fingerprint.id), 3);
+    }
+    for (const [name, value] of fingerprint.attributes) {
+      add(similarity(element.getAttribute(name) || '', value), 3);
+    }
+    if (fingerprint.classes.length > 0) {
+      const classes = Array.from(element.classList);
+      const matched = fingerprint.classes.map((c) => Math.max(0, ...classes.map((own) => similarity(own, c))));
+      add(matched.reduce((sum, s) => sum + s, 0) / fingerprint.classes.length, 2);
+    }
+    if (fingerprint.text) {
+      const text = (element.textContent || (element as HTMLInputElement).value || '').trim();
+      add(similarity(text, fingerprint.text), 3);
+    }
+
+    return weight > 0 ? total / weight : 0;
+  }
+}
+
+/**
+ * Dice coefficient over character bigrams, case-insensitive
+ */
+function similarity(a: string, b: string): number {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) {
+    const bigram = x.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const bigram = y.substring(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (x.length + y.length - 2);
+}
@@ -20,9 +20,29 @@ export class ActionFilter {
     // 4. Ignore events on extension UI elements
     filtered = filtered.filter((e) => !this.isExtensionElement(e.target));
 
+    // 5. Dialog steps arm the answer, so they go before the action that opened the dialog
+    filtered = this.moveDialogsBeforeTrigger(filtered);
+
     return filtered;
   }
 
+  private moveDialogsBeforeTrigger(events: CapturedEvent[]): CapturedEvent[] {
+    const result: CapturedEvent[] = [];
+    let trigger = -1;
+
+    for (const event of events) {
+      if (event.type === 'dialog' && trigger >= 0) {
+        result.splice(trigger, 0, event);
+        trigger++;
+      } else {
+        if (event.type !== 'dialog') trigger = result.length;
+        result.push(event);
+      }
+    }
+
+    return result;
+  }
+
   private dedupeScrolls(events: CapturedEvent[]): CapturedEvent[] {
     const result: CapturedEvent[] = [];
     let lastScroll: CapturedEvent | null = null;
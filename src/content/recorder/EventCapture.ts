@@ -1,23 +1,53 @@
+import { getFrameBridge } from '../frames/FrameBridge';
+import { deepElementFromPoint, getComposedTarget } from '../utils/shadowDom';
+import { DIALOG_EVENT, ensureDialogHook, parseDialogEvent } from '../utils/dialogHook';
+import type { DialogInfo } from '@/types/result';
+
+// Pointer movement (px) between down and up before a press counts as a drag
+const DRAG_THRESHOLD = 5;
+// Window after a pointer drag in which the trailing click is ignored
+const CLICK_SUPPRESSION_MS = 300;
+
 export interface CapturedEvent {
-  type: 'click' | 'dblclick' | 'input' | 'change' | 'scroll' | 'keydown' | 'focus' | 'blur';
+  type: 'click' | 'dblclick' | 'input' | 'change' | 'scroll' | 'keydown' | 'focus' | 'blur' | 'drag' | 'dialog';
   timestamp: number;
   target: Element;
   value?: string;
   checked?: boolean;
+  files?: string[];
   button?: 'left' | 'right' | 'middle';
   key?: string;
   modifiers?: string[];
   scrollX?: number;
   scrollY?: number;
+  dropTarget?: Element;
+  offsetX?: number;
+  offsetY?: number;
+  dialog?: DialogInfo;
   frameSelector?: string;
 }
 
+/**
+ * Where a drag started; html5 drags end with drop/dragend, pointer drags with pointerup
+ */
+interface DragStart {
+  source: Element;
+  x: number;
+  y: number;
+  html5: boolean;
+}
+
 export type EventHandler = (event: CapturedEvent) => void;
 
 export class EventCapture {
   private handler: EventHandler;
   private isAttached = false;
   private boundHandlers: Map<string, EventListener> = new Map();
+  // 'change' is not composed, so it never leaves a shadow root; listen on each root we see
+  private shadowRoots: Set<ShadowRoot> = new Set();
+  private dragStart: DragStart | null = null;
+  private suppressClickUntil = 0;
+  private dialogListener: EventListener = (e) => this.captureDialog(e);
 
   constructor(handler: EventHandler) {
     this.handler = handler;
@@ -26,7 +56,19 @@ export class EventCapture {
   attach(): void {
     if (this.isAttached) return;
 
-    const events = ['click', 'dblclick', 'input', 'change', 'keydown', 'scroll'];
+    const events = [
+      'click',
+      'dblclick',
+      'input',
+      'change',
+      'keydown',
+      'scroll',
+      'pointerdown',
+      'pointerup',
+      'dragstart',
+      'drop',
+      'dragend',
+    ];
     console.log('[QAerx EventCapture] Attaching event listeners for:', events);
 
     for (const eventType of events) {
@@ -35,6 +77,10 @@ export class EventCapture {
       document.addEventListener(eventType, boundHandler, { capture: true, passive: true });
     }
 
+    // Native dialogs are reported by the page's MAIN-world hook
+    window.addEventListener(DIALOG_EVENT, this.dialogListener);
+    ensureDialogHook();
+
     this.isAttached = true;
     console.log('[QAerx EventCapture] Event listeners attached successfully');
   }
@@ -45,13 +91,23 @@ export class EventCapture {
     for (const [eventType, handler] of this.boundHandlers) {
       document.removeEventListener(eventType, handler, { capture: true });
     }
+    const changeHandler = this.boundHandlers.get('change');
+    if (changeHandler) {
+      for (const root of this.shadowRoots) {
+        root.removeEventListener('change', changeHandler, { capture: true });
+      }
+    }
+    window.removeEventListener(DIALOG_EVENT, this.dialogListener);
+    this.shadowRoots.clear();
     this.boundHandlers.clear();
+    this.dragStart = null;
     this.isAttached = false;
   }
 
   private createHandler(eventType: string): EventListener {
     return (e: Event) => {
       console.log(`[QAerx EventCapture] Event detected: ${eventType}`, e.target);
+      this.observeShadowRoots(e);
       const captured = this.captureEvent(eventType, e);
       if (captured) {
         console.log(`[QAerx EventCapture] Event captured:`, captured.type, captured.target);
@@ -62,9 +118,22 @@ export class EventCapture {
     };
   }
 
+  private observeShadowRoots(e: Event): void {
+    const changeHandler = this.boundHandlers.get('change');
+    if (!changeHandler) return;
+
+    for (const node of e.composedPath()) {
+      if (node instanceof ShadowRoot && !this.shadowRoots.has(node)) {
+        this.shadowRoots.add(node);
+        node.addEventListener('change', changeHandler, { capture: true, passive: true });
+      }
+    }
+  }
+
   private captureEvent(type: string, e: Event): CapturedEvent | null {
-    const target = e.target as Element;
-    if (!target || !(target instanceof Element)) return null;
+    // Events from inside shadow roots are retargeted to the host; use the real target
+    const target = getComposedTarget(e);
+    if (!target) return null;
 
     // Skip if target is part of extension UI
     if (target.closest('[data-qaerx-extension]')) return null;
@@ -72,12 +141,19 @@ export class EventCapture {
     const base: Partial<CapturedEvent> = {
       timestamp: Date.now(),
       target,
-      frameSelector: this.getFrameSelector(target),
+      frameSelector: this.getFrameSelector(),
     };
 
     switch (type) {
       case 'click':
       case 'dblclick': {
+        // The click that ends a pointer drag is part of the drag
+        if (type === 'click' && Date.now() < this.suppressClickUntil) {
+          this.suppressClickUntil = 0;
+          return null;
+        }
+        // Opening the file chooser isn't replayable; the upload is recorded from 'change'
+        if (this.isFileInput(target)) return null;
         const mouseEvent = e as MouseEvent;
         return {
           ...base,
@@ -90,7 +166,7 @@ export class EventCapture {
 
       case 'input': {
         const inputTarget = target as HTMLInputElement | HTMLTextAreaElement;
-        if (!('value' in inputTarget)) return null;
+        if (!('value' in inputTarget) || this.isFileInput(target)) return null;
         return {
           ...base,
           type: 'input',
@@ -111,6 +187,16 @@ export class EventCapture {
             value: (changeTarget as HTMLSelectElement).value,
           };
         }
+        if (this.isFileInput(changeTarget)) {
+          // Only the names are recorded; the files themselves are attached to the test as fixtures
+          return {
+            ...base,
+            type: 'change',
+            target,
+            timestamp: base.timestamp!,
+            files: Array.from((changeTarget as HTMLInputElement).files ?? []).map((file) => file.name),
+          };
+        }
         if (changeTarget.type === 'checkbox' || changeTarget.type === 'radio') {
           return {
             ...base,
@@ -150,11 +236,130 @@ export class EventCapture {
         };
       }
 
+      case 'pointerdown': {
+        const pointerEvent = e as PointerEvent;
+        this.dragStart =
+          pointerEvent.button === 0 && !this.isTextEntry(target)
+            ? { source: target, x: pointerEvent.clientX, y: pointerEvent.clientY, html5: false }
+            : null;
+        return null;
+      }
+
+      case 'pointerup': {
+        const start = this.dragStart;
+        if (!start || start.html5) return null;
+        this.dragStart = null;
+
+        const pointerEvent = e as PointerEvent;
+        const dx = pointerEvent.clientX - start.x;
+        const dy = pointerEvent.clientY - start.y;
+        if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return null;
+        // Dragging across text selects it rather than moving anything
+        if (window.getSelection()?.toString()) return null;
+
+        this.suppressClickUntil = Date.now() + CLICK_SUPPRESSION_MS;
+        const dropTarget = deepElementFromPoint(pointerEvent.clientX, pointerEvent.clientY);
+        return this.createDragEvent(base, start, dropTarget, dx, dy);
+      }
+
+      case 'dragstart': {
+        const dragEvent = e as DragEvent;
+        this.dragStart = { source: target, x: dragEvent.clientX, y: dragEvent.clientY, html5: true };
+        return null;
+      }
+
+      case 'drop': {
+        const start = this.dragStart;
+        if (!start?.html5) return null;
+        this.dragStart = null;
+
+        const dragEvent = e as DragEvent;
+        return this.createDragEvent(base, start, target, dragEvent.clientX - start.x, dragEvent.clientY - start.y);
+      }
+
+      case 'dragend': {
+        // Only reached without a drop, e.g. when no drop zone accepted the element
+        const start = this.dragStart;
+        if (!start?.html5) return null;
+        this.dragStart = null;
+
+        const dragEvent = e as DragEvent;
+        const dx = dragEvent.clientX - start.x;
+        const dy = dragEvent.clientY - start.y;
+        if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return null;
+        return this.createDragEvent(base, start, null, dx, dy);
+      }
+
       default:
         return null;
     }
   }
 
+  /**
+   * The hook reports the dialog synchronously after the user answered it, so it
+   * arrives right after the event that opened it
+   */
+  private captureDialog(e: Event): void {
+    const dialog = parseDialogEvent(e);
+    // Dialogs answered by playback, and beforeunload (whose answer unloads the page), aren't recorded
+    if (!dialog || dialog.handled || dialog.type === 'beforeunload') return;
+
+    this.handler({
+      type: 'dialog',
+      timestamp: Date.now(),
+      target: document.documentElement,
+      dialog: {
+        type: dialog.type,
+        message: dialog.message,
+        defaultValue: dialog.defaultValue,
+        accepted: dialog.accepted,
+        promptText: dialog.promptText,
+      },
+      frameSelector: this.getFrameSelector(),
+    });
+  }
+
+  /**
+   * A drag onto another element records the drop target; a drag that ends on
+   * empty space or inside the dragged element records the pixel offset instead
+   */
+  private createDragEvent(
+    base: Partial<CapturedEvent>,
+    start: DragStart,
+    dropTarget: Element | null,
+    dx: number,
+    dy: number
+  ): CapturedEvent {
+    const hasTarget =
+      dropTarget !== null &&
+      !start.source.contains(dropTarget) &&
+      !dropTarget.contains(start.source) &&
+      !dropTarget.closest('[data-qaerx-extension]');
+
+    return {
+      ...base,
+      type: 'drag',
+      target: start.source,
+      timestamp: base.timestamp!,
+      dropTarget: hasTarget ? dropTarget : undefined,
+      offsetX: Math.round(dx),
+      offsetY: Math.round(dy),
+    };
+  }
+
+  private isFileInput(element: Element): boolean {
+    return element instanceof HTMLInputElement && element.type === 'file';
+  }
+
+  private isTextEntry(element: Element): boolean {
+    return (
+      element.tagName === 'INPUT' ||
+      element.tagName === 'TEXTAREA' ||
+      element.tagName === 'SELECT' ||
+      (element as HTMLElement).isContentEditable
+    );
+  }
+
   private getMouseButton(button: number): 'left' | 'right' | 'middle' {
     switch (button) {
       case 0:
@@ -208,23 +413,11 @@ export class EventCapture {
     return modifiers;
   }
 
-  private getFrameSelector(target: Element): string | undefined {
-    // Check if element is in an iframe
-    const win = target.ownerDocument.defaultView;
-    if (win === window) return undefined;
-
-    // Find the iframe element
-    const iframes = document.querySelectorAll('iframe');
-    for (const iframe of iframes) {
-      if (iframe.contentWindow === win) {
-        // Generate selector for the iframe
-        const id = iframe.id ? `#${iframe.id}` : '';
-        const name = iframe.name ? `[name="${iframe.name}"]` : '';
-        if (id) return `iframe${id}`;
-        if (name) return `iframe${name}`;
-        return `iframe[src="${iframe.src}"]`;
-      }
-    }
-    return undefined;
+  /**
+   * Events are captured by the content script of the frame they happen in,
+   * so the frame path is the same for every event in this document
+   */
+  private getFrameSelector(): string | undefined {
+    return getFrameBridge().getFrameSelector();
   }
 }
@@ -3,6 +3,7 @@ import { SelectorGenerator } from './SelectorGenerator';
 import { ActionFilter } from './ActionFilter';
 import { debounce } from '../utils/contentDebounce';
 import { contentLogger as logger } from '../utils/contentLogger';
+import { querySelectorDeep } from '../utils/shadowDom';
 import type { UIStep, UIAction, SelectorStrategy } from '@/types/test';
 
 // Use native crypto.randomUUID() instead of uuid package to avoid external imports
@@ -47,7 +48,10 @@ export class RecorderEngine {
     };
 
     this.eventCapture.attach();
-    this.showRecordingIndicator();
+    // Iframes record too, but only the top frame shows the indicator
+    if (window === window.top) {
+      this.showRecordingIndicator();
+    }
     this.sendToBackground({ type: 'recording:started', sessionId });
     console.log('[QAerx RecorderEngine] Recording started successfully');
   }
@@ -147,6 +151,14 @@ export class RecorderEngine {
     return steps;
   }
 
+  /**
+   * Turn pending events into steps now, so they are sent before a tab switch
+   * the background is about to record
+   */
+  flush(): void {
+    this.processPendingEvents();
+  }
+
   getSteps(): UIStep[] {
     return this.session?.steps || [];
   }
@@ -237,7 +249,7 @@ export class RecorderEngine {
     if (!stepSelector) return false;
 
     try {
-      const stepElement = document.querySelector(stepSelector);
+      const stepElement = querySelectorDeep(stepSelector);
       return stepElement === event.target;
     } catch {
       return false;
@@ -245,6 +257,10 @@ export class RecorderEngine {
   }
 
   private createStep(event: CapturedEvent): UIStep | null {
+    if (event.type === 'dialog') {
+      return this.createDialogStep(event);
+    }
+
     const selectors = this.selectorGenerator.generate(event.target);
 
     if (selectors.length === 0) {
@@ -273,6 +289,35 @@ export class RecorderEngine {
     return step;
   }
 
+  /**
+   * Dialog steps have no element; a selector-less entry keeps the frame the dialog came from
+   */
+  private createDialogStep(event: CapturedEvent): UIStep | null {
+    const dialog = event.dialog;
+    if (!dialog) return null;
+
+    const action: UIAction = {
+      type: 'dialog',
+      action: dialog.accepted ? 'accept' : 'dismiss',
+      promptText: dialog.type === 'prompt' && dialog.accepted ? dialog.promptText : undefined,
+      expectedMessage: dialog.message || undefined,
+    };
+    const message = dialog.message.length > 30 ? dialog.message.substring(0, 30) + '...' : dialog.message;
+
+    return {
+      id: uuid(),
+      type: 'ui',
+      order: this.session!.steps.length,
+      name: `${action.action === 'accept' ? 'Accept' : 'Dismiss'} ${dialog.type}${message ? ` "${message}"` : ''}`,
+      enabled: true,
+      continueOnFailure: false,
+      action,
+      selectors: event.frameSelector
+        ? [{ type: 'css', value: '', priority: 0, confidence: 1, frameSelector: event.frameSelector }]
+        : [],
+    };
+  }
+
   private mapEventToAction(event: CapturedEvent): UIAction | null {
     switch (event.type) {
       case 'click':
@@ -285,6 +330,9 @@ export class RecorderEngine {
         if (event.target.tagName === 'SELECT') {
           return { type: 'select', value: event.value || '' };
         }
+        if (event.files) {
+          return { type: 'upload', files: event.files };
+        }
         if (
           event.target instanceof HTMLInputElement &&
           (event.target.type === 'checkbox' || event.target.type === 'radio')
@@ -299,6 +347,18 @@ export class RecorderEngine {
           return { type: 'press', key: event.key, modifiers: event.modifiers };
         }
         return null;
+      case 'drag': {
+        const targetSelectors = event.dropTarget ? this.selectorGenerator.generate(event.dropTarget) : [];
+        if (targetSelectors.length > 0) {
+          return {
+            type: 'drag',
+            targetSelectors: event.frameSelector
+              ? targetSelectors.map((s) => ({ ...s, frameSelector: event.frameSelector }))
+              : targetSelectors,
+          };
+        }
+        return { type: 'drag', offset: { x: event.offsetX ?? 0, y: event.offsetY ?? 0 } };
+      }
       default:
         return null;
     }
@@ -326,6 +386,15 @@ export class RecorderEngine {
       case 'press':
         const mods = action.modifiers?.join('+') || '';
         return `Press ${mods ? mods + '+' : ''}${action.key}`;
+      case 'upload':
+        return action.files.length > 0
+          ? `Upload ${action.files.map((f) => `"${f}"`).join(', ')} to ${elementDesc}`
+          : `Clear files in ${elementDesc}`;
+      case 'drag':
+        if (action.targetSelectors?.[0]) {
+          return `Drag ${elementDesc} to ${this.selectorGenerator.getElementDescription(action.targetSelectors[0])}`;
+        }
+        return `Drag ${elementDesc} by (${action.offset?.x ?? 0}, ${action.offset?.y ?? 0})`;
       default:
         return `${action.type} on ${elementDesc}`;
     }
@@ -1,4 +1,5 @@
 import type { SelectorStrategy } from '@/types/test';
+import { getShadowHosts, SHADOW_SEPARATOR } from '../utils/shadowDom';
 
 /**
  * Escape special characters in CSS class names
@@ -20,6 +21,20 @@ function hasDecimalClass(className: string): boolean {
 
 export class SelectorGenerator {
   generate(element: Element): SelectorStrategy[] {
+    const hosts = getShadowHosts(element);
+    if (hosts.length === 0) {
+      return this.generateInRoot(element, document);
+    }
+
+    // Inside shadow DOM: build selectors relative to the element's shadow root and
+    // prefix them with the chain of hosts. Text selectors can't pierce, so drop them.
+    const hostChain = hosts.map((host) => this.generateHostSelector(host)).join(SHADOW_SEPARATOR);
+    return this.generateInRoot(element, element.getRootNode() as ShadowRoot)
+      .filter((s) => s.type !== 'text')
+      .map((s) => ({ ...s, value: `${hostChain}${SHADOW_SEPARATOR}${s.value}` }));
+  }
+
+  private generateInRoot(element: Element, root: Document | ShadowRoot): SelectorStrategy[] {
     const strategies: SelectorStrategy[] = [];
     let priority = 0;
 
@@ -110,7 +125,7 @@ export class SelectorGenerator {
     }
 
     // 5. Semantic CSS selectors
-    const cssSelector = this.generateSemanticCSS(element);
+    const cssSelector = this.generateSemanticCSS(element, root);
     if (cssSelector) {
       strategies.push({
         type: 'css',
@@ -252,7 +267,7 @@ export class SelectorGenerator {
     return name.length > 0 && !unstablePatterns.some((p) => p.test(name));
   }
 
-  private generateSemanticCSS(element: Element): string | null {
+  private generateSemanticCSS(element: Element, root: Document | ShadowRoot): string | null {
     const tag = element.tagName.toLowerCase();
     const classes = Array.from(element.classList)
       .filter((c) => this.isSemanticClass(c))
@@ -268,7 +283,7 @@ export class SelectorGenerator {
 
     // Verify uniqueness
     try {
-      if (document.querySelectorAll(selector).length === 1) {
+      if (root.querySelectorAll(selector).length === 1) {
         return selector;
       }
     } catch {
@@ -288,7 +303,7 @@ export class SelectorGenerator {
       if (parentClasses.length > 0) {
         const contextSelector = `${parentTag}.${parentClasses[0]} > ${selector}`;
         try {
-          if (document.querySelectorAll(contextSelector).length === 1) {
+          if (root.querySelectorAll(contextSelector).length === 1) {
             return contextSelector;
           }
         } catch {
@@ -322,6 +337,23 @@ export class SelectorGenerator {
     return className.length > 2 && !nonSemanticPatterns.some((p) => p.test(className));
   }
 
+  /**
+   * Selector for a shadow host, unique within the root that contains it
+   */
+  private generateHostSelector(host: Element): string {
+    if (host.id && this.isStableId(host.id)) {
+      return `#${CSS.escape(host.id)}`;
+    }
+
+    const tag = host.tagName.toLowerCase();
+    const root = host.getRootNode() as Document | ShadowRoot;
+    if (root.querySelectorAll(tag).length === 1) {
+      return tag;
+    }
+
+    return this.generateFullCSSPath(host);
+  }
+
   private generateFullCSSPath(element: Element): string {
     const path: string[] = [];
     let current: Element | null = element;
@@ -0,0 +1,39 @@
+/**
+ * Content-side half of the MAIN-world console hook (background/pageHooks.ts)
+ * The hook reports console errors/warnings, uncaught exceptions and unhandled
+ * rejections with a 'qaerx-console' event.
+ */
+import type { LogEntry } from '@/types/result';
+
+export const CONSOLE_EVENT = 'qaerx-console';
+
+let installPromise: Promise<void> | null = null;
+
+/**
+ * Ask the background to inject the hook into this frame (once per page)
+ */
+export function ensureConsoleHook(): Promise<void> {
+  if (!installPromise) {
+    installPromise = chrome.runtime
+      .sendMessage({ type: 'page:install-console-hook' })
+      .then((response) => {
+        if (!response?.success) {
+          console.warn('[QAerx] Console hook not installed:', response?.error);
+        }
+      })
+      .catch((error) => {
+        console.warn('[QAerx] Console hook not installed:', error);
+      });
+  }
+  return installPromise;
+}
+
+export function parseConsoleEvent(event: Event): LogEntry | null {
+  const detail = (event as CustomEvent).detail;
+  if (typeof detail !== 'string') return null;
+  try {
+    return JSON.parse(detail) as LogEntry;
+  } catch {
+    return null;
+  }
+}
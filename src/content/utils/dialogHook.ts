@@ -0,0 +1,48 @@
+/**
+ * Content-side half of the MAIN-world dialog hook (background/pageHooks.ts)
+ * The hook reports every dialog with a synchronous 'qaerx-dialog' event and is
+ * controlled with window.postMessage.
+ */
+import type { DialogInfo } from '@/types/result';
+
+export const DIALOG_EVENT = 'qaerx-dialog';
+
+export interface ReportedDialog extends DialogInfo {
+  handled: boolean; // Answered by playback rather than the user
+  expectedMessage?: string;
+}
+
+let installPromise: Promise<void> | null = null;
+
+/**
+ * Ask the background to inject the hook into this frame (once per page)
+ */
+export function ensureDialogHook(): Promise<void> {
+  if (!installPromise) {
+    installPromise = chrome.runtime
+      .sendMessage({ type: 'page:install-dialog-hook' })
+      .then((response) => {
+        if (!response?.success) {
+          console.warn('[QAerx] Dialog hook not installed:', response?.error);
+        }
+      })
+      .catch((error) => {
+        console.warn('[QAerx] Dialog hook not installed:', error);
+      });
+  }
+  return installPromise;
+}
+
+export function postDialogControl(message: Record<string, unknown>): void {
+  window.postMessage({ source: 'qaerx-dialog-control', ...message }, '*');
+}
+
+export function parseDialogEvent(event: Event): ReportedDialog | null {
+  const detail = (event as CustomEvent).detail;
+  if (typeof detail !== 'string') return null;
+  try {
+    return JSON.parse(detail) as ReportedDialog;
+  } catch {
+    return null;
+  }
+}
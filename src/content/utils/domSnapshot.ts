@@ -0,0 +1,124 @@
+/**
+ * Serialized DOM snapshots for step traces
+ * The snapshot renders on its own in a sandboxed iframe: readable stylesheets
+ * (including CSS-in-JS rules that only exist in the CSSOM) are inlined, scripts and
+ * meta refreshes are dropped, form state is written back into attributes and a
+ * <base> keeps relative URLs pointing at the page. Iframe contents and shadow
+ * roots are not included.
+ */
+
+// Larger snapshots are dropped rather than stored
+const MAX_SNAPSHOT_LENGTH = 5 * 1024 * 1024;
+
+// Local copy of SNAPSHOT_SCROLL_ATTRIBUTE from @/types/result to avoid external chunk imports
+const SNAPSHOT_SCROLL_ATTRIBUTE = 'data-qaerx-scroll';
+
+const STYLE_SELECTOR = 'link[rel~="stylesheet"], style';
+const FORM_SELECTOR = 'input, textarea, select';
+
+export function serializeDocument(): string | null {
+  const root = document.documentElement;
+  const clone = root.cloneNode(true) as HTMLElement;
+
+  inlineStylesheets(root, clone);
+  copyFormState(root, clone);
+  clone
+    .querySelectorAll('script, noscript, meta[http-equiv="refresh" i], link[rel~="preload"], link[rel~="modulepreload"]')
+    .forEach((el) => el.remove());
+
+  for (const sheet of document.adoptedStyleSheets ?? []) {
+    const css = readRules(sheet);
+    if (css === null) continue;
+    const style = document.createElement('style');
+    style.textContent = css;
+    clone.querySelector('head')?.append(style);
+  }
+
+  const head = clone.querySelector('head');
+  if (head && !head.querySelector('base[href]')) {
+    const base = document.createElement('base');
+    base.href = location.href;
+    head.prepend(base);
+  }
+  clone.setAttribute(SNAPSHOT_SCROLL_ATTRIBUTE, `${Math.round(window.scrollX)},${Math.round(window.scrollY)}`);
+
+  const html = `<!DOCTYPE html>\n${clone.outerHTML}`;
+  return html.length > MAX_SNAPSHOT_LENGTH ? null : html;
+}
+
+/**
+ * Swap stylesheets for <style> copies of their rules. Cross-origin sheets can't
+ * be read and stay linked by absolute URL.
+ */
+function inlineStylesheets(root: HTMLElement, clone: HTMLElement): void {
+  const originals = root.querySelectorAll<HTMLLinkElement | HTMLStyleElement>(STYLE_SELECTOR);
+  const copies = clone.querySelectorAll<HTMLLinkElement | HTMLStyleElement>(STYLE_SELECTOR);
+
+  originals.forEach((original, i) => {
+    const copy = copies[i];
+    const sheet = original.sheet;
+    const css = sheet ? readRules(sheet) : null;
+
+    if (original instanceof HTMLLinkElement) {
+      if (css === null) {
+        copy.setAttribute('href', original.href);
+        return;
+      }
+      const style = document.createElement('style');
+      if (original.media) style.media = original.media;
+      style.textContent = absolutizeUrls(css, original.href);
+      copy.replaceWith(style);
+    } else if (css !== null) {
+      copy.textContent = css;
+    }
+  });
+}
+
+function readRules(sheet: CSSStyleSheet): string | null {
+  try {
+    return Array.from(sheet.cssRules, (rule) => rule.cssText).join('\n');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * url() in a linked sheet is relative to the sheet, not the page
+ */
+function absolutizeUrls(css: string, sheetHref: string): string {
+  return css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, quote: string, url: string) => {
+    if (/^(data:|blob:|#)/i.test(url)) return match;
+    try {
+      return `url(${quote}${new URL(url, sheetHref).href}${quote})`;
+    } catch {
+      return match;
+    }
+  });
+}
+
+/**
+ * Typed values, checked boxes and selected options only live in properties
+ */
+function copyFormState(root: HTMLElement, clone: HTMLElement): void {
+  const originals = root.querySelectorAll(FORM_SELECTOR);
+  const copies = clone.querySelectorAll(FORM_SELECTOR);
+
+  originals.forEach((original, i) => {
+    const copy = copies[i];
+    if (original instanceof HTMLInputElement) {
+      if (original.type === 'checkbox' || original.type === 'radio') {
+        copy.toggleAttribute('checked', original.checked);
+      } else if (original.type === 'password') {
+        copy.setAttribute('value', '•'.repeat(original.value.length));
+      } else if (original.type !== 'file') {
+        copy.setAttribute('value', original.value);
+      }
+    } else if (original instanceof HTMLTextAreaElement) {
+      copy.textContent = original.value;
+    } else if (original instanceof HTMLSelectElement) {
+      Array.from(original.options).forEach((option, j) => {
+        (copy as HTMLSelectElement).options[j]?.toggleAttribute('selected', option.selected);
+      });
+    }
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * Page side of full-page and element screenshots: the background scrolls the
+ * top frame through these, capturing the viewport at every position.
+ */
+
+// Time for lazy content and scroll-linked styles to settle before a capture
+const SETTLE_DELAY = 150;
+
+export interface CaptureMetrics {
+  viewportWidth: number;
+  viewportHeight: number;
+  pageHeight: number;
+  scrollX: number;
+  scrollY: number;
+  pixelRatio: number;
+}
+
+interface HiddenElement {
+  element: HTMLElement;
+  value: string;
+  priority: string;
+}
+
+let origin: { x: number; y: number } | null = null;
+let hidden: HiddenElement[] | null = null;
+let target: Element | null = null;
+
+/**
+ * Element being captured; it stays visible even if it is fixed or sticky
+ */
+export function setCaptureTarget(element: Element | null): void {
+  target = element;
+}
+
+export function prepareCapture(): CaptureMetrics {
+  origin = { x: window.scrollX, y: window.scrollY };
+  const root = document.scrollingElement ?? document.documentElement;
+  return {
+    viewportWidth: document.documentElement.clientWidth || window.innerWidth,
+    viewportHeight: document.documentElement.clientHeight || window.innerHeight,
+    pageHeight: Math.max(root.scrollHeight, document.body?.scrollHeight ?? 0),
+    scrollX: origin.x,
+    scrollY: origin.y,
+    pixelRatio: window.devicePixelRatio || 1,
+  };
+}
+
+/**
+ * Scroll to y and return where the page actually ended up. Fixed and sticky
+ * elements (headers, cookie bars) would repeat in every frame; hideFixed takes
+ * them out for all frames after the first.
+ */
+export async function scrollForCapture(y: number, hideFixed: boolean): Promise<number> {
+  if (hideFixed && !hidden) {
+    hidden = hideFixedElements();
+  }
+  window.scrollTo({ left: origin?.x ?? window.scrollX, top: y, behavior: 'instant' });
+  await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY));
+  return window.scrollY;
+}
+
+export function restoreCapture(): void {
+  for (const { element, value, priority } of hidden ?? []) {
+    element.style.setProperty('visibility', value, priority);
+  }
+  if (origin) {
+    window.scrollTo({ left: origin.x, top: origin.y, behavior: 'instant' });
+  }
+  hidden = null;
+  origin = null;
+}
+
+function hideFixedElements(): HiddenElement[] {
+  const elements: HiddenElement[] = [];
+  for (const element of Array.from(document.body?.querySelectorAll<HTMLElement>('*') ?? [])) {
+    const { position } = getComputedStyle(element);
+    if (position !== 'fixed' && position !== 'sticky') continue;
+    if (target && (element.contains(target) || target.contains(element))) continue;
+
+    elements.push({
+      element,
+      value: element.style.getPropertyValue('visibility'),
+      priority: element.style.getPropertyPriority('visibility'),
+    });
+    element.style.setProperty('visibility', 'hidden', 'important');
+  }
+  return elements;
+}
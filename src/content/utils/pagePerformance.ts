@@ -0,0 +1,125 @@
+import type { NavigationMetrics, PageMetrics } from '@/types/result';
+
+/**
+ * Page side of performance metrics: PerformanceObservers of the top frame,
+ * started on the first request. Buffered entries cover what happened before.
+ */
+
+// Layout shifts within 1s of each other, over at most 5s, form a session; CLS is the worst one
+const CLS_SESSION_GAP = 1000;
+const CLS_SESSION_MAX = 5000;
+const LONG_TASK_THRESHOLD = 50;
+
+interface LayoutShift extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTiming extends PerformanceEntry {
+  interactionId?: number;
+}
+
+interface LargestContentfulPaint extends PerformanceEntry {
+  renderTime: number;
+  loadTime: number;
+}
+
+let observers: { observer: PerformanceObserver; callback: (entries: PerformanceEntry[]) => void }[] | null = null;
+let navigationReported = false;
+let lcp: number | undefined;
+let cls = 0;
+let session = { value: 0, start: 0, last: 0 };
+const interactions = new Map<number, number>();
+let longTasks: PerformanceEntry[] = [];
+let resources: PerformanceResourceTiming[] = [];
+
+/**
+ * Metrics of the page since the previous call
+ */
+export function takePageMetrics(): PageMetrics {
+  if (!observers) {
+    observers = [];
+    startObservers();
+  }
+  // Entries not delivered yet, including the buffered ones of observers just started
+  for (const { observer, callback } of observers) {
+    callback(observer.takeRecords());
+  }
+
+  const metrics: PageMetrics = {
+    url: window.location.href,
+    pageStart: Math.round(performance.timeOrigin),
+    navigation: navigationReported ? undefined : readNavigation(),
+    lcp: lcp !== undefined ? Math.round(lcp) : undefined,
+    cls: Math.round(cls * 1000) / 1000,
+    inp: interactionLatency(),
+    longTasks: longTasks.length,
+    blockingTime: Math.round(longTasks.reduce((sum, task) => sum + Math.max(0, task.duration - LONG_TASK_THRESHOLD), 0)),
+    resources: resources.length,
+    transferSize: resources.reduce((sum, resource) => sum + (resource.transferSize || 0), 0),
+  };
+
+  // Until the load event is seen, later samples report it again
+  navigationReported = navigationReported || !!metrics.navigation?.load;
+  longTasks = [];
+  resources = [];
+  return metrics;
+}
+
+function startObservers(): void {
+  observe('largest-contentful-paint', (entries) => {
+    const last = entries[entries.length - 1] as LargestContentfulPaint | undefined;
+    if (last) lcp = last.renderTime || last.loadTime || last.startTime;
+  });
+
+  observe('layout-shift', (entries) => {
+    for (const shift of entries as LayoutShift[]) {
+      if (shift.hadRecentInput) continue;
+      const continues = shift.startTime - session.last < CLS_SESSION_GAP && shift.startTime - session.start < CLS_SESSION_MAX;
+      session = continues
+        ? { value: session.value + shift.value, start: session.start, last: shift.startTime }
+        : { value: shift.value, start: shift.startTime, last: shift.startTime };
+      cls = Math.max(cls, session.value);
+    }
+  });
+
+  observe('event', (entries) => {
+    for (const entry of entries as EventTiming[]) {
+      if (!entry.interactionId) continue;
+      interactions.set(entry.interactionId, Math.max(interactions.get(entry.interactionId) ?? 0, entry.duration));
+    }
+  }, { durationThreshold: 16 });
+
+  observe('longtask', (entries) => longTasks.push(...entries));
+  observe('resource', (entries) => resources.push(...(entries as PerformanceResourceTiming[])));
+}
+
+function observe(type: string, callback: (entries: PerformanceEntry[]) => void, options: Record<string, unknown> = {}): void {
+  if (!PerformanceObserver.supportedEntryTypes?.includes(type)) return;
+  try {
+    const observer = new PerformanceObserver((list) => callback(list.getEntries()));
+    observer.observe({ type, buffered: true, ...options });
+    observers?.push({ observer, callback });
+  } catch (error) {
+    console.warn(`[QAerx] Cannot observe ${type} entries:`, error);
+  }
+}
+
+function readNavigation(): NavigationMetrics | undefined {
+  const [entry] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+  if (!entry) return undefined;
+  const fcp = performance.getEntriesByName('first-contentful-paint')[0]?.startTime;
+  return {
+    ttfb: Math.round(entry.responseStart),
+    fcp: fcp !== undefined ? Math.round(fcp) : undefined,
+    domContentLoaded: Math.round(entry.domContentLoadedEventEnd),
+    load: Math.round(entry.loadEventEnd),
+  };
+}
+
+// INP: the slowest interaction, skipping one outlier per 50 interactions
+function interactionLatency(): number | undefined {
+  if (interactions.size === 0) return undefined;
+  const latencies = Array.from(interactions.values()).sort((a, b) => b - a);
+  return Math.round(latencies[Math.min(latencies.length - 1, Math.floor(latencies.length / 50))]);
+}
@@ -0,0 +1,100 @@
+/**
+ * Shadow DOM helpers for content scripts
+ * Selectors may pierce open shadow roots with a `>>>` chain, e.g.
+ * `my-app >>> login-form >>> input[name="email"]`: every segment but the
+ * last matches a shadow host, and the next segment is queried inside its shadow root.
+ */
+
+// Local copy of SHADOW_SEPARATOR from @/types/test to avoid external chunk imports
+export const SHADOW_SEPARATOR = ' >>> ';
+
+type QueryRoot = Document | ShadowRoot | Element;
+
+function splitShadowSelector(selector: string): string[] {
+  return selector.split(/\s*>>>\s*/).filter(Boolean);
+}
+
+export function isShadowSelector(selector: string): boolean {
+  return selector.includes('>>>');
+}
+
+/**
+ * querySelectorAll that follows `>>>` into open shadow roots
+ */
+export function querySelectorAllDeep(selector: string, root: QueryRoot = document): Element[] {
+  if (!isShadowSelector(selector)) {
+    return Array.from(root.querySelectorAll(selector));
+  }
+
+  const segments = splitShadowSelector(selector);
+  let roots: QueryRoot[] = [root];
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    roots = roots
+      .flatMap((r) => Array.from(r.querySelectorAll(segments[i])))
+      .map((host) => host.shadowRoot)
+      .filter((shadow): shadow is ShadowRoot => shadow !== null);
+  }
+
+  const last = segments[segments.length - 1];
+  return roots.flatMap((r) => Array.from(r.querySelectorAll(last)));
+}
+
+export function querySelectorDeep(selector: string, root: QueryRoot = document): Element | null {
+  if (!isShadowSelector(selector)) {
+    return root.querySelector(selector);
+  }
+  return querySelectorAllDeep(selector, root)[0] ?? null;
+}
+
+/**
+ * Shadow hosts enclosing the element, outermost first
+ */
+export function getShadowHosts(element: Element): Element[] {
+  const hosts: Element[] = [];
+  let root = element.getRootNode();
+
+  while (root instanceof ShadowRoot) {
+    hosts.unshift(root.host);
+    root = root.host.getRootNode();
+  }
+
+  return hosts;
+}
+
+/**
+ * The real event target, even when the event was retargeted to a shadow host
+ */
+export function getComposedTarget(event: Event): Element | null {
+  const [first] = event.composedPath();
+  if (first instanceof Element) return first;
+  return event.target instanceof Element ? event.target : null;
+}
+
+/**
+ * elementFromPoint that descends into open shadow roots
+ */
+export function deepElementFromPoint(x: number, y: number): Element | null {
+  let element = document.elementFromPoint(x, y);
+
+  while (element?.shadowRoot) {
+    const inner = element.shadowRoot.elementFromPoint(x, y);
+    if (!inner || inner === element) break;
+    element = inner;
+  }
+
+  return element;
+}
+
+/**
+ * document.activeElement stops at shadow hosts; follow focus inside them
+ */
+export function getDeepActiveElement(): Element | null {
+  let active = document.activeElement;
+
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+
+  return active;
+}
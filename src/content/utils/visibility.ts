@@ -0,0 +1,48 @@
+/**
+ * Element visibility and stability for playback: waits, actionability checks,
+ * assertions and selector healing all judge elements the same way
+ */
+
+// requestAnimationFrame doesn't fire in background tabs, so fall back to a timer
+const FRAME_FALLBACK = 100;
+
+/**
+ * Has a non-empty box and isn't hidden by display, visibility or opacity
+ */
+export function isVisible(element: Element): boolean {
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+
+  return (
+    rect.width > 0 &&
+    rect.height > 0 &&
+    style.visibility !== 'hidden' &&
+    style.display !== 'none' &&
+    style.opacity !== '0'
+  );
+}
+
+/**
+ * Bounding box unchanged across two consecutive animation frames
+ */
+export async function isStable(element: Element): Promise<boolean> {
+  const before = element.getBoundingClientRect();
+  await nextFrame();
+  const after = element.getBoundingClientRect();
+  return (
+    before.x === after.x &&
+    before.y === after.y &&
+    before.width === after.width &&
+    before.height === after.height
+  );
+}
+
+export function nextFrame(): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, FRAME_FALLBACK);
+    requestAnimationFrame(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
@@ -1,4 +1,5 @@
-import type { Test, UIStep } from '@/types/test';
+import { FRAME_SEPARATOR, SHADOW_SEPARATOR, type A11yAuditAction, type A11yImpact, type StepCondition, type Test, type UIStep } from '@/types/test';
+import { flattenSteps, isBlockStep, parseForEachItems } from '@/core/utils';
 
 export interface ExportOptions {
   language: 'playwright' | 'cypress' | 'selenium';
@@ -6,6 +7,20 @@ export interface ExportOptions {
   includeComments: boolean;
 }
 
+// Names generated code already uses, plus JS and Python keywords
+const RESERVED_IDENTIFIERS = new Set([
+  'page', 'startPage', 'context', 'popup', 'popups', 'opener', 'data', 'testData', 'test_data', 'item', 'index',
+  'test', 'expect', 'AxeBuilder', 'cy', 'win', 'Cypress', 'self', 'match', 'state', 'f', 'json', 're', 'os',
+  'time', 'unittest', 'webdriver', 'By', 'Keys', 'Select', 'EC', 'WebDriverWait', 'ActionChains', 'Axe', 'axe',
+  'violations', 'window', 'document',
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var',
+  'void', 'while', 'with', 'yield', 'arguments', 'eval',
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'def', 'del', 'elif', 'except', 'from', 'global',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise',
+]);
+
 export class CodeExportService {
   /**
    * Generate Playwright test code
@@ -17,11 +32,26 @@ export class CodeExportService {
   ): string {
     const { includeComments = true } = options;
     const steps = test.steps.filter((s): s is UIStep => s.type === 'ui');
+    const usesTabs = flattenSteps(steps).some((s) => this.isTabStep(s));
+    const fixtures = usesTabs ? '{ page: startPage, context }' : '{ page }';
+    const extracted = this.getStoredVariables(steps);
 
     let code = '';
 
     // Imports
-    code += `import { test, expect } from '@playwright/test';\n\n`;
+    code += `import { test, expect } from '@playwright/test';\n`;
+    if (this.usesA11yAudit(steps)) code += `import AxeBuilder from '@axe-core/playwright';\n`;
+    code += `\n`;
+
+    // Playwright retries whole tests, the closest match to either retry scope
+    if (test.retryPolicy) {
+      code += `test.describe.configure({ retries: ${test.retryPolicy.retries} });\n\n`;
+    }
+
+    // Saved by another test's page.context().storageState()
+    if (test.storageState) {
+      code += `test.use({ storageState: '${this.toStorageStateFile(test.storageState)}' });\n\n`;
+    }
 
     // Comments
     if (includeComments) {
@@ -38,9 +68,23 @@ export class CodeExportService {
 
       // Data-driven test
       code += `for (const data of testData) {\n`;
-      code += `  test(\`${test.name} - \${JSON.stringify(data)}\`, async ({ page }) => {\n`;
+      code += `  test(\`${test.name} - \${JSON.stringify(data)}\`, async (${fixtures}) => {\n`;
     } else {
-      code += `test('${test.name}', async ({ page }) => {\n`;
+      code += `test('${test.name}', async (${fixtures}) => {\n`;
+    }
+
+    // Tab steps reassign `page`; popups are collected as the context opens them
+    if (usesTabs) {
+      const indent = dataSets.length > 0 ? '    ' : '  ';
+      code += `${indent}let page = startPage;\n`;
+      code += `${indent}const popups: (typeof page)[] = [];\n`;
+      code += `${indent}context.on('page', (popup) => popups.push(popup));\n\n`;
+    }
+
+    // Extract and script steps assign these; declared up front so they outlive the block they're set in
+    if (extracted.length > 0) {
+      const indent = dataSets.length > 0 ? '    ' : '  ';
+      code += extracted.map((name) => `${indent}let ${this.toIdentifier(name)} = '';\n`).join('') + '\n';
     }
 
     // Navigation
@@ -56,7 +100,7 @@ export class CodeExportService {
       if (includeComments) {
         code += `${indent}// Step ${index + 1}: ${step.name}\n`;
       }
-      code += this.generatePlaywrightStep(step, indent, dataSets.length > 0);
+      code += this.generatePlaywrightStep(step, indent, dataSets.length > 0, extracted);
       code += '\n';
     });
 
@@ -81,9 +125,12 @@ export class CodeExportService {
   ): string {
     const { includeComments = true } = options;
     const steps = test.steps.filter((s): s is UIStep => s.type === 'ui');
+    const aliases = this.getStoredVariables(steps);
 
     let code = '';
 
+    if (this.usesA11yAudit(steps)) code += `import 'cypress-axe';\n\n`;
+
     // Comments
     if (includeComments) {
       code += `/**\n`;
@@ -99,10 +146,26 @@ export class CodeExportService {
     }
 
     // Describe block
-    code += `describe('${test.name}', () => {\n`;
+    code += test.retryPolicy
+      ? `describe('${test.name}', { retries: ${test.retryPolicy.retries} }, () => {\n`
+      : `describe('${test.name}', () => {\n`;
 
-    // Before each - navigation
-    if (test.url && test.url !== 'https://') {
+    // Before each - restore the saved storage state, navigation
+    const hasUrl = !!test.url && test.url !== 'https://';
+    if (test.storageState) {
+      code += `  beforeEach(() => {\n`;
+      code += `    cy.readFile('${this.toStorageStateFile(test.storageState)}').then((state) => {\n`;
+      code += `      state.cookies.forEach((c) =>\n`;
+      code += `        cy.setCookie(c.name, c.value, { domain: c.domain, path: c.path, secure: c.secure, httpOnly: c.httpOnly })\n`;
+      code += `      );\n`;
+      if (hasUrl) {
+        code += `      cy.visit('${this.escapeString(test.url)}', {\n`;
+        code += `        onBeforeLoad: (win) => Object.entries(state.localStorage).forEach(([key, value]) => win.localStorage.setItem(key, value)),\n`;
+        code += `      });\n`;
+      }
+      code += `    });\n`;
+      code += `  });\n\n`;
+    } else if (hasUrl) {
       code += `  beforeEach(() => {\n`;
       code += `    cy.visit('${this.escapeString(test.url)}');\n`;
       code += `  });\n\n`;
@@ -117,7 +180,7 @@ export class CodeExportService {
         if (includeComments) {
           code += `${indent}// Step ${stepIndex + 1}: ${step.name}\n`;
         }
-        code += this.generateCypressStep(step, indent, true);
+        code += this.generateCypressStep(step, indent, true, [], aliases);
         code += '\n';
       });
       code += `    });\n`;
@@ -129,7 +192,7 @@ export class CodeExportService {
         if (includeComments) {
           code += `${indent}// Step ${index + 1}: ${step.name}\n`;
         }
-        code += this.generateCypressStep(step, indent, false);
+        code += this.generateCypressStep(step, indent, false, [], aliases);
         code += '\n';
       });
       code += `  });\n`;
@@ -149,7 +212,8 @@ export class CodeExportService {
     options: { includeComments?: boolean } = {}
   ): string {
     const { includeComments = true } = options;
-    const steps = test.steps.filter((s): s is UIStep => s.type === 'ui');
+    const steps = this.orderDialogsAfterTrigger(test.steps.filter((s): s is UIStep => s.type === 'ui'));
+    const extracted = this.getStoredVariables(steps);
 
     let code = '';
 
@@ -159,6 +223,12 @@ export class CodeExportService {
     code += `from selenium.webdriver.support.ui import WebDriverWait\n`;
     code += `from selenium.webdriver.support import expected_conditions as EC\n`;
     code += `from selenium.webdriver.support.select import Select\n`;
+    code += `from selenium.webdriver.common.action_chains import ActionChains\n`;
+    code += `from selenium.webdriver.common.keys import Keys\n`;
+    if (this.usesA11yAudit(steps)) code += `from axe_selenium_python import Axe\n`;
+    if (test.storageState || this.usesStorageState(steps)) code += `import json\n`;
+    code += `import os\n`;
+    code += `import re\n`;
     code += `import unittest\n`;
     code += `import time\n\n`;
 
@@ -184,6 +254,16 @@ export class CodeExportService {
 
     if (test.url && test.url !== 'https://') {
       code += `        self.driver.get("${test.url}")\n`;
+      // Cookies can only be added for the page's domain, so restore after loading it
+      if (test.storageState) {
+        code += `        with open('${this.toStorageStateFile(test.storageState)}') as f:\n`;
+        code += `            state = json.load(f)\n`;
+        code += `        for cookie in state['cookies']:\n`;
+        code += `            self.driver.add_cookie(cookie)\n`;
+        code += `        for key, value in state['localStorage'].items():\n`;
+        code += `            self.driver.execute_script('localStorage.setItem(arguments[0], arguments[1])', key, value)\n`;
+        code += `        self.driver.refresh()\n`;
+      }
     }
     code += `\n`;
 
@@ -195,21 +275,23 @@ export class CodeExportService {
       code += `    def test_with_data(self):\n`;
       code += `        for data in test_data:\n`;
       const indent = '            ';
+      code += extracted.map((name) => `${indent}${this.toIdentifier(name)} = ''\n`).join('');
       steps.forEach((step, index) => {
         if (includeComments) {
           code += `${indent}# Step ${index + 1}: ${step.name}\n`;
         }
-        code += this.generateSeleniumStep(step, indent, true);
+        code += this.wrapSeleniumFrame(step, indent, this.generateSeleniumStep(step, indent, true, extracted));
         code += '\n';
       });
     } else {
       code += `    def test_main(self):\n`;
       const indent = '        ';
+      code += extracted.map((name) => `${indent}${this.toIdentifier(name)} = ''\n`).join('');
       steps.forEach((step, index) => {
         if (includeComments) {
           code += `${indent}# Step ${index + 1}: ${step.name}\n`;
         }
-        code += this.generateSeleniumStep(step, indent, false);
+        code += this.wrapSeleniumFrame(step, indent, this.generateSeleniumStep(step, indent, false, extracted));
         code += '\n';
       });
     }
@@ -222,116 +304,497 @@ export class CodeExportService {
 
   // ==================== HELPER METHODS ====================
 
-  private static generatePlaywrightStep(step: UIStep, indent: string, hasData: boolean): string {
+  private static generatePlaywrightStep(step: UIStep, indent: string, hasData: boolean, localVars: string[] = []): string {
     const action = step.action as any;
     const selector = step.selectors[0]?.value || '';
-
-    const substituteVars = (text: string) => {
-      if (hasData) {
-        return text.replace(/\{\{(\w+)\}\}/g, '${data.$1}');
-      }
-      return text;
-    };
+    const scope = this.getFrameSelectors(step).reduce(
+      (chain, frame) => `${chain}.frameLocator('${this.escapeString(frame)}')`,
+      'page'
+    );
+    // Playwright locators pierce open shadow roots, so each `>>>` segment is a chained locator
+    const toLocator = (sel: string) =>
+      this.splitShadowSelector(sel).reduce((chain, part) => `${chain}.locator('${this.escapeString(part)}')`, scope);
+    const locator = toLocator(selector);
+
+    // forEach loop variables and extracted values are plain JS variables; the rest come from the data set
+    const substituteVars = (text: string) =>
+      text.replace(/\{\{([^{}]+)\}\}/g, (match, key) =>
+        localVars.includes(key) ? `\${${this.toIdentifier(key)}}` : hasData && /^\w+$/.test(key) ? `\${data.${key}}` : match
+      );
+    const nested = (steps: UIStep[], vars = localVars) =>
+      steps.map((s) => this.generatePlaywrightStep(s, `${indent}  `, hasData, vars)).join('\n');
 
     switch (action.type) {
       case 'navigate':
         const url = substituteVars(action.url || '');
         return `${indent}await page.goto(\`${url}\`);`;
 
+      case 'if': {
+        const lines = [`${indent}if (${this.toPlaywrightCondition(action.condition, locator, substituteVars)}) {`, nested(action.then)];
+        if (action.else?.length) lines.push(`${indent}} else {`, nested(action.else));
+        lines.push(`${indent}}`);
+        return lines.filter(Boolean).join('\n');
+      }
+
+      case 'repeat': {
+        const lines = [`${indent}for (let i = 0; i < ${action.times}; i++) {`];
+        if (action.until) lines.push(`${indent}  if (${this.toPlaywrightCondition(action.until, locator, substituteVars)}) break;`);
+        lines.push(nested(action.steps), `${indent}}`);
+        return lines.filter(Boolean).join('\n');
+      }
+
+      case 'forEach': {
+        const items = this.toJsItems(action.items, substituteVars);
+        return [`${indent}for (const ${this.toIdentifier(action.variable)} of ${items}) {`, nested(action.steps, [...localVars, action.variable]), `${indent}}`]
+          .filter(Boolean)
+          .join('\n');
+      }
+
       case 'click':
-        return `${indent}await page.locator('${this.escapeString(selector)}').click();`;
+        return `${indent}await ${locator}.click();`;
 
       case 'dblclick':
-        return `${indent}await page.locator('${this.escapeString(selector)}').dblclick();`;
+        return `${indent}await ${locator}.dblclick();`;
 
       case 'type':
         const text = substituteVars(action.text || '');
-        return `${indent}await page.locator('${this.escapeString(selector)}').fill(\`${text}\`);`;
+        return `${indent}await ${locator}.fill(\`${text}\`);`;
 
       case 'select':
         const value = substituteVars(action.value || '');
-        return `${indent}await page.locator('${this.escapeString(selector)}').selectOption(\`${value}\`);`;
+        return `${indent}await ${locator}.selectOption(\`${value}\`);`;
 
       case 'check':
-        return `${indent}await page.locator('${this.escapeString(selector)}').check();`;
+        return `${indent}await ${locator}.check();`;
 
       case 'uncheck':
-        return `${indent}await page.locator('${this.escapeString(selector)}').uncheck();`;
+        return `${indent}await ${locator}.uncheck();`;
 
       case 'waitTime':
         return `${indent}await page.waitForTimeout(${action.duration || 2000});`;
 
-      case 'waitForElement':
-        return `${indent}await page.locator('${this.escapeString(selector)}').waitFor();`;
+      case 'waitForElement': {
+        const strategy = step.waitConfig?.strategy;
+        if (strategy === 'networkIdle') {
+          return `${indent}await page.waitForLoadState('networkidle');`;
+        }
+        const state = strategy && strategy !== 'stable' ? `{ state: '${strategy}' }` : '';
+        return `${indent}await ${locator}.waitFor(${state});`;
+      }
 
       case 'scroll':
         return `${indent}await page.evaluate(() => window.scrollTo(${action.x || 0}, ${action.y || 0}));`;
 
+      case 'hover':
+        return `${indent}await ${locator}.hover();`;
+
+      case 'dialog': {
+        const answer = action.action === 'accept'
+          ? `dialog.accept(${action.promptText ? `\`${substituteVars(action.promptText)}\`` : ''})`
+          : 'dialog.dismiss()';
+        const check = action.expectedMessage
+          ? `expect(dialog.message()).toContain(\`${substituteVars(action.expectedMessage)}\`); `
+          : '';
+        return `${indent}page.once('dialog', async (dialog) => { ${check}await ${answer}; });`;
+      }
+
+      case 'upload': {
+        // Fixtures are expected next to the spec, in fixtures/
+        const files = (action.files as string[]).map((name) => `\`fixtures/${substituteVars(name)}\``);
+        const arg = files.length === 1 ? files[0] : `[${files.join(', ')}]`;
+        return `${indent}await ${locator}.setInputFiles(${arg});`;
+      }
+
+      case 'drag': {
+        const target = action.targetSelectors?.[0]?.value;
+        if (target) {
+          return `${indent}await ${locator}.dragTo(${toLocator(target)});`;
+        }
+        const { x = 0, y = 0 } = action.offset || {};
+        return [
+          `${indent}{`,
+          `${indent}  const box = await ${locator}.boundingBox();`,
+          `${indent}  if (!box) throw new Error('Drag source is not visible');`,
+          `${indent}  await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);`,
+          `${indent}  await page.mouse.down();`,
+          `${indent}  await page.mouse.move(box.x + box.width / 2 + ${x}, box.y + box.height / 2 + ${y}, { steps: 10 });`,
+          `${indent}  await page.mouse.up();`,
+          `${indent}}`,
+        ].join('\n');
+      }
+
+      case 'press': {
+        const keys = this.toPlaywrightKeys(action.key, action.modifiers);
+        return selector
+          ? `${indent}await ${locator}.press('${keys}');`
+          : `${indent}await page.keyboard.press('${keys}');`;
+      }
+
+      case 'reload':
+        return `${indent}await page.reload();`;
+
+      case 'goBack':
+        return `${indent}await page.goBack();`;
+
+      case 'goForward':
+        return `${indent}await page.goForward();`;
+
+      case 'waitForPopup':
+        return [
+          `${indent}await expect.poll(() => popups.length, { timeout: ${action.timeout || 10000} }).toBeGreaterThan(0);`,
+          `${indent}page = popups.shift() ?? page;`,
+          `${indent}await page.waitForLoadState();`,
+        ].join('\n');
+
+      case 'switchTab':
+        return action.url !== undefined
+          ? `${indent}page = context.pages().find((p) => p.url().includes(\`${substituteVars(action.url)}\`)) ?? page;\n${indent}await page.bringToFront();`
+          : `${indent}page = context.pages()[${action.index ?? 0}];\n${indent}await page.bringToFront();`;
+
+      case 'closeTab':
+        return `${indent}page = await page.opener().then(async (opener) => { await page.close(); return opener ?? context.pages()[0]; });`;
+
+      case 'extract': {
+        if (!action.variable) return `${indent}// Extract step has no variable name`;
+        const name = this.toIdentifier(action.variable);
+        const read: Record<string, string> = {
+          text: `(await ${locator}.innerText()).trim()`,
+          attribute: `(await ${locator}.getAttribute('${this.escapeString(action.attribute || '')}')) ?? ''`,
+          value: `await ${locator}.inputValue()`,
+          url: !action.urlPart || action.urlPart === 'href' ? 'page.url()' : `new URL(page.url()).${action.urlPart}`,
+        };
+        const lines = [`${indent}${name} = ${read[action.source]};`];
+        if (action.pattern) {
+          lines.push(
+            `${indent}{`,
+            `${indent}  const match = ${name}.match(new RegExp(${JSON.stringify(action.pattern)}));`,
+            `${indent}  expect(match, \`Pattern did not match "\${${name}}"\`).not.toBeNull();`,
+            `${indent}  ${name} = match?.[1] ?? match?.[0] ?? '';`,
+            `${indent}}`
+          );
+        }
+        return lines.join('\n');
+      }
+
+      case 'script': {
+        const vars = [hasData ? '...data' : '', ...this.toJsVars(localVars)].filter(Boolean);
+        const evaluate = `await page.evaluate(${this.toScriptFunction(action.code, indent)}, { ${vars.join(', ')} })`;
+        const expected = action.expected !== undefined ? `\`${substituteVars(action.expected)}\`` : null;
+        if (!action.variable) {
+          return expected ? `${indent}expect(${evaluate}).toBe(${expected});` : `${indent}${evaluate};`;
+        }
+        const name = this.toIdentifier(action.variable);
+        const lines = [`${indent}${name} = ${evaluate};`];
+        if (expected) lines.push(`${indent}expect(${name}).toBe(${expected});`);
+        return lines.join('\n');
+      }
+
+      case 'screenshot':
+        if (action.element) {
+          return `${indent}await ${locator}.screenshot({ path: '${this.toFileName(step.name)}.png' });`;
+        }
+        return `${indent}await page.screenshot({ path: '${this.toFileName(step.name)}.png'${action.fullPage ? ', fullPage: true' : ''} });`;
+
+      case 'a11yAudit': {
+        const disabled = this.toAxeRules(action);
+        const impacts = this.toAxeImpacts(action);
+        let builder = 'new AxeBuilder({ page })';
+        if (selector) builder += `.include('${this.escapeString(selector)}')`;
+        if (disabled.length > 0) builder += `.disableRules(${JSON.stringify(disabled)})`;
+        const violations = `(await ${builder}.analyze()).violations`;
+        return impacts
+          ? `${indent}expect(${violations}.filter((v) => ${JSON.stringify(impacts)}.includes(v.impact ?? ''))).toEqual([]);`
+          : `${indent}expect(${violations}).toEqual([]);`;
+      }
+
+      case 'saveStorageState':
+        return `${indent}await page.context().storageState({ path: \`${substituteVars(this.toStorageStateFile(action.name))}\` });`;
+
       default:
         return `${indent}// Unknown action: ${action.type}`;
     }
   }
 
-  private static generateCypressStep(step: UIStep, indent: string, hasData: boolean): string {
+  private static generateCypressStep(
+    step: UIStep,
+    indent: string,
+    hasData: boolean,
+    localVars: string[] = [],
+    aliases: string[] = []
+  ): string {
     const action = step.action as any;
     const selector = step.selectors[0]?.value || '';
-
-    const substituteVars = (text: string) => {
-      if (hasData) {
-        return text.replace(/\{\{(\w+)\}\}/g, '${data.$1}');
-      }
-      return text;
+    // Elements inside iframes are reached through each frame's document body,
+    // and elements inside shadow roots through .shadow() on each host
+    const frames = this.getFrameSelectors(step);
+    const toGet = (sel: string) => {
+      const [first, ...shadowParts] = this.splitShadowSelector(sel);
+      return (frames.length > 0
+        ? frames.reduce(
+            (chain, frame, i) =>
+              `${chain}${i === 0 ? 'cy.get' : '.find'}('${this.escapeString(frame)}').its('0.contentDocument.body').should('not.be.empty').then(cy.wrap)`,
+            ''
+          ) + `.find('${this.escapeString(first)}')`
+        : `cy.get('${this.escapeString(first)}')`) +
+        shadowParts.map((part) => `.shadow().find('${this.escapeString(part)}')`).join('');
     };
+    const get = toGet(selector);
+
+    // Extracted values live in aliases, out of reach of template strings; a step
+    // reading one runs inside cy.get('@alias').then(...), where it is a local variable
+    const readAliases = aliases.filter((alias) => !localVars.includes(alias) && this.readsVariable(step, alias));
+    if (readAliases.length > 0) {
+      const inner = this.generateCypressStep(step, indent + '  '.repeat(readAliases.length), hasData, [...localVars, ...readAliases], aliases);
+      return [
+        ...readAliases.map((alias, i) => `${indent}${'  '.repeat(i)}cy.get('@${alias}').then((${this.toIdentifier(alias)}) => {`),
+        inner,
+        ...readAliases.map((_, i) => `${indent}${'  '.repeat(readAliases.length - 1 - i)}});`),
+      ].join('\n');
+    }
+
+    const substituteVars = (text: string) =>
+      text.replace(/\{\{([^{}]+)\}\}/g, (match, key) =>
+        localVars.includes(key) ? `\${${this.toIdentifier(key)}}` : hasData && /^\w+$/.test(key) ? `\${data.${key}}` : match
+      );
+    const nested = (steps: UIStep[], depth: number, vars = localVars) =>
+      steps.map((s) => this.generateCypressStep(s, indent + '  '.repeat(depth), hasData, vars, aliases)).join('\n');
 
     switch (action.type) {
+      case 'if': {
+        if (action.condition.type === 'variable') {
+          const lines = [`${indent}if (${this.toJsVariableCondition(action.condition, substituteVars)}) {`, nested(action.then, 1)];
+          if (action.else?.length) lines.push(`${indent}} else {`, nested(action.else, 1));
+          lines.push(`${indent}}`);
+          return lines.filter(Boolean).join('\n');
+        }
+        // Cypress commands can't branch on page state, so query the DOM synchronously
+        const visible = `$body.find('${this.escapeString(selector)}').is(':visible')`;
+        const lines = [
+          `${indent}cy.get('body').then(($body) => {`,
+          `${indent}  if (${action.condition.state === 'visible' ? visible : `!${visible}`}) {`,
+          nested(action.then, 2),
+        ];
+        if (action.else?.length) lines.push(`${indent}  } else {`, nested(action.else, 2));
+        lines.push(`${indent}  }`, `${indent}});`);
+        return lines.filter(Boolean).join('\n');
+      }
+
+      case 'repeat': {
+        const lines = [`${indent}Cypress._.times(${action.times}, () => {`];
+        if (action.until) lines.push(`${indent}  // Cypress can't stop the loop on a condition; runs every iteration`);
+        lines.push(nested(action.steps, 1), `${indent}});`);
+        return lines.filter(Boolean).join('\n');
+      }
+
+      case 'forEach': {
+        const items = this.toJsItems(action.items, substituteVars);
+        return [`${indent}${items}.forEach((${this.toIdentifier(action.variable)}) => {`, nested(action.steps, 1, [...localVars, action.variable]), `${indent}});`]
+          .filter(Boolean)
+          .join('\n');
+      }
+
       case 'navigate':
         const url = substituteVars(action.url || '');
         return `${indent}cy.visit(\`${url}\`);`;
 
       case 'click':
-        return `${indent}cy.get('${this.escapeString(selector)}').click();`;
+        return `${indent}${get}.click();`;
 
       case 'dblclick':
-        return `${indent}cy.get('${this.escapeString(selector)}').dblclick();`;
+        return `${indent}${get}.dblclick();`;
 
       case 'type':
         const text = substituteVars(action.text || '');
-        return `${indent}cy.get('${this.escapeString(selector)}').clear().type(\`${text}\`);`;
+        return `${indent}${get}.clear().type(\`${text}\`);`;
 
       case 'select':
         const value = substituteVars(action.value || '');
-        return `${indent}cy.get('${this.escapeString(selector)}').select(\`${value}\`);`;
+        return `${indent}${get}.select(\`${value}\`);`;
 
       case 'check':
-        return `${indent}cy.get('${this.escapeString(selector)}').check();`;
+        return `${indent}${get}.check();`;
 
       case 'uncheck':
-        return `${indent}cy.get('${this.escapeString(selector)}').uncheck();`;
+        return `${indent}${get}.uncheck();`;
 
       case 'waitTime':
         return `${indent}cy.wait(${action.duration || 2000});`;
 
-      case 'waitForElement':
-        return `${indent}cy.get('${this.escapeString(selector)}').should('be.visible');`;
+      case 'waitForElement': {
+        const chainer: Record<string, string> = {
+          hidden: 'not.be.visible',
+          attached: 'exist',
+          detached: 'not.exist',
+        };
+        const should = chainer[step.waitConfig?.strategy || ''] || 'be.visible';
+        return `${indent}${get}.should('${should}');`;
+      }
 
       case 'scroll':
         return `${indent}cy.scrollTo(${action.x || 0}, ${action.y || 0});`;
 
+      case 'hover':
+        return `${indent}${get}.trigger('mouseover');`;
+
+      case 'dialog': {
+        // The step answers the next dialog whatever its kind, as in playback.
+        // Cypress fires no event for prompts, so they're stubbed, replacing an
+        // earlier dialog step's stub.
+        const accept = action.action === 'accept';
+        const check = action.expectedMessage
+          ? `expect(message).to.contain(\`${substituteVars(action.expectedMessage)}\`); `
+          : '';
+        const promptAnswer = !accept
+          ? 'null'
+          : action.promptText !== undefined
+            ? `\`${substituteVars(action.promptText)}\``
+            : "defaultValue ?? ''";
+        return [
+          `${indent}cy.window().then((win) => {`,
+          `${indent}  win.prompt.restore?.();`,
+          `${indent}  cy.stub(win, 'prompt').callsFake((message, defaultValue) => { ${check}return ${promptAnswer}; });`,
+          `${indent}});`,
+          `${indent}cy.once('window:confirm', (message) => { ${check}return ${accept}; });`,
+          // Alerts are accepted by default and only need listening to for the message
+          ...(check ? [`${indent}cy.once('window:alert', (message) => { ${check}});`] : []),
+        ].join('\n');
+      }
+
+      case 'upload': {
+        const files = (action.files as string[]).map((name) => `\`cypress/fixtures/${substituteVars(name)}\``);
+        if (files.length === 0) {
+          return `${indent}${get}.then(($input) => { $input[0].value = ''; }).trigger('change');`;
+        }
+        return `${indent}${get}.selectFile(${files.length === 1 ? files[0] : `[${files.join(', ')}]`});`;
+      }
+
+      case 'drag': {
+        const target = action.targetSelectors?.[0]?.value;
+        if (target) {
+          return [
+            `${indent}{`,
+            `${indent}  const dataTransfer = new DataTransfer();`,
+            `${indent}  ${get}.trigger('dragstart', { dataTransfer });`,
+            `${indent}  ${toGet(target)}.trigger('dragover', { dataTransfer }).trigger('drop', { dataTransfer });`,
+            `${indent}  ${get}.trigger('dragend', { dataTransfer });`,
+            `${indent}}`,
+          ].join('\n');
+        }
+        const { x = 0, y = 0 } = action.offset || {};
+        return [
+          `${indent}${get}.then(($el) => {`,
+          `${indent}  const rect = $el[0].getBoundingClientRect();`,
+          `${indent}  const start = { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };`,
+          `${indent}  const end = { clientX: start.clientX + ${x}, clientY: start.clientY + ${y} };`,
+          `${indent}  cy.wrap($el)`,
+          `${indent}    .trigger('mousedown', { button: 0, ...start })`,
+          `${indent}    .trigger('mousemove', { buttons: 1, ...end })`,
+          `${indent}    .trigger('mouseup', { force: true, ...end });`,
+          `${indent}});`,
+        ].join('\n');
+      }
+
+      case 'press': {
+        const sequence = this.toCypressKeys(action.key, action.modifiers);
+        const target = selector ? `${get}` : 'cy.focused()';
+        return sequence
+          ? `${indent}${target}.type('${sequence}');`
+          : `${indent}${target}.trigger('keydown', { key: '${this.escapeString(action.key)}' });`;
+      }
+
+      case 'reload':
+        return `${indent}cy.reload();`;
+
+      case 'goBack':
+        return `${indent}cy.go('back');`;
+
+      case 'goForward':
+        return `${indent}cy.go('forward');`;
+
+      case 'waitForPopup':
+      case 'switchTab':
+      case 'closeTab':
+        return `${indent}// Cypress runs in a single tab; ${action.type} has no equivalent`;
+
+      case 'extract': {
+        if (!action.variable) return `${indent}// Extract step has no variable name`;
+        const read: Record<string, string> = {
+          text: `${get}.invoke('text').then((text) => text.trim())`,
+          attribute: `${get}.invoke('attr', '${this.escapeString(action.attribute || '')}')`,
+          value: `${get}.invoke('val')`,
+          url: !action.urlPart || action.urlPart === 'href' ? 'cy.url()' : `cy.location('${action.urlPart}')`,
+        };
+        const match = action.pattern
+          ? [
+              `${indent}  .then((value) => {`,
+              `${indent}    const match = String(value).match(new RegExp(${JSON.stringify(action.pattern)}));`,
+              `${indent}    expect(match, 'pattern match').to.not.be.null;`,
+              `${indent}    return match?.[1] ?? match?.[0] ?? '';`,
+              `${indent}  })`,
+            ]
+          : [];
+        return [
+          `${indent}${read[action.source]}`,
+          ...match,
+          `${indent}  .as('${action.variable}');`,
+        ].join('\n');
+      }
+
+      case 'script': {
+        // eval in the app's window; a plain callback would run in the spec iframe
+        const vars = [hasData ? '...data' : '', ...this.toJsVars(localVars)].filter(Boolean);
+        const source = JSON.stringify(`(${this.toScriptFunction(action.code, '')})`);
+        const lines = [`${indent}cy.window().then((win) => win.eval(${source})({ ${vars.join(', ')} }))`];
+        if (action.expected !== undefined) lines.push(`${indent}  .should('equal', \`${substituteVars(action.expected)}\`)`);
+        if (action.variable) lines.push(`${indent}  .as('${action.variable}')`);
+        return `${lines.join('\n')};`;
+      }
+
+      case 'screenshot':
+        if (action.element) {
+          return `${indent}${get}.screenshot('${this.toFileName(step.name)}');`;
+        }
+        return `${indent}cy.screenshot('${this.toFileName(step.name)}'${action.fullPage ? ", { capture: 'fullPage' }" : ", { capture: 'viewport' }"});`;
+
+      case 'a11yAudit': {
+        const options: string[] = [];
+        const impacts = this.toAxeImpacts(action);
+        if (impacts) options.push(`includedImpacts: ${JSON.stringify(impacts)}`);
+        const disabled = this.toAxeRules(action);
+        if (disabled.length > 0) {
+          options.push(`rules: { ${disabled.map((rule) => `'${rule}': { enabled: false }`).join(', ')} }`);
+        }
+        const context = selector ? `'${this.escapeString(selector)}'` : 'null';
+        return [
+          `${indent}cy.injectAxe();`,
+          `${indent}cy.checkA11y(${context}${options.length > 0 ? `, { ${options.join(', ')} }` : ''});`,
+        ].join('\n');
+      }
+
+      case 'saveStorageState':
+        return [
+          `${indent}cy.getAllCookies().then((cookies) =>`,
+          `${indent}  cy.window().then((win) =>`,
+          `${indent}    cy.writeFile(\`${substituteVars(this.toStorageStateFile(action.name))}\`, { cookies, localStorage: { ...win.localStorage } })`,
+          `${indent}  )`,
+          `${indent});`,
+        ].join('\n');
+
       default:
         return `${indent}// Unknown action: ${action.type}`;
     }
   }
 
-  private static generateSeleniumStep(step: UIStep, indent: string, hasData: boolean): string {
+  private static generateSeleniumStep(step: UIStep, indent: string, hasData: boolean, localVars: string[] = []): string {
     const action = step.action as any;
     const selector = step.selectors[0]?.value || '';
 
-    const substituteVars = (text: string) => {
-      if (hasData) {
-        return text.replace(/\{\{(\w+)\}\}/g, "' + data['$1'] + '");
-      }
-      return text;
-    };
+    const substituteVars = (text: string) =>
+      text.replace(/\{\{([^{}]+)\}\}/g, (match, key) =>
+        localVars.includes(key) ? `' + ${this.toIdentifier(key)} + '` : hasData && /^\w+$/.test(key) ? `' + data['${key}'] + '` : match
+      );
+    const nested = (steps: UIStep[], vars = localVars) =>
+      this.generateSeleniumSteps(steps, `${indent}    `, hasData, vars);
 
     // Determine selector strategy
     const getByStrategy = (sel: string) => {
@@ -342,46 +805,488 @@ export class CodeExportService {
     };
 
     const by = getByStrategy(selector);
+    // Shadow DOM: find each host and continue the search in its shadow_root
+    const shadowParts = this.splitShadowSelector(selector);
+    const toFind = (sel: string) => {
+      const parts = this.splitShadowSelector(sel);
+      return parts.length > 1
+        ? parts
+            .map((part, i) => `${i === 0 ? 'self.driver' : '.shadow_root'}.find_element(By.CSS_SELECTOR, "${this.escapeString(part)}")`)
+            .join('')
+        : `self.driver.find_element(${getByStrategy(sel)})`;
+    };
+    const find = toFind(selector);
+    const toCondition = (condition: StepCondition) =>
+      condition.type === 'element'
+        ? `${condition.state === 'visible' ? '' : 'not '}any(e.is_displayed() for e in self.driver.find_elements(${by}))`
+        : this.toPythonVariableCondition(condition, substituteVars);
 
     switch (action.type) {
       case 'navigate':
         const url = substituteVars(action.url || '');
         return `${indent}self.driver.get('${url}')`;
 
+      case 'if': {
+        const lines = [`${indent}if ${toCondition(action.condition)}:`, nested(action.then)];
+        if (action.else?.length) lines.push(`${indent}else:`, nested(action.else));
+        return lines.join('\n');
+      }
+
+      case 'repeat': {
+        const lines = [`${indent}for _ in range(${action.times}):`];
+        if (action.until) lines.push(`${indent}    if ${toCondition(action.until)}:`, `${indent}        break`);
+        lines.push(nested(action.steps));
+        return lines.join('\n');
+      }
+
+      case 'forEach': {
+        const items = action.items.includes('{{')
+          ? `[item.strip() for item in '${substituteVars(action.items)}'.split(',')]`
+          : JSON.stringify(parseForEachItems(action.items));
+        return [`${indent}for ${this.toIdentifier(action.variable)} in ${items}:`, nested(action.steps, [...localVars, action.variable])].join('\n');
+      }
+
       case 'click':
-        return `${indent}self.driver.find_element(${by}).click()`;
+        return `${indent}${find}.click()`;
 
       case 'dblclick':
-        return `${indent}from selenium.webdriver.common.action_chains import ActionChains\n${indent}ActionChains(self.driver).double_click(self.driver.find_element(${by})).perform()`;
+        return `${indent}ActionChains(self.driver).double_click(${find}).perform()`;
 
       case 'type':
         const text = substituteVars(action.text || '');
-        return `${indent}element = self.driver.find_element(${by})\n${indent}element.clear()\n${indent}element.send_keys('${text}')`;
+        return `${indent}element = ${find}\n${indent}element.clear()\n${indent}element.send_keys('${text}')`;
 
       case 'select':
         const value = substituteVars(action.value || '');
-        return `${indent}Select(self.driver.find_element(${by})).select_by_value('${value}')`;
+        return `${indent}Select(${find}).select_by_value('${value}')`;
 
       case 'check':
-        return `${indent}checkbox = self.driver.find_element(${by})\n${indent}if not checkbox.is_selected():\n${indent}    checkbox.click()`;
+        return `${indent}checkbox = ${find}\n${indent}if not checkbox.is_selected():\n${indent}    checkbox.click()`;
 
       case 'uncheck':
-        return `${indent}checkbox = self.driver.find_element(${by})\n${indent}if checkbox.is_selected():\n${indent}    checkbox.click()`;
+        return `${indent}checkbox = ${find}\n${indent}if checkbox.is_selected():\n${indent}    checkbox.click()`;
 
       case 'waitTime':
         return `${indent}time.sleep(${(action.duration || 2000) / 1000})`;
 
-      case 'waitForElement':
-        return `${indent}WebDriverWait(self.driver, 30).until(EC.presence_of_element_located((${by})))`;
+      case 'waitForElement': {
+        const seconds = Math.ceil((step.waitConfig?.timeout || 30000) / 1000);
+        const condition: Record<string, string> = {
+          visible: 'visibility_of_element_located',
+          hidden: 'invisibility_of_element_located',
+          detached: 'invisibility_of_element_located',
+        };
+        const ec = condition[step.waitConfig?.strategy || ''] || 'presence_of_element_located';
+        if (shadowParts.length > 1) {
+          return `${indent}WebDriverWait(self.driver, ${seconds}).until(lambda _: ${find})`;
+        }
+        return `${indent}WebDriverWait(self.driver, ${seconds}).until(EC.${ec}((${by})))`;
+      }
 
       case 'scroll':
         return `${indent}self.driver.execute_script("window.scrollTo(${action.x || 0}, ${action.y || 0})")`;
 
+      case 'hover':
+        return `${indent}ActionChains(self.driver).move_to_element(${find}).perform()`;
+
+      case 'dialog': {
+        // Emitted after the step that opens the dialog (see orderDialogsAfterTrigger)
+        const lines = [`${indent}alert = WebDriverWait(self.driver, 10).until(EC.alert_is_present())`];
+        if (action.expectedMessage) {
+          lines.push(`${indent}self.assertIn('${substituteVars(this.escapeString(action.expectedMessage))}', alert.text)`);
+        }
+        if (action.action === 'accept' && action.promptText) {
+          lines.push(`${indent}alert.send_keys('${substituteVars(this.escapeString(action.promptText))}')`);
+        }
+        lines.push(`${indent}alert.${action.action}()`);
+        return lines.join('\n');
+      }
+
+      case 'upload': {
+        // send_keys takes absolute paths, newline-separated for multiple files
+        const files = (action.files as string[]).map((name) => `os.path.abspath('fixtures/${substituteVars(name)}')`);
+        if (files.length === 0) {
+          return `${indent}${find}.clear()`;
+        }
+        return `${indent}${find}.send_keys(${files.join(" + '\\n' + ")})`;
+      }
+
+      case 'drag': {
+        const target = action.targetSelectors?.[0]?.value;
+        if (target) {
+          return `${indent}ActionChains(self.driver).drag_and_drop(${find}, ${toFind(target)}).perform()`;
+        }
+        const { x = 0, y = 0 } = action.offset || {};
+        return `${indent}ActionChains(self.driver).drag_and_drop_by_offset(${find}, ${x}, ${y}).perform()`;
+      }
+
+      case 'press': {
+        const modifiers: string[] = (action.modifiers || []).map((m: string) => this.toSeleniumKey(m));
+        const key = this.toSeleniumKey(action.key);
+        let chain = 'ActionChains(self.driver)';
+        if (selector) chain += `.click(${find})`;
+        modifiers.forEach((m) => (chain += `.key_down(${m})`));
+        chain += `.send_keys(${key})`;
+        [...modifiers].reverse().forEach((m) => (chain += `.key_up(${m})`));
+        return `${indent}${chain}.perform()`;
+      }
+
+      case 'reload':
+        return `${indent}self.driver.refresh()`;
+
+      case 'goBack':
+        return `${indent}self.driver.back()`;
+
+      case 'goForward':
+        return `${indent}self.driver.forward()`;
+
+      case 'waitForPopup':
+        return `${indent}self.driver.switch_to.window(WebDriverWait(self.driver, ${(action.timeout || 10000) / 1000}).until(lambda d: len(d.window_handles) > 1 and d.window_handles[-1]))`;
+
+      case 'switchTab':
+        if (action.url !== undefined) {
+          return [
+            `${indent}for handle in self.driver.window_handles:`,
+            `${indent}    self.driver.switch_to.window(handle)`,
+            `${indent}    if '${substituteVars(action.url)}' in self.driver.current_url:`,
+            `${indent}        break`,
+          ].join('\n');
+        }
+        return `${indent}self.driver.switch_to.window(self.driver.window_handles[${action.index ?? 0}])`;
+
+      case 'closeTab':
+        return `${indent}self.driver.close()\n${indent}self.driver.switch_to.window(self.driver.window_handles[0])`;
+
+      case 'extract': {
+        if (!action.variable) return `${indent}# Extract step has no variable name`;
+        const name = this.toIdentifier(action.variable);
+        const read: Record<string, string> = {
+          text: `${find}.text.strip()`,
+          attribute: `${find}.get_attribute('${this.escapeString(action.attribute || '')}') or ''`,
+          value: `${find}.get_attribute('value') or ''`,
+          url: !action.urlPart || action.urlPart === 'href'
+            ? 'self.driver.current_url'
+            : `self.driver.execute_script('return location.${action.urlPart}')`,
+        };
+        const lines = [`${indent}${name} = ${read[action.source]}`];
+        if (action.pattern) {
+          lines.push(
+            `${indent}match = re.search(${JSON.stringify(action.pattern)}, ${name})`,
+            `${indent}self.assertIsNotNone(match)`,
+            `${indent}${name} = match.group(1) if match.re.groups else match.group(0)`
+          );
+        }
+        return lines.join('\n');
+      }
+
+      case 'script': {
+        const vars = [hasData ? '**data' : '', ...localVars.map((name) => `'${this.escapeString(name)}': ${this.toIdentifier(name)}`)].filter(Boolean);
+        const source = JSON.stringify(`return (${this.toScriptFunction(action.code, '')})(arguments[0]);`);
+        const execute = `self.driver.execute_script(${source}, {${vars.join(', ')}})`;
+        const expected = action.expected !== undefined ? `'${substituteVars(action.expected)}'` : null;
+        if (!action.variable) {
+          return expected ? `${indent}self.assertEqual(${execute}, ${expected})` : `${indent}${execute}`;
+        }
+        const name = this.toIdentifier(action.variable);
+        const lines = [`${indent}${name} = ${execute}`];
+        if (expected) lines.push(`${indent}self.assertEqual(${name}, ${expected})`);
+        return lines.join('\n');
+      }
+
+      case 'screenshot':
+        if (action.element) {
+          return `${indent}${find}.screenshot('${this.toFileName(step.name)}.png')`;
+        }
+        return `${indent}self.driver.save_screenshot('${this.toFileName(step.name)}.png')`;
+
+      case 'a11yAudit': {
+        const disabled = this.toAxeRules(action);
+        const impacts = this.toAxeImpacts(action);
+        const context = selector ? `'${this.escapeString(selector)}'` : 'None';
+        const options = disabled.length > 0
+          ? `{'rules': {${disabled.map((rule) => `'${rule}': {'enabled': False}`).join(', ')}}}`
+          : 'None';
+        const lines = [
+          `${indent}axe = Axe(self.driver)`,
+          `${indent}axe.inject()`,
+          `${indent}violations = axe.run(context=${context}, options=${options})['violations']`,
+        ];
+        if (impacts) {
+          lines.push(`${indent}violations = [v for v in violations if v['impact'] in (${impacts.map((i) => `'${i}'`).join(', ')})]`);
+        }
+        lines.push(`${indent}self.assertEqual(violations, [])`);
+        return lines.join('\n');
+      }
+
+      case 'saveStorageState':
+        return [
+          `${indent}with open('${substituteVars(this.toStorageStateFile(action.name))}', 'w') as f:`,
+          `${indent}    json.dump({'cookies': self.driver.get_cookies(), 'localStorage': self.driver.execute_script('return {...localStorage}')}, f)`,
+        ].join('\n');
+
       default:
         return `${indent}# Unknown action: ${action.type}`;
     }
   }
 
+  /**
+   * Dialog steps come before the step that opens the dialog, but Selenium
+   * can only answer an alert once it is open
+   */
+  private static orderDialogsAfterTrigger(steps: UIStep[]): UIStep[] {
+    const ordered: UIStep[] = [];
+    let pending: UIStep[] = [];
+
+    for (const step of steps) {
+      if (step.action.type === 'dialog') {
+        pending.push(step);
+      } else {
+        ordered.push(step, ...pending);
+        pending = [];
+      }
+    }
+
+    return [...ordered, ...pending];
+  }
+
+  /**
+   * A nested Selenium block; Python needs `pass` for an empty one
+   */
+  private static generateSeleniumSteps(steps: UIStep[], indent: string, hasData: boolean, localVars: string[]): string {
+    if (steps.length === 0) return `${indent}pass`;
+    return this.orderDialogsAfterTrigger(steps)
+      .map((step) => this.wrapSeleniumFrame(step, indent, this.generateSeleniumStep(step, indent, hasData, localVars)))
+      .join('\n');
+  }
+
+  private static toPlaywrightCondition(condition: StepCondition, locator: string, substituteVars: (text: string) => string): string {
+    if (condition.type === 'variable') return this.toJsVariableCondition(condition, substituteVars);
+    if (condition.timeout) {
+      return `await ${locator}.waitFor({ state: '${condition.state}', timeout: ${condition.timeout} }).then(() => true, () => false)`;
+    }
+    return `await ${locator}.${condition.state === 'visible' ? 'isVisible' : 'isHidden'}()`;
+  }
+
+  private static toJsVariableCondition(
+    condition: Extract<StepCondition, { type: 'variable' }>,
+    substituteVars: (text: string) => string
+  ): string {
+    const actual = `\`${substituteVars(`{{${condition.variable}}}`)}\``;
+    const expected = `\`${substituteVars(condition.value || '')}\``;
+    switch (condition.operator) {
+      case 'equals': return `${actual} === ${expected}`;
+      case 'notEquals': return `${actual} !== ${expected}`;
+      case 'contains': return `${actual}.includes(${expected})`;
+      case 'isEmpty': return `${actual}.trim() === ''`;
+      case 'isNotEmpty': return `${actual}.trim() !== ''`;
+    }
+  }
+
+  private static toPythonVariableCondition(
+    condition: Extract<StepCondition, { type: 'variable' }>,
+    substituteVars: (text: string) => string
+  ): string {
+    const actual = `'${substituteVars(`{{${condition.variable}}}`)}'`;
+    const expected = `'${substituteVars(condition.value || '')}'`;
+    switch (condition.operator) {
+      case 'equals': return `${actual} == ${expected}`;
+      case 'notEquals': return `${actual} != ${expected}`;
+      case 'contains': return `${expected} in ${actual}`;
+      case 'isEmpty': return `${actual}.strip() == ''`;
+      case 'isNotEmpty': return `${actual}.strip() != ''`;
+    }
+  }
+
+  /**
+   * A script step as a JS function over `vars`, returning what the runner stores:
+   * strings as-is, anything else as JSON
+   */
+  private static toScriptFunction(code: string, indent: string): string {
+    const body = code.split('\n').map((line) => (line ? `${indent}    ${line}` : line)).join('\n');
+    return [
+      `async (vars) => {`,
+      `${indent}  const result = await (async () => {`,
+      body,
+      `${indent}  })();`,
+      `${indent}  return typeof result === 'string' ? result : JSON.stringify(result) ?? '';`,
+      `${indent}}`,
+    ].join('\n');
+  }
+
+  /**
+   * forEach items as a JS array expression; lists built from variables are split at runtime
+   */
+  private static toJsItems(items: string, substituteVars: (text: string) => string): string {
+    if (items.includes('{{')) {
+      return `\`${substituteVars(items)}\`.split(',').map((item) => item.trim())`;
+    }
+    return JSON.stringify(parseForEachItems(items));
+  }
+
+  /**
+   * Variables set by extract and script steps, in order of first assignment
+   */
+  private static getStoredVariables(steps: UIStep[]): string[] {
+    const names = flattenSteps(steps).flatMap((step) =>
+      (step.action.type === 'extract' || step.action.type === 'script') && step.action.variable ? [step.action.variable] : []
+    );
+    return [...new Set(names)];
+  }
+
+  /**
+   * Variable names are free text; generated code declares them as JS and Python
+   * variables, so invalid characters become _ and names the code already uses
+   * (fixtures, imports, keywords) get a trailing _
+   */
+  private static toIdentifier(name: string): string {
+    let identifier = name.trim().replace(/[^A-Za-z0-9_]/g, '_');
+    if (!identifier || /^\d/.test(identifier)) identifier = `_${identifier}`;
+    return RESERVED_IDENTIFIERS.has(identifier) ? `${identifier}_` : identifier;
+  }
+
+  // Entries of the vars object a script step receives, keyed by the original names
+  private static toJsVars(names: string[]): string[] {
+    return names.map((name) => {
+      const identifier = this.toIdentifier(name);
+      return identifier === name ? name : `'${this.escapeString(name)}': ${identifier}`;
+    });
+  }
+
+  private static usesA11yAudit(steps: UIStep[]): boolean {
+    return flattenSteps(steps).some((s) => s.action.type === 'a11yAudit');
+  }
+
+  /**
+   * Whether the step's own fields, not its nested steps, read {{name}}
+   */
+  private static readsVariable(step: UIStep, name: string): boolean {
+    const own: Record<string, unknown> = { ...step.action };
+    delete own.then;
+    delete own.else;
+    delete own.steps;
+    const condition = own.condition as StepCondition | undefined;
+    return JSON.stringify(own).includes(`{{${name}}}`) || (condition?.type === 'variable' && condition.variable === name);
+  }
+
+  private static usesStorageState(steps: UIStep[]): boolean {
+    return flattenSteps(steps).some((s) => s.action.type === 'saveStorageState');
+  }
+
+  // Storage states are saved next to the tests as <name>.json
+  private static toStorageStateFile(name: string): string {
+    return `${this.escapeString(name)}.json`;
+  }
+
+  /**
+   * axe-core ids of an audit's disabled rules; focusable-name covers axe's
+   * button-name and link-name
+   */
+  private static toAxeRules(action: A11yAuditAction): string[] {
+    return (action.disabledRules ?? []).flatMap((rule) =>
+      rule === 'focusable-name' ? ['button-name', 'link-name'] : [rule]
+    );
+  }
+
+  // Impacts that fail an audit, or null when all do
+  private static toAxeImpacts(action: A11yAuditAction): A11yImpact[] | null {
+    const impacts: A11yImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+    const from = impacts.indexOf(action.minImpact ?? 'minor');
+    return from > 0 ? impacts.slice(from) : null;
+  }
+
+  private static isTabStep(step: UIStep): boolean {
+    return step.action.type === 'waitForPopup' || step.action.type === 'switchTab' || step.action.type === 'closeTab';
+  }
+
+  private static splitShadowSelector(selector: string): string[] {
+    return selector.split(SHADOW_SEPARATOR.trim()).map((part) => part.trim());
+  }
+
+  private static getFrameSelectors(step: UIStep): string[] {
+    const frameSelector = step.selectors[0]?.frameSelector;
+    return frameSelector ? frameSelector.split(FRAME_SEPARATOR) : [];
+  }
+
+  /**
+   * Selenium has no frame-scoped locators, so switch into the step's frame and back out
+   */
+  private static wrapSeleniumFrame(step: UIStep, indent: string, code: string): string {
+    const frames = this.getFrameSelectors(step);
+    // Block steps wrap their nested steps individually
+    if (frames.length === 0 || isBlockStep(step)) return code;
+
+    const switchIn = frames
+      .map((frame) => `${indent}self.driver.switch_to.frame(self.driver.find_element(By.CSS_SELECTOR, "${this.escapeString(frame)}"))\n`)
+      .join('');
+    return `${switchIn}${code}\n${indent}self.driver.switch_to.default_content()`;
+  }
+
+  /**
+   * Recorded modifiers use Ctrl/Shift/Alt/Meta; Playwright expects Control+Shift+Key
+   */
+  private static toPlaywrightKeys(key: string, modifiers: string[] = []): string {
+    const mods = modifiers.map((m) => (m === 'Ctrl' ? 'Control' : m));
+    return this.escapeString([...mods, key].join('+'));
+  }
+
+  /**
+   * Cypress .type() special character sequences. Returns null for keys
+   * Cypress can't type (e.g. Tab, function keys).
+   */
+  private static toCypressKeys(key: string, modifiers: string[] = []): string | null {
+    const special: Record<string, string> = {
+      Enter: '{enter}',
+      Escape: '{esc}',
+      Backspace: '{backspace}',
+      Delete: '{del}',
+      ArrowUp: '{uparrow}',
+      ArrowDown: '{downarrow}',
+      ArrowLeft: '{leftarrow}',
+      ArrowRight: '{rightarrow}',
+      Home: '{home}',
+      End: '{end}',
+      PageUp: '{pageup}',
+      PageDown: '{pagedown}',
+    };
+    const sequence = special[key] ?? (key.length === 1 ? this.escapeString(key) : null);
+    if (!sequence) return null;
+
+    const mods = modifiers.map((m) => `{${m === 'Ctrl' ? 'ctrl' : m.toLowerCase()}}`).join('');
+    return mods + sequence;
+  }
+
+  private static toSeleniumKey(key: string): string {
+    const special: Record<string, string> = {
+      Ctrl: 'Keys.CONTROL',
+      Shift: 'Keys.SHIFT',
+      Alt: 'Keys.ALT',
+      Meta: 'Keys.META',
+      Enter: 'Keys.ENTER',
+      Tab: 'Keys.TAB',
+      Escape: 'Keys.ESCAPE',
+      Backspace: 'Keys.BACKSPACE',
+      Delete: 'Keys.DELETE',
+      ArrowUp: 'Keys.ARROW_UP',
+      ArrowDown: 'Keys.ARROW_DOWN',
+      ArrowLeft: 'Keys.ARROW_LEFT',
+      ArrowRight: 'Keys.ARROW_RIGHT',
+      Home: 'Keys.HOME',
+      End: 'Keys.END',
+      PageUp: 'Keys.PAGE_UP',
+      PageDown: 'Keys.PAGE_DOWN',
+    };
+    if (special[key]) return special[key];
+    if (/^F([1-9]|1[0-2])$/.test(key)) return `Keys.${key}`;
+    return `'${this.escapeString(key)}'`;
+  }
+
+  private static toFileName(str: string): string {
+    return str
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'screenshot';
+  }
+
   private static escapeString(str: string): string {
     return str.replace(/'/g, "\\'").replace(/"/g, '\\"');
   }
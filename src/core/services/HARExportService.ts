@@ -0,0 +1,163 @@
+import type { HttpHeader, NetworkEntry } from '@/types/result';
+import type { UIStep } from '@/types/test';
+import { flattenSteps } from '@/core/utils';
+
+interface HARSourceResult {
+  stepId: string;
+  stepName?: string;
+  dataSetIndex?: number;
+  attempt?: number;
+  network?: NetworkEntry[];
+}
+
+interface HARPage {
+  id: string;
+  title: string;
+  startedDateTime: string;
+  pageTimings: Record<string, never>;
+}
+
+interface HAREntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HttpHeader[];
+    queryString: HttpHeader[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HttpHeader[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  _resourceType: string;
+}
+
+export interface HARFile {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: HARPage[];
+    entries: HAREntry[];
+  };
+}
+
+export class HARExportService {
+  /**
+   * HAR 1.2 log of the requests recorded in a run. Every step result becomes a
+   * page, so HAR viewers group the requests by the step that made them.
+   * Request and response bodies are not recorded.
+   */
+  static build(steps: UIStep[], results: HARSourceResult[]): HARFile {
+    const stepNames = new Map(flattenSteps(steps).map((step) => [step.id, step.name]));
+    const pages: HARPage[] = [];
+    const entries: HAREntry[] = [];
+
+    results.forEach((result, index) => {
+      if (!result.network?.length) return;
+
+      const pageId = `step_${index + 1}`;
+      const name = result.stepName ?? stepNames.get(result.stepId) ?? result.stepId;
+      const details = [
+        result.dataSetIndex !== undefined ? `data set ${result.dataSetIndex + 1}` : '',
+        result.attempt !== undefined ? `attempt ${result.attempt}` : '',
+      ].filter(Boolean);
+      pages.push({
+        id: pageId,
+        title: details.length > 0 ? `${name} (${details.join(', ')})` : name,
+        startedDateTime: new Date(result.network[0].startedAt).toISOString(),
+        pageTimings: {},
+      });
+      entries.push(...result.network.map((entry) => toHAREntry(entry, pageId)));
+    });
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'QAerx', version: chrome.runtime.getManifest().version },
+        pages,
+        entries,
+      },
+    };
+  }
+
+  static download(fileName: string, steps: UIStep[], results: HARSourceResult[]): void {
+    const har = this.build(steps, results);
+    const blob = new Blob([JSON.stringify(har, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/[^a-z0-9]/gi, '_')}.har`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  static hasNetwork(results: HARSourceResult[]): boolean {
+    return results.some((result) => !!result.network?.length);
+  }
+}
+
+function toHAREntry(entry: NetworkEntry, pageref: string): HAREntry {
+  let queryString: HttpHeader[] = [];
+  try {
+    queryString = Array.from(new URL(entry.url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    // Not a parseable URL; leave the query out
+  }
+
+  return {
+    pageref,
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: entry.duration,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: '',
+      cookies: [],
+      headers: entry.requestHeaders ?? [],
+      queryString,
+      headersSize: -1,
+      bodySize: -1,
+    },
+    response: {
+      status: entry.status,
+      statusText: entry.statusText ?? '',
+      httpVersion: '',
+      cookies: [],
+      headers: entry.responseHeaders ?? [],
+      content: { size: entry.size ?? -1, mimeType: entry.mimeType ?? '' },
+      redirectURL: entry.redirectUrl ?? '',
+      headersSize: -1,
+      bodySize: entry.size ?? -1,
+      ...(entry.error && { _error: entry.error }),
+    },
+    cache: {},
+    timings: {
+      blocked: entry.timing?.blocked ?? -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: entry.timing?.wait ?? entry.duration,
+      receive: entry.timing?.receive ?? 0,
+    },
+    _resourceType: entry.type,
+  };
+}
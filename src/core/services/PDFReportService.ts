@@ -1,6 +1,8 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import type { Test, UIStep, ScenarioType } from '@/types/test';
+import type { AssertionResult, ExtractedValue } from '@/types/result';
+import type { ScreenshotRecord } from '@/types/settings';
 import type { AIValidationData } from '@/types/validation';
 import {
   loadArabicFonts,
@@ -19,13 +21,18 @@ interface TestRunData {
   results: Array<{
     dataSetIndex: number;
     stepId: string;
-    status: 'passed' | 'failed';
+    status: 'passed' | 'failed' | 'skipped';
     error?: string;
     duration?: number;
     screenshot?: string; // Base64 screenshot on failure
     pageResponse?: string; // Captured system response (login success/fail, etc.)
     aiValidation?: AIValidationData; // AI validation details
+    extracted?: ExtractedValue; // Value an extract step stored
+    retried?: boolean; // Failed attempt superseded by a retry
+    screenshotId?: string; // Screenshot step's image, looked up in screenshots
+    assertionResults?: AssertionResult[]; // Includes the violations of accessibility audits
   }>;
+  screenshots?: ScreenshotRecord[]; // Screenshots the run stored
   startedAt: number;
   completedAt: number;
 }
@@ -37,7 +44,9 @@ export class PDFReportService {
   /**
    * Generate comprehensive PDF test report
    */
-  static async generateReport(runData: TestRunData): Promise<void> {
+  static async generateReport(data: TestRunData): Promise<void> {
+    // The report covers outcomes; attempts that were retried are left out
+    const runData = { ...data, results: data.results.filter((r) => !r.retried) };
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
     const pageHeight = doc.internal.pageSize.getHeight();
@@ -292,7 +301,7 @@ export class PDFReportService {
     // Build detailed execution log for each data set
     for (let dataSetIdx = 0; dataSetIdx < Math.max(1, totalDataSets); dataSetIdx++) {
       const dataSetResults = runData.results.filter((r) => r.dataSetIndex === dataSetIdx);
-      const dataSetPassed = dataSetResults.every((r) => r.status === 'passed');
+      const dataSetPassed = dataSetResults.every((r) => r.status === 'passed' || r.status === 'skipped');
 
       // Check if we need a new page
       if (yPosition > pageHeight - 60) {
@@ -344,7 +353,9 @@ export class PDFReportService {
 
         // Generate result description - prefer AI validation reason
         let resultDescription = '';
-        if (result?.aiValidation) {
+        if (result?.extracted) {
+          resultDescription = `Stored "${result.extracted.value}" in {{${result.extracted.variable}}}`;
+        } else if (result?.aiValidation) {
           // Use AI validation reason with confidence indicator
           const confidence = Math.round(result.aiValidation.confidence * 100);
           if (result.aiValidation.expectedError) {
@@ -661,6 +672,145 @@ export class PDFReportService {
       }
     }
 
+    // ==================== ACCESSIBILITY SECTION ====================
+    const audits = runData.results.filter((r) => steps.find((s) => s.id === r.stepId)?.action.type === 'a11yAudit');
+
+    if (audits.length > 0) {
+      doc.addPage();
+      yPosition = 20;
+
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(31, 41, 55);
+      doc.text('Accessibility', 20, yPosition);
+
+      yPosition += 5;
+      doc.setDrawColor(99, 102, 241);
+      doc.line(20, yPosition, 65, yPosition);
+
+      const findings = audits.flatMap((audit) =>
+        (audit.assertionResults ?? []).filter((r) => r.rule).map((finding) => ({ audit, finding }))
+      );
+      const violationCount = findings.filter(({ finding }) => !finding.passed).length;
+
+      yPosition += 10;
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(75, 85, 99);
+      doc.text(
+        `${audits.length} audit(s), ${violationCount} violation(s), ${findings.length - violationCount} known or below the impact threshold`,
+        20,
+        yPosition
+      );
+
+      yPosition += 6;
+
+      if (findings.length > 0) {
+        autoTable(doc, {
+          startY: yPosition,
+          head: [['Step', 'Rule', 'Impact', 'Element', 'Issue', 'Status']],
+          body: findings.map(({ audit, finding }) => {
+            const step = steps.find((s) => s.id === audit.stepId);
+            return [
+              `${this.processTextForPDF(step?.name || 'Unknown', 30)} (DS ${audit.dataSetIndex + 1})`,
+              finding.rule ?? '-',
+              finding.impact ?? '-',
+              this.truncateString(finding.selector || '-', 40),
+              this.processTextForPDF(finding.message || '', 60),
+              finding.passed ? 'Ignored' : 'Violation',
+            ];
+          }),
+          theme: 'grid',
+          styles: {
+            fontSize: 7,
+            cellPadding: 2,
+            font: this.hasArabicFont ? 'Amiri' : 'helvetica',
+          },
+          headStyles: {
+            fillColor: [99, 102, 241],
+            textColor: [255, 255, 255],
+            fontStyle: 'bold',
+            font: 'helvetica',
+          },
+          columnStyles: {
+            0: { cellWidth: 32 },
+            1: { cellWidth: 24 },
+            2: { cellWidth: 16 },
+            3: { cellWidth: 40 },
+            4: { cellWidth: 50 },
+            5: { cellWidth: 18 },
+          },
+          didParseCell: (data) => {
+            if (data.section === 'body' && data.column.index === 5) {
+              data.cell.styles.textColor = data.cell.text.join('') === 'Violation' ? [185, 28, 28] : [107, 114, 128];
+            }
+          },
+        });
+      }
+    }
+
+    // ==================== STEP SCREENSHOTS SECTION ====================
+    const screenshotResults = runData.results
+      .map((result) => ({ result, screenshot: runData.screenshots?.find((s) => s.id === result.screenshotId) }))
+      .filter((entry): entry is { result: typeof entry.result; screenshot: ScreenshotRecord } => !!entry.screenshot);
+
+    if (screenshotResults.length > 0) {
+      doc.addPage();
+      yPosition = 20;
+
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(31, 41, 55);
+      doc.text('Screenshots', 20, yPosition);
+
+      yPosition += 5;
+      doc.setDrawColor(99, 102, 241);
+      doc.line(20, yPosition, 60, yPosition);
+
+      yPosition += 10;
+
+      for (const { result, screenshot } of screenshotResults) {
+        const step = steps.find((s) => s.id === result.stepId);
+
+        // Fit the page width; full-page screenshots are shrunk to fit the page height
+        const maxWidth = pageWidth - 40;
+        const maxHeight = pageHeight - 50;
+        const ratio = Math.min(maxWidth / screenshot.width, maxHeight / screenshot.height);
+        const imgWidth = screenshot.width * ratio;
+        const imgHeight = screenshot.height * ratio;
+
+        if (yPosition + imgHeight + 15 > pageHeight - 20) {
+          doc.addPage();
+          yPosition = 20;
+        }
+
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(75, 85, 99);
+        doc.text(`Step: ${step?.name || screenshot.name || 'Unknown'} (Data Set ${result.dataSetIndex + 1})`, 20, yPosition);
+
+        yPosition += 5;
+
+        try {
+          doc.addImage(screenshot.dataUrl, 'PNG', 20, yPosition, imgWidth, imgHeight);
+          yPosition += imgHeight + 6;
+
+          if (screenshot.diff) {
+            doc.setFontSize(8);
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(107, 114, 128);
+            doc.text(`${screenshot.diff.diffPercentage}% of pixels differ from the baseline`, 20, yPosition);
+            yPosition += 6;
+          }
+
+          yPosition += 8;
+        } catch (imgError) {
+          console.warn('[PDFReport] Failed to add screenshot image:', imgError);
+          yPosition += 10;
+        }
+      }
+    }
+
     // ==================== FOOTER ON ALL PAGES ====================
 
     const totalPages = doc.internal.pages.length - 1;
@@ -736,6 +886,8 @@ export class PDFReportService {
       waitTime: 'Wait',
       waitForElement: 'Wait Element',
       scroll: 'Scroll',
+      a11yAudit: 'A11y Audit',
+      saveStorageState: 'Save State',
     };
     return types[type] || type;
   }
@@ -894,6 +1046,10 @@ export class PDFReportService {
         return `Waited for element`;
       case 'scroll':
         return `Scrolled to (${action.x || 0}, ${action.y || 0})`;
+      case 'a11yAudit':
+        return selector ? `Audited accessibility of "${shortSelector}"` : 'Audited page accessibility';
+      case 'saveStorageState':
+        return `Saved storage state "${this.truncateString(substituteVars(action.name || ''), 20)}"`;
       default:
         return `Performed ${action.type}`;
     }
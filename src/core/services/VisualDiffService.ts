@@ -0,0 +1,198 @@
+import type { Region } from '@/types/test';
+
+export interface VisualDiffOptions {
+  colorThreshold: number;
+  perceptual?: boolean;
+  ignoreRegions?: Region[];
+  scale?: number; // Image pixels per CSS pixel, to map ignore regions onto the screenshot
+}
+
+export interface VisualDiffResult {
+  width: number;
+  height: number;
+  diffPixels: number;
+  comparedPixels: number;
+  diffPercentage: number;
+  sizeMismatch: boolean;
+  diffImageDataUrl: string;
+}
+
+interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Largest possible YIQ distance, between black and white
+const MAX_YIQ_DELTA = 35215;
+const DIFF_COLOR = [255, 0, 64];
+const MISSING_COLOR = [255, 0, 255];
+const IGNORED_COLOR = [255, 200, 0];
+
+export class VisualDiffService {
+  /**
+   * Compare a screenshot with its baseline in an OffscreenCanvas. Pixels outside
+   * either image count as different; pixels in ignore regions aren't compared.
+   */
+  static async compare(baselineDataUrl: string, actualDataUrl: string, options: VisualDiffOptions): Promise<VisualDiffResult> {
+    const [baseline, actual] = await Promise.all([loadImage(baselineDataUrl), loadImage(actualDataUrl)]);
+    const width = Math.max(baseline.width, actual.width);
+    const height = Math.max(baseline.height, actual.height);
+    const output = new ImageData(width, height);
+
+    const { diffPixels, comparedPixels } = diffImages(baseline, actual, output, options);
+
+    return {
+      width: actual.width,
+      height: actual.height,
+      diffPixels,
+      comparedPixels,
+      diffPercentage: comparedPixels > 0 ? Math.round((diffPixels / comparedPixels) * 10000) / 100 : 0,
+      sizeMismatch: baseline.width !== actual.width || baseline.height !== actual.height,
+      diffImageDataUrl: await toDataUrl(output),
+    };
+  }
+
+  static async measure(dataUrl: string): Promise<{ width: number; height: number }> {
+    const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  }
+}
+
+/**
+ * Pixel by pixel comparison that paints the result into output: unchanged pixels
+ * as a faded copy of the baseline, differences in red, ignored regions in yellow.
+ * Plain mode compares the largest channel difference against colorThreshold;
+ * perceptual mode uses the YIQ color distance, which weighs brightness over hue
+ * the way the eye does.
+ */
+export function diffImages(
+  baseline: RawImage,
+  actual: RawImage,
+  output: RawImage,
+  options: VisualDiffOptions
+): { diffPixels: number; comparedPixels: number } {
+  const { width, height } = output;
+  const ignored = buildIgnoreMask(width, height, options.ignoreRegions ?? [], options.scale ?? 1);
+  const maxDelta = options.perceptual
+    ? MAX_YIQ_DELTA * options.colorThreshold * options.colorThreshold
+    : 255 * options.colorThreshold;
+  let diffPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const inActual = x < actual.width && y < actual.height;
+      const b = (y * baseline.width + x) * 4;
+      const a = (y * actual.width + x) * 4;
+
+      if (ignored[y * width + x]) {
+        paint(output, o, IGNORED_COLOR, 96, inBaseline ? gray(baseline.data, b) : 255);
+        continue;
+      }
+
+      comparedPixels++;
+      if (!inBaseline || !inActual) {
+        diffPixels++;
+        paint(output, o, MISSING_COLOR);
+        continue;
+      }
+
+      const delta = options.perceptual
+        ? yiqDelta(baseline.data, b, actual.data, a)
+        : channelDelta(baseline.data, b, actual.data, a);
+      if (delta > maxDelta) {
+        diffPixels++;
+        paint(output, o, DIFF_COLOR);
+      } else {
+        const faded = 255 - (255 - gray(baseline.data, b)) * 0.1;
+        paint(output, o, [faded, faded, faded]);
+      }
+    }
+  }
+
+  return { diffPixels, comparedPixels };
+}
+
+function buildIgnoreMask(width: number, height: number, regions: Region[], scale: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x * scale));
+    const top = Math.max(0, Math.floor(region.y * scale));
+    const right = Math.min(width, Math.ceil((region.x + region.width) * scale));
+    const bottom = Math.min(height, Math.ceil((region.y + region.height) * scale));
+    for (let y = top; y < bottom; y++) {
+      mask.fill(1, y * width + left, Math.max(y * width + left, y * width + right));
+    }
+  }
+  return mask;
+}
+
+// Transparent pixels are compared as if drawn on white
+function blend(value: number, alpha: number): number {
+  return 255 + ((value - 255) * alpha) / 255;
+}
+
+function channelDelta(p: Uint8ClampedArray, i: number, q: Uint8ClampedArray, j: number): number {
+  return Math.max(
+    Math.abs(blend(p[i], p[i + 3]) - blend(q[j], q[j + 3])),
+    Math.abs(blend(p[i + 1], p[i + 3]) - blend(q[j + 1], q[j + 3])),
+    Math.abs(blend(p[i + 2], p[i + 3]) - blend(q[j + 2], q[j + 3]))
+  );
+}
+
+function yiqDelta(p: Uint8ClampedArray, i: number, q: Uint8ClampedArray, j: number): number {
+  const r1 = blend(p[i], p[i + 3]);
+  const g1 = blend(p[i + 1], p[i + 3]);
+  const b1 = blend(p[i + 2], p[i + 3]);
+  const r2 = blend(q[j], q[j + 3]);
+  const g2 = blend(q[j + 1], q[j + 3]);
+  const b2 = blend(q[j + 2], q[j + 3]);
+
+  const dy = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const di = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const dq = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+  return 0.5053 * dy * dy + 0.299 * di * di + 0.1957 * dq * dq;
+}
+
+function gray(data: Uint8ClampedArray, i: number): number {
+  return blend(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114, data[i + 3]);
+}
+
+// Mix color over a background gray at the given opacity
+function paint(image: RawImage, i: number, color: number[], alpha = 255, background = 255): void {
+  for (let c = 0; c < 3; c++) {
+    image.data[i + c] = background + ((color[c] - background) * alpha) / 255;
+  }
+  image.data[i + 3] = 255;
+}
+
+async function loadImage(dataUrl: string): Promise<RawImage> {
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+async function toDataUrl(image: ImageData): Promise<string> {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.putImageData(image, 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -1,6 +1,6 @@
 import Dexie, { type Table } from 'dexie';
-import type { Suite, Test } from '@/types/test';
-import type { TestRun } from '@/types/result';
+import type { StorageState, Suite, Test, TestFixture } from '@/types/test';
+import type { StepTrace, TestRun } from '@/types/result';
 import type { Settings, Credential, ScreenshotRecord } from '@/types/settings';
 
 export class QAerxDatabase extends Dexie {
@@ -10,6 +10,9 @@ export class QAerxDatabase extends Dexie {
   credentials!: Table<Credential, string>;
   screenshots!: Table<ScreenshotRecord, string>;
   settings!: Table<Settings, string>;
+  fixtures!: Table<TestFixture, string>;
+  traces!: Table<StepTrace, string>;
+  storageStates!: Table<StorageState, string>;
 
   constructor() {
     super('QAerxDB');
@@ -39,6 +42,55 @@ export class QAerxDatabase extends Dexie {
         }
       });
     });
+
+    // Version 3: Add fixture files for upload steps
+    this.version(3).stores({
+      suites: 'id, parentId, name, order, updatedAt',
+      tests: 'id, suiteId, name, updatedAt, [suiteId+order]',
+      testRuns: 'id, testId, suiteId, status, startedAt, [testId+startedAt]',
+      credentials: 'id, name, domain',
+      screenshots: 'id, testRunId, stepId, timestamp, isBaseline, [testId+isBaseline]',
+      settings: 'id',
+      fixtures: 'id, testId, [testId+name]',
+    });
+
+    // Version 4: Add step traces
+    this.version(4).stores({
+      suites: 'id, parentId, name, order, updatedAt',
+      tests: 'id, suiteId, name, updatedAt, [suiteId+order]',
+      testRuns: 'id, testId, suiteId, status, startedAt, [testId+startedAt]',
+      credentials: 'id, name, domain',
+      screenshots: 'id, testRunId, stepId, timestamp, isBaseline, [testId+isBaseline]',
+      settings: 'id',
+      fixtures: 'id, testId, [testId+name]',
+      traces: 'id, runId, [runId+order]',
+    });
+
+    // Version 5: Look up visual baselines by test and step; booleans aren't valid
+    // IndexedDB keys, so the isBaseline indexes never matched anything
+    this.version(5).stores({
+      suites: 'id, parentId, name, order, updatedAt',
+      tests: 'id, suiteId, name, updatedAt, [suiteId+order]',
+      testRuns: 'id, testId, suiteId, status, startedAt, [testId+startedAt]',
+      credentials: 'id, name, domain',
+      screenshots: 'id, testRunId, testId, [testId+stepId], timestamp',
+      settings: 'id',
+      fixtures: 'id, testId, [testId+name]',
+      traces: 'id, runId, [runId+order]',
+    });
+
+    // Version 6: Add storage states
+    this.version(6).stores({
+      suites: 'id, parentId, name, order, updatedAt',
+      tests: 'id, suiteId, name, updatedAt, [suiteId+order]',
+      testRuns: 'id, testId, suiteId, status, startedAt, [testId+startedAt]',
+      credentials: 'id, name, domain',
+      screenshots: 'id, testRunId, testId, [testId+stepId], timestamp',
+      settings: 'id',
+      fixtures: 'id, testId, [testId+name]',
+      traces: 'id, runId, [runId+order]',
+      storageStates: 'id, name',
+    });
   }
 }
 
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import type { TestFixture, FixtureFile } from '@/types/test';
+import { v4 as uuid } from 'uuid';
+
+export const FixtureRepository = {
+  /**
+   * Attach a file to a test, replacing any fixture with the same name
+   */
+  async add(testId: string, file: File): Promise<TestFixture> {
+    const existing = await db.fixtures.where({ testId, name: file.name }).first();
+    const fixture: TestFixture = {
+      id: existing?.id ?? uuid(),
+      testId,
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      data: file,
+      createdAt: Date.now(),
+    };
+    await db.fixtures.put(fixture);
+    return fixture;
+  },
+
+  async getByTest(testId: string): Promise<TestFixture[]> {
+    const fixtures = await db.fixtures.where('testId').equals(testId).toArray();
+    return fixtures.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  /**
+   * Fixtures for an upload step, serialized for the content script.
+   * Throws if any name has no fixture.
+   */
+  async getFiles(testId: string, names: string[]): Promise<FixtureFile[]> {
+    const fixtures = await db.fixtures.where('testId').equals(testId).toArray();
+
+    return Promise.all(
+      names.map(async (name) => {
+        const fixture = fixtures.find((f) => f.name === name);
+        if (!fixture) throw new Error(`Fixture not found: ${name}`);
+        return {
+          name: fixture.name,
+          mimeType: fixture.mimeType,
+          data: arrayBufferToBase64(await fixture.data.arrayBuffer()),
+        };
+      })
+    );
+  },
+
+  async delete(id: string): Promise<void> {
+    await db.fixtures.delete(id);
+  },
+};
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
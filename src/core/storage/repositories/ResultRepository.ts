@@ -1,5 +1,5 @@
 import { db } from '../db';
-import type { TestRun, StepResult, RunSummary, ExecutionEnvironment } from '@/types/result';
+import type { TestRun, StepResult, RunSummary, ExecutionEnvironment, PerformanceSample } from '@/types/result';
 import { v4 as uuid } from 'uuid';
 
 export const ResultRepository = {
@@ -64,6 +64,36 @@ export const ResultRepository = {
     await this.update(runId, { stepResults, summary });
   },
 
+  async addPerformanceSample(runId: string, sample: PerformanceSample): Promise<void> {
+    const run = await this.getById(runId);
+    if (!run) throw new Error('Test run not found');
+
+    await this.update(runId, { performance: [...(run.performance ?? []), sample] });
+  },
+
+  /**
+   * Completed runs of a test that sampled performance, oldest first
+   */
+  async getPerformanceHistory(testId: string, limit = 30): Promise<TestRun[]> {
+    const runs = await this.getByTest(testId, limit);
+    return runs.filter((run) => run.completedAt && run.performance?.length).reverse();
+  },
+
+  /**
+   * Flag a data set's results as superseded before the data set is rerun
+   */
+  async markRetried(runId: string, dataSetIndex: number): Promise<void> {
+    const run = await this.getById(runId);
+    if (!run) throw new Error('Test run not found');
+
+    const stepResults = run.stepResults.map((r) =>
+      r.type === 'ui' && r.dataSetIndex === dataSetIndex ? { ...r, retried: true } : r
+    );
+    const summary = this.calculateSummary(stepResults, run.startedAt);
+
+    await this.update(runId, { stepResults, summary });
+  },
+
   async complete(
     runId: string,
     status: 'passed' | 'failed' | 'error' | 'stopped'
@@ -77,9 +107,21 @@ export const ResultRepository = {
     await this.update(runId, { status, completedAt, summary });
   },
 
+  /**
+   * Close runs left 'running' by a service worker that was shut down mid-run
+   */
+  async failInterrupted(): Promise<number> {
+    const running = await db.testRuns.where('status').equals('running').toArray();
+    for (const run of running) {
+      await this.complete(run.id, 'error');
+    }
+    return running.length;
+  },
+
   async delete(id: string): Promise<void> {
     // Delete associated screenshots
     await db.screenshots.where('testRunId').equals(id).delete();
+    await db.traces.where('runId').equals(id).delete();
     // Delete the run
     await db.testRuns.delete(id);
   },
@@ -90,6 +132,7 @@ export const ResultRepository = {
 
     for (const run of oldRuns) {
       await db.screenshots.where('testRunId').equals(run.id).delete();
+      await db.traces.where('runId').equals(run.id).delete();
     }
 
     return db.testRuns.where('startedAt').below(cutoff).delete();
@@ -100,11 +143,14 @@ export const ResultRepository = {
     startedAt: number,
     completedAt?: number
   ): RunSummary {
+    // Retried attempts are kept for the record but don't count as outcomes
+    const outcomes = stepResults.filter((r) => !r.retried);
     return {
-      totalSteps: stepResults.length,
-      passedSteps: stepResults.filter((r) => r.status === 'passed').length,
-      failedSteps: stepResults.filter((r) => r.status === 'failed').length,
-      skippedSteps: stepResults.filter((r) => r.status === 'skipped').length,
+      totalSteps: outcomes.length,
+      passedSteps: outcomes.filter((r) => r.status === 'passed').length,
+      failedSteps: outcomes.filter((r) => r.status === 'failed').length,
+      skippedSteps: outcomes.filter((r) => r.status === 'skipped').length,
+      retriedSteps: stepResults.length - outcomes.length,
       duration: (completedAt || Date.now()) - startedAt,
     };
   },
@@ -113,7 +159,8 @@ export const ResultRepository = {
     return {
       browserVersion: navigator.userAgent.match(/Chrome\/(\d+)/)?.[1] || 'unknown',
       extensionVersion: chrome.runtime?.getManifest?.()?.version || '0.1.0',
-      screenSize: { width: window.screen.width, height: window.screen.height },
+      // The background service worker has no screen
+      screenSize: { width: globalThis.screen?.width ?? 0, height: globalThis.screen?.height ?? 0 },
       userAgent: navigator.userAgent,
     };
   },
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import type { ScreenshotRecord } from '@/types/settings';
+import { v4 as uuid } from 'uuid';
+
+export const ScreenshotRepository = {
+  async add(record: ScreenshotRecord): Promise<void> {
+    await db.screenshots.put(record);
+  },
+
+  async getById(id: string): Promise<ScreenshotRecord | undefined> {
+    return db.screenshots.get(id);
+  },
+
+  /**
+   * The approved screenshot a step's visual assertions compare against
+   */
+  async getBaseline(testId: string, stepId: string, dataSetIndex = 0): Promise<ScreenshotRecord | undefined> {
+    return db.screenshots
+      .where('[testId+stepId]')
+      .equals([testId, stepId])
+      .filter((record) => record.isBaseline && (record.dataSetIndex ?? 0) === dataSetIndex)
+      .first();
+  },
+
+  /**
+   * Screenshots a run compared against baselines, in the order they were taken
+   */
+  async getByRun(runId: string): Promise<ScreenshotRecord[]> {
+    return db.screenshots.where('testRunId').equals(runId).sortBy('timestamp');
+  },
+
+  async countByRun(runId: string): Promise<number> {
+    return db.screenshots.where('testRunId').equals(runId).count();
+  },
+
+  /**
+   * Make a screenshot the new baseline of its step. The baseline is a copy that
+   * belongs to no run, so it outlives the run being pruned.
+   */
+  async saveBaseline(record: ScreenshotRecord): Promise<ScreenshotRecord> {
+    const baseline: ScreenshotRecord = {
+      ...record,
+      id: uuid(),
+      testRunId: undefined,
+      timestamp: Date.now(),
+      isBaseline: true,
+      diff: undefined,
+      sourceId: record.testRunId ? record.id : undefined,
+    };
+
+    await db.transaction('rw', db.screenshots, async () => {
+      await db.screenshots
+        .where('[testId+stepId]')
+        .equals([record.testId, record.stepId])
+        .filter((r) => r.isBaseline && (r.dataSetIndex ?? 0) === (record.dataSetIndex ?? 0))
+        .delete();
+      await db.screenshots.add(baseline);
+    });
+    return baseline;
+  },
+
+  async approve(id: string): Promise<ScreenshotRecord> {
+    const record = await db.screenshots.get(id);
+    if (!record) throw new Error('Screenshot not found');
+    return this.saveBaseline(record);
+  },
+};
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import type { StorageState } from '@/types/test';
+import { v4 as uuid } from 'uuid';
+
+export const StorageStateRepository = {
+  /**
+   * Save a storage state, replacing any with the same name
+   */
+  async save(state: Omit<StorageState, 'id' | 'createdAt'>): Promise<StorageState> {
+    const existing = await db.storageStates.where('name').equals(state.name).first();
+    const saved: StorageState = { ...state, id: existing?.id ?? uuid(), createdAt: Date.now() };
+    await db.storageStates.put(saved);
+    return saved;
+  },
+
+  async getAll(): Promise<StorageState[]> {
+    const states = await db.storageStates.toArray();
+    return states.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async getByName(name: string): Promise<StorageState | undefined> {
+    return db.storageStates.where('name').equals(name).first();
+  },
+
+  async delete(id: string): Promise<void> {
+    await db.storageStates.delete(id);
+  },
+};
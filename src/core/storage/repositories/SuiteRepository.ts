@@ -47,7 +47,9 @@ export const SuiteRepository = {
   },
 
   async delete(id: string): Promise<void> {
-    // Delete all tests in suite
+    // Delete all tests in suite, with their fixture files
+    const testIds = await db.tests.where('suiteId').equals(id).primaryKeys();
+    await db.fixtures.where('testId').anyOf(testIds).delete();
     await db.tests.where('suiteId').equals(id).delete();
     // Delete child suites recursively
     const children = await this.getByParent(id);
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import type { Test, Step } from '@/types/test';
 import { v4 as uuid } from 'uuid';
+import { updateStepById } from '@/core/utils';
 
 export const TestRepository = {
   async create(data: Omit<Test, 'id' | 'createdAt' | 'updatedAt'>): Promise<Test> {
@@ -35,8 +36,13 @@ export const TestRepository = {
   },
 
   async delete(id: string): Promise<void> {
-    // Delete associated test runs
+    // Delete associated test runs and their traces
+    const runIds = await db.testRuns.where('testId').equals(id).primaryKeys();
+    await db.traces.where('runId').anyOf(runIds).delete();
     await db.testRuns.where('testId').equals(id).delete();
+    await db.fixtures.where('testId').equals(id).delete();
+    // Run screenshots and visual baselines
+    await db.screenshots.where('testId').equals(id).delete();
     // Delete the test
     await db.tests.delete(id);
   },
@@ -53,7 +59,7 @@ export const TestRepository = {
     const test = await this.getById(testId);
     if (!test) throw new Error('Test not found');
 
-    const steps = test.steps.map((s): Step => (s.id === stepId ? { ...s, ...data } as Step : s));
+    const steps = updateStepById(test.steps, stepId, data);
     await this.update(testId, { steps });
   },
 
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import type { StepTrace } from '@/types/result';
+
+export const TraceRepository = {
+  async add(trace: StepTrace): Promise<void> {
+    await db.traces.put(trace);
+  },
+
+  /**
+   * Traces of a run in the order the steps ran
+   */
+  async getByRun(runId: string): Promise<StepTrace[]> {
+    return db.traces
+      .where('[runId+order]')
+      .between([runId, -Infinity], [runId, Infinity])
+      .toArray();
+  },
+
+  async countByRun(runId: string): Promise<number> {
+    return db.traces.where('runId').equals(runId).count();
+  },
+
+  async deleteByRun(runId: string): Promise<void> {
+    await db.traces.where('runId').equals(runId).delete();
+  },
+};
@@ -2,3 +2,7 @@ export { SuiteRepository } from './SuiteRepository';
 export { TestRepository } from './TestRepository';
 export { ResultRepository } from './ResultRepository';
 export { SettingsRepository } from './SettingsRepository';
+export { FixtureRepository } from './FixtureRepository';
+export { TraceRepository } from './TraceRepository';
+export { ScreenshotRepository } from './ScreenshotRepository';
+export { StorageStateRepository } from './StorageStateRepository';
@@ -3,3 +3,5 @@
  */
 
 export * from './errors';
+export * from './steps';
+export * from './performance';
@@ -0,0 +1,92 @@
+/**
+ * Performance Utilities
+ * A run's performance samples per page visit, checked against a test's budget
+ */
+
+import type { PerformanceBudget, PerformanceMetric } from '@/types/test';
+import type { BudgetViolation, PerformanceSample } from '@/types/result';
+
+export type PerformanceFigures = Partial<Record<PerformanceMetric, number>>;
+
+export const PERFORMANCE_METRICS: { metric: PerformanceMetric; label: string; unit: 'ms' | 'score' | 'count' | 'bytes' }[] = [
+  { metric: 'ttfb', label: 'Time to first byte', unit: 'ms' },
+  { metric: 'fcp', label: 'First contentful paint', unit: 'ms' },
+  { metric: 'lcp', label: 'Largest contentful paint', unit: 'ms' },
+  { metric: 'load', label: 'Load event', unit: 'ms' },
+  { metric: 'cls', label: 'Cumulative layout shift', unit: 'score' },
+  { metric: 'inp', label: 'Interaction to next paint', unit: 'ms' },
+  { metric: 'blockingTime', label: 'Long task blocking time', unit: 'ms' },
+  { metric: 'resources', label: 'Requests', unit: 'count' },
+  { metric: 'transferSize', label: 'Transferred', unit: 'bytes' },
+];
+
+export function formatMetric(metric: PerformanceMetric, value: number): string {
+  const unit = PERFORMANCE_METRICS.find((m) => m.metric === metric)?.unit;
+  if (unit === 'ms') return value >= 1000 ? `${(value / 1000).toFixed(2)}s` : `${Math.round(value)}ms`;
+  if (unit === 'bytes') return value >= 1024 * 1024 ? `${(value / 1024 / 1024).toFixed(1)} MB` : `${Math.round(value / 1024)} KB`;
+  if (unit === 'score') return value.toFixed(3);
+  return String(Math.round(value));
+}
+
+export interface PageVisit {
+  url: string;
+  dataSetIndex: number;
+  metrics: PerformanceFigures;
+}
+
+/**
+ * Figures of every page visit: the samples of one data set taken on the same document
+ */
+export function summarizePages(samples: PerformanceSample[]): PageVisit[] {
+  const visits = new Map<string, PageVisit>();
+
+  for (const sample of samples) {
+    const key = `${sample.dataSetIndex}:${sample.pageStart}`;
+    let visit = visits.get(key);
+    if (!visit) {
+      visit = { url: sample.url, dataSetIndex: sample.dataSetIndex, metrics: { blockingTime: 0, resources: 0, transferSize: 0 } };
+      visits.set(key, visit);
+    }
+
+    const metrics = visit.metrics;
+    if (sample.navigation) {
+      metrics.ttfb = sample.navigation.ttfb;
+      metrics.fcp = sample.navigation.fcp ?? metrics.fcp;
+      if (sample.navigation.load) metrics.load = sample.navigation.load;
+    }
+    // LCP, CLS and INP cover the page so far; the latest sample has the final value
+    if (sample.lcp !== undefined) metrics.lcp = sample.lcp;
+    if (sample.inp !== undefined) metrics.inp = sample.inp;
+    metrics.cls = sample.cls;
+    metrics.blockingTime = (metrics.blockingTime ?? 0) + sample.blockingTime;
+    metrics.resources = (metrics.resources ?? 0) + sample.resources;
+    metrics.transferSize = (metrics.transferSize ?? 0) + sample.transferSize;
+  }
+
+  return Array.from(visits.values());
+}
+
+/**
+ * Worst value of every metric over the run's pages
+ */
+export function summarizeRun(samples: PerformanceSample[]): PerformanceFigures {
+  const worst: PerformanceFigures = {};
+  for (const { metrics } of summarizePages(samples)) {
+    for (const [metric, value] of Object.entries(metrics) as [PerformanceMetric, number | undefined][]) {
+      if (value !== undefined) worst[metric] = Math.max(worst[metric] ?? value, value);
+    }
+  }
+  return worst;
+}
+
+export function checkBudget(samples: PerformanceSample[], budget: PerformanceBudget): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  for (const visit of summarizePages(samples)) {
+    for (const [metric, limit] of Object.entries(budget) as [PerformanceMetric, number | undefined][]) {
+      const actual = visit.metrics[metric];
+      if (limit === undefined || actual === undefined || actual <= limit) continue;
+      violations.push({ metric, budget: limit, actual, url: visit.url, dataSetIndex: visit.dataSetIndex });
+    }
+  }
+  return violations;
+}
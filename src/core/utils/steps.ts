@@ -0,0 +1,79 @@
+/**
+ * Step Tree Utilities
+ * if/repeat/forEach steps hold nested step lists in their action
+ */
+
+import type { Step, UIStep } from '@/types/test';
+
+export function isBlockStep(step: UIStep): boolean {
+  return step.action.type === 'if' || step.action.type === 'repeat' || step.action.type === 'forEach';
+}
+
+/**
+ * Every nested step list of a block step (then and else for if)
+ */
+export function getChildStepLists(step: UIStep): UIStep[][] {
+  const action = step.action;
+  switch (action.type) {
+    case 'if':
+      return action.else ? [action.then, action.else] : [action.then];
+    case 'repeat':
+    case 'forEach':
+      return [action.steps];
+    default:
+      return [];
+  }
+}
+
+/**
+ * All steps depth-first, blocks before their nested steps
+ */
+export function flattenSteps(steps: UIStep[]): UIStep[] {
+  return steps.flatMap((step) => [step, ...getChildStepLists(step).flatMap(flattenSteps)]);
+}
+
+/**
+ * forEach items: a JSON array (non-string items are stringified) or a comma-separated list
+ */
+export function parseForEachItems(items: string): string[] {
+  const trimmed = items.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed.map((item) => (typeof item === 'string' ? item : JSON.stringify(item)));
+      }
+    } catch {
+      // Not JSON after all - treat as a plain list
+    }
+  }
+  return trimmed.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Update the step with the given id, wherever it is nested
+ */
+export function updateStepById<T extends Step>(steps: T[], id: string, data: Partial<Step>): T[] {
+  return steps.map((step): T => {
+    if (step.id === id) return { ...step, ...data } as T;
+    if (step.type !== 'ui') return step;
+
+    const action = step.action;
+    switch (action.type) {
+      case 'if':
+        return {
+          ...step,
+          action: {
+            ...action,
+            then: updateStepById(action.then, id, data),
+            else: action.else && updateStepById(action.else, id, data),
+          },
+        };
+      case 'repeat':
+      case 'forEach':
+        return { ...step, action: { ...action, steps: updateStepById(action.steps, id, data) } };
+      default:
+        return step;
+    }
+  });
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
+import type { RunProgress } from '@/types/result';
 
 export default function Popup() {
   const [isRecording, setIsRecording] = useState(false);
+  const [runProgress, setRunProgress] = useState<RunProgress | null>(null);
 
   useEffect(() => {
     // Get current recording state
@@ -10,8 +12,29 @@ export default function Popup() {
         setIsRecording(response.state.isRecording);
       }
     });
+
+    // Get the background test run, then follow its progress
+    chrome.runtime.sendMessage({ type: 'runner:get-state' }, (response) => {
+      if (response?.progress) {
+        setRunProgress(response.progress);
+      }
+    });
+
+    const handleMessage = (message: { type: string; progress?: RunProgress }) => {
+      if ((message.type === 'runner:progress' || message.type === 'runner:completed') && message.progress) {
+        setRunProgress(message.progress);
+      }
+    };
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
   }, []);
 
+  const isTestRunning = runProgress?.status === 'running' || runProgress?.status === 'stopping';
+
+  const stopTest = async () => {
+    await chrome.runtime.sendMessage({ type: 'runner:stop' });
+  };
+
   const openSidePanel = async () => {
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
     if (tab?.id) {
@@ -49,6 +72,49 @@ export default function Popup() {
         Automation Testing
       </p>
 
+      {runProgress && (
+        <div style={{
+          padding: '8px 12px',
+          background: '#343541',
+          borderRadius: 8,
+          marginBottom: 12,
+          fontSize: 12,
+          textAlign: 'left',
+        }}>
+          <div style={{ fontWeight: 500, marginBottom: 4, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {runProgress.testName}
+          </div>
+          <div style={{ color: '#8e8ea0' }}>
+            {isTestRunning
+              ? `${runProgress.status === 'stopping' ? 'Stopping' : 'Running'} · Data set ${runProgress.currentDataSet + 1}/${runProgress.totalDataSets} · Step ${runProgress.currentStep + 1}/${runProgress.total}`
+              : `Last run ${runProgress.status}`}
+            {' · '}
+            <span style={{ color: '#10a37f' }}>{runProgress.results.filter((r) => r.status === 'passed' && !r.retried).length} passed</span>
+            {' · '}
+            <span style={{ color: '#ef4444' }}>{runProgress.results.filter((r) => r.status === 'failed' && !r.retried).length} failed</span>
+          </div>
+          {isTestRunning && (
+            <button
+              onClick={stopTest}
+              disabled={runProgress.status === 'stopping'}
+              style={{
+                width: '100%',
+                marginTop: 8,
+                padding: '6px 12px',
+                background: '#ef4444',
+                color: 'white',
+                border: 'none',
+                borderRadius: 6,
+                cursor: 'pointer',
+                fontSize: 12,
+              }}
+            >
+              ⏹ Stop Test
+            </button>
+          )}
+        </div>
+      )}
+
       <button
         onClick={openSidePanel}
         style={{
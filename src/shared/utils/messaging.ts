@@ -42,7 +42,7 @@ async function ensureContentScript(tabId: number): Promise<boolean> {
   try {
     logger.log('Injecting content script into tab', tabId);
     await chrome.scripting.executeScript({
-      target: { tabId },
+      target: { tabId, allFrames: true },
       files: ['content.js'],
     });
     logger.log('Content script injection completed');
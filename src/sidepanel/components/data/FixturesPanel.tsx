@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { Paperclip, Plus, Trash2 } from 'lucide-react';
+import { FixtureRepository } from '@/core/storage/repositories';
+import type { TestFixture } from '@/types/test';
+import toast from 'react-hot-toast';
+
+interface FixturesPanelProps {
+  testId: string;
+}
+
+/**
+ * Files attached to the test for upload steps. Stored immediately,
+ * independent of saving the test.
+ */
+export function FixturesPanel({ testId }: FixturesPanelProps) {
+  const [fixtures, setFixtures] = useState<TestFixture[]>([]);
+
+  useEffect(() => {
+    FixtureRepository.getByTest(testId).then(setFixtures);
+  }, [testId]);
+
+  const handleAdd = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      for (const file of files) {
+        await FixtureRepository.add(testId, file);
+      }
+      setFixtures(await FixtureRepository.getByTest(testId));
+      toast.success(files.length === 1 ? `Attached ${files[0].name}` : `Attached ${files.length} files`);
+    } catch (error) {
+      console.error('Failed to attach fixture:', error);
+      toast.error('Failed to attach file');
+    }
+  };
+
+  const handleDelete = async (fixture: TestFixture) => {
+    await FixtureRepository.delete(fixture.id);
+    setFixtures((prev) => prev.filter((f) => f.id !== fixture.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-dark-200">Fixture Files</h3>
+        <label className="btn btn-sm btn-ghost cursor-pointer">
+          <Plus className="w-3.5 h-3.5" />
+          <span className="text-xs">Attach</span>
+          <input type="file" multiple onChange={handleAdd} className="hidden" />
+        </label>
+      </div>
+
+      {fixtures.length > 0 ? (
+        <div className="border border-dark-700 rounded-lg divide-y divide-dark-800">
+          {fixtures.map((fixture) => (
+            <div key={fixture.id} className="group flex items-center gap-2 px-3 py-2 text-sm">
+              <Paperclip className="w-3.5 h-3.5 text-dark-500 flex-shrink-0" />
+              <span className="flex-1 truncate text-dark-200 font-mono text-xs">{fixture.name}</span>
+              <span className="text-[10px] text-dark-500">{formatSize(fixture.size)}</span>
+              <button
+                onClick={() => handleDelete(fixture)}
+                className="opacity-0 group-hover:opacity-100 p-0.5 text-dark-500 hover:text-red-400 transition-opacity"
+                title="Remove fixture"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-dark-500">
+          No files attached. Upload steps pick their files from here by name.
+        </p>
+      )}
+
+      <div className="bg-dark-850/50 rounded-lg px-3 py-2 text-xs text-dark-500">
+        <strong>Tip:</strong> Put fixture names in a data column, e.g.{' '}
+        <code className="bg-dark-700 px-1 rounded text-accent">{`{{avatar}}`}</code>, to upload a different file per data set.
+      </div>
+    </div>
+  );
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
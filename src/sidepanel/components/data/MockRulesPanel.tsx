@@ -0,0 +1,182 @@
+import { Plus, Trash2, Network } from 'lucide-react';
+import type { MockRule } from '@/types/test';
+import { clsx } from 'clsx';
+
+interface MockRulesPanelProps {
+  rules: MockRule[];
+  onChange: (rules: MockRule[]) => void;
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Network rules applied while the test runs: mocked responses, blocked
+ * requests and slow APIs. Saved immediately, like the test's other run settings.
+ */
+export function MockRulesPanel({ rules, onChange }: MockRulesPanelProps) {
+  const handleAdd = () => {
+    onChange([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        enabled: true,
+        urlPattern: '',
+        action: 'mock',
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+      },
+    ]);
+  };
+
+  const handleUpdate = (id: string, data: Partial<MockRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...data } : rule)));
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(rules.filter((rule) => rule.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-dark-200">Network Mocks</h3>
+        <button onClick={handleAdd} className="btn btn-sm btn-ghost">
+          <Plus className="w-3.5 h-3.5" />
+          <span className="text-xs">Add Rule</span>
+        </button>
+      </div>
+
+      {rules.length > 0 ? (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={clsx('border border-dark-700 rounded-lg p-2 space-y-2', !rule.enabled && 'opacity-60')}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => handleUpdate(rule.id, { enabled: e.target.checked })}
+                  title="Enabled"
+                />
+                <select
+                  value={rule.method ?? ''}
+                  onChange={(e) => handleUpdate(rule.id, { method: e.target.value || undefined })}
+                  className="input input-sm w-auto py-0.5 text-xs"
+                >
+                  <option value="">Any</option>
+                  {METHODS.map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  defaultValue={rule.urlPattern}
+                  onBlur={(e) => handleUpdate(rule.id, { urlPattern: e.target.value.trim() })}
+                  placeholder="*/api/users*"
+                  className="input input-sm flex-1 min-w-0 py-0.5 font-mono text-xs"
+                />
+                <button
+                  onClick={() => handleDelete(rule.id)}
+                  className="p-0.5 text-dark-500 hover:text-red-400"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2 text-xs text-dark-400">
+                <select
+                  value={rule.action}
+                  onChange={(e) => handleUpdate(rule.id, { action: e.target.value as MockRule['action'] })}
+                  className="input input-sm w-auto py-0.5 text-xs"
+                >
+                  <option value="mock">Respond with</option>
+                  <option value="block">Block</option>
+                  <option value="delay">Delay</option>
+                </select>
+                {rule.action === 'mock' && (
+                  <input
+                    type="number"
+                    value={rule.status ?? 200}
+                    onChange={(e) =>
+                      handleUpdate(rule.id, { status: Math.min(599, Math.max(200, parseInt(e.target.value) || 200)) })
+                    }
+                    min="200"
+                    max="599"
+                    title="Status"
+                    className="input input-sm w-16 py-0.5 text-xs"
+                  />
+                )}
+                {rule.action !== 'block' && (
+                  <>
+                    <span>{rule.action === 'mock' ? 'after' : 'by'}</span>
+                    <input
+                      type="number"
+                      value={rule.delay ?? 0}
+                      onChange={(e) => handleUpdate(rule.id, { delay: Math.max(0, parseInt(e.target.value) || 0) })}
+                      min="0"
+                      step="500"
+                      title="Delay (ms)"
+                      className="input input-sm w-20 py-0.5 text-xs"
+                    />
+                    <span>ms</span>
+                  </>
+                )}
+              </div>
+
+              {rule.action === 'mock' && (
+                <>
+                  <textarea
+                    defaultValue={formatHeaders(rule.headers)}
+                    onBlur={(e) => handleUpdate(rule.id, { headers: parseHeaders(e.target.value) })}
+                    placeholder="Content-Type: application/json"
+                    rows={2}
+                    className="input input-sm w-full font-mono text-xs"
+                  />
+                  <textarea
+                    defaultValue={rule.body ?? ''}
+                    onBlur={(e) => handleUpdate(rule.id, { body: e.target.value })}
+                    placeholder='{"error": "Internal Server Error"}'
+                    rows={3}
+                    className="input input-sm w-full font-mono text-xs"
+                  />
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-dark-500">
+          No rules. Mock API responses, block third-party scripts or slow requests down while the test runs.
+        </p>
+      )}
+
+      <div className="bg-dark-850/50 rounded-lg px-3 py-2 text-xs text-dark-500 flex items-start gap-2">
+        <Network className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+        <span>
+          Patterns match anywhere in the URL and <code className="bg-dark-700 px-1 rounded text-accent">*</code> matches
+          anything. The first matching rule wins. Blocks apply to every request, responses and delays to fetch/XHR.
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function formatHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
@@ -0,0 +1,69 @@
+import { Gauge } from 'lucide-react';
+import type { PerformanceBudget, PerformanceMetric } from '@/types/test';
+import { PERFORMANCE_METRICS } from '@/core/utils';
+
+interface PerformanceBudgetPanelProps {
+  budget?: PerformanceBudget;
+  onChange: (budget: PerformanceBudget | undefined) => void;
+}
+
+// Common targets (Core Web Vitals "good" thresholds) offered as placeholders
+const SUGGESTED: Partial<Record<PerformanceMetric, number>> = {
+  ttfb: 800,
+  fcp: 1800,
+  lcp: 2500,
+  cls: 0.1,
+  inp: 200,
+  blockingTime: 200,
+};
+
+/**
+ * Limits on the pages the test visits; a run that exceeds one fails.
+ * Transfer sizes are entered in KB and stored in bytes.
+ */
+export function PerformanceBudgetPanel({ budget = {}, onChange }: PerformanceBudgetPanelProps) {
+  const handleChange = (metric: PerformanceMetric, text: string, scale: number) => {
+    const value = parseFloat(text);
+    const next = { ...budget, [metric]: Number.isFinite(value) && value >= 0 ? value * scale : undefined };
+    const hasLimits = Object.values(next).some((limit) => limit !== undefined);
+    onChange(hasLimits ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-dark-200">Performance Budget</h3>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {PERFORMANCE_METRICS.map(({ metric, label, unit }) => {
+          const scale = unit === 'bytes' ? 1024 : 1;
+          const limit = budget[metric];
+          return (
+            <label key={metric} className="block">
+              <span className="block text-[11px] text-dark-500 mb-1">
+                {label}
+                {unit === 'ms' ? ' (ms)' : unit === 'bytes' ? ' (KB)' : ''}
+              </span>
+              <input
+                type="number"
+                defaultValue={limit !== undefined ? limit / scale : ''}
+                onBlur={(e) => handleChange(metric, e.target.value, scale)}
+                min="0"
+                step={unit === 'score' ? '0.01' : '1'}
+                placeholder={SUGGESTED[metric] !== undefined ? `e.g. ${SUGGESTED[metric]}` : 'none'}
+                className="input input-sm py-0.5 text-xs"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="bg-dark-850/50 rounded-lg px-3 py-2 text-xs text-dark-500 flex items-start gap-2">
+        <Gauge className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+        <span>
+          Metrics are read from the page after every step. Blocking time, requests and transfer size add up over each
+          page; empty fields have no limit.
+        </span>
+      </div>
+    </div>
+  );
+}
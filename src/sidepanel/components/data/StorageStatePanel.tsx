@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { Cookie, Trash2 } from 'lucide-react';
+import { StorageStateRepository } from '@/core/storage/repositories';
+import type { StorageState, Test } from '@/types/test';
+import toast from 'react-hot-toast';
+
+interface StorageStatePanelProps {
+  storageState?: string;
+  clearState?: boolean;
+  onChange: (updates: Pick<Test, 'storageState' | 'clearState'>) => void;
+}
+
+/**
+ * Which saved storage state the test starts from, and whether each data set
+ * starts with the test URL's site data wiped. States are shared by all tests.
+ */
+export function StorageStatePanel({ storageState, clearState, onChange }: StorageStatePanelProps) {
+  const [states, setStates] = useState<StorageState[]>([]);
+
+  useEffect(() => {
+    StorageStateRepository.getAll().then(setStates);
+  }, []);
+
+  const handleDelete = async (state: StorageState) => {
+    try {
+      await StorageStateRepository.delete(state.id);
+      setStates((prev) => prev.filter((s) => s.id !== state.id));
+    } catch (error) {
+      console.error('Failed to delete storage state:', error);
+      toast.error('Failed to delete storage state');
+    }
+  };
+
+  const missing = storageState && !states.some((s) => s.name === storageState);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-dark-200">Storage State</h3>
+
+      <div>
+        <label className="block text-[11px] text-dark-500 mb-1">Start from</label>
+        <select
+          value={storageState ?? ''}
+          onChange={(e) => onChange({ storageState: e.target.value || undefined, clearState })}
+          className="input input-sm"
+        >
+          <option value="">Nothing (browser as is)</option>
+          {missing && <option value={storageState}>{storageState} (not saved yet)</option>}
+          {states.map((state) => (
+            <option key={state.id} value={state.name}>
+              {state.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-dark-300">
+        <input
+          type="checkbox"
+          checked={!!clearState}
+          onChange={(e) => onChange({ storageState, clearState: e.target.checked || undefined })}
+        />
+        Clear site data before each data set
+      </label>
+
+      {states.length > 0 ? (
+        <div className="border border-dark-700 rounded-lg divide-y divide-dark-800">
+          {states.map((state) => (
+            <div key={state.id} className="group flex items-center gap-2 px-3 py-2 text-sm">
+              <Cookie className="w-3.5 h-3.5 text-dark-500 flex-shrink-0" />
+              <span className="flex-1 min-w-0">
+                <span className="block truncate text-dark-200 font-mono text-xs">{state.name}</span>
+                <span className="block truncate text-[10px] text-dark-500">
+                  {state.origin} · {state.cookies.length} cookie(s) · {new Date(state.createdAt).toLocaleString()}
+                </span>
+              </span>
+              <button
+                onClick={() => handleDelete(state)}
+                className="opacity-0 group-hover:opacity-100 p-0.5 text-dark-500 hover:text-red-400 transition-opacity"
+                title="Delete storage state"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-dark-500">
+          No storage states saved. Add a Save State step after a test's login steps to save one.
+        </p>
+      )}
+
+      <div className="bg-dark-850/50 rounded-lg px-3 py-2 text-xs text-dark-500">
+        Cookies are set before the test URL opens; local and session storage are written once it has loaded, and the
+        page is reloaded. Clearing removes cookies, storage, caches and service workers of the test URL's site.
+      </div>
+    </div>
+  );
+}
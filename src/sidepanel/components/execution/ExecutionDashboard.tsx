@@ -3,6 +3,7 @@ import {
   Square,
   CheckCircle,
   XCircle,
+  MinusCircle,
   Loader2,
   Clock,
   ChevronRight,
@@ -13,36 +14,43 @@ import {
   Navigation,
   List,
   Eye,
+  Pointer,
+  Move,
+  Paperclip,
+  MessageSquare,
+  Keyboard,
+  RotateCw,
+  ArrowLeft,
+  ArrowRight,
+  Camera,
+  Accessibility,
+  Cookie,
+  Gauge,
+  AppWindow,
+  ArrowLeftRight,
+  SquareX,
+  GitBranch,
+  Repeat,
+  ListOrdered,
+  Variable,
+  Code,
+  RotateCcw,
+  Globe,
+  Download,
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import type { UIStep, ScenarioType } from '@/types/test';
-import type { AIValidationData } from '@/types/validation';
-
-interface StepResult {
-  dataSetIndex: number;
-  stepId: string;
-  status: 'passed' | 'failed';
-  error?: string;
-  duration?: number;
-  pageResponse?: string;
-  aiValidation?: AIValidationData;
-}
-
-interface ExecutionProgress {
-  currentStep: number;
-  total: number;
-  currentDataSet: number;
-  totalDataSets: number;
-  currentStepId: string | null;
-  results: StepResult[];
-}
+import type { RunProgress } from '@/types/result';
+import { HARExportService } from '@/core/services/HARExportService';
+import { PERFORMANCE_METRICS, formatMetric } from '@/core/utils';
+import { NetworkList } from './NetworkList';
 
 interface ExecutionDashboardProps {
   testName: string;
   steps: UIStep[];
   dataSets: Record<string, string>[];
   dataSetScenarios?: ScenarioType[];
-  progress: ExecutionProgress | null;
+  progress: RunProgress | null;
   isRunning: boolean;
   onStop?: () => void;
   onAnalyzeFailure?: (step: UIStep, error: string) => void;
@@ -67,12 +75,14 @@ export function ExecutionDashboard({
   onAnalyzeFailure,
 }: ExecutionDashboardProps) {
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [startTime] = useState(() => Date.now());
+  // The run may have started in the background before this view mounted
+  const startTime = progress?.startedAt ?? 0;
   const [expandedError, setExpandedError] = useState<string | null>(null);
+  const [expandedNetwork, setExpandedNetwork] = useState<string | null>(null);
 
   // Update elapsed time every second
   useEffect(() => {
-    if (!isRunning) return;
+    if (!isRunning || !startTime) return;
 
     const interval = setInterval(() => {
       setElapsedTime(Math.floor((Date.now() - startTime) / 1000));
@@ -83,14 +93,19 @@ export function ExecutionDashboard({
 
   if (!progress) return null;
 
-  const passedCount = progress.results.filter((r) => r.status === 'passed').length;
-  const failedCount = progress.results.filter((r) => r.status === 'failed').length;
+  // Retried attempts stay in the results but don't count as outcomes
+  const outcomes = progress.results.filter((r) => !r.retried);
+  const passedCount = outcomes.filter((r) => r.status === 'passed').length;
+  const failedCount = outcomes.filter((r) => r.status === 'failed').length;
+  const retriedCount = progress.results.length - outcomes.length;
+  const budgetViolations = progress.budgetViolations ?? [];
+  const failed = failedCount > 0 || budgetViolations.length > 0;
   const totalSteps = steps.length * dataSets.length;
-  const completedSteps = progress.results.length;
+  const completedSteps = outcomes.length;
   const progressPercent = (completedSteps / totalSteps) * 100;
 
   // Get step results for current data set
-  const currentDataSetResults = progress.results.filter(
+  const currentDataSetResults = outcomes.filter(
     (r) => r.dataSetIndex === progress.currentDataSet
   );
 
@@ -116,6 +131,44 @@ export function ExecutionDashboard({
       case 'waitForElement':
       case 'waitTime':
         return Clock;
+      case 'hover':
+        return Pointer;
+      case 'drag':
+        return Move;
+      case 'upload':
+        return Paperclip;
+      case 'dialog':
+        return MessageSquare;
+      case 'press':
+        return Keyboard;
+      case 'extract':
+        return Variable;
+      case 'script':
+        return Code;
+      case 'reload':
+        return RotateCw;
+      case 'goBack':
+        return ArrowLeft;
+      case 'goForward':
+        return ArrowRight;
+      case 'waitForPopup':
+        return AppWindow;
+      case 'switchTab':
+        return ArrowLeftRight;
+      case 'closeTab':
+        return SquareX;
+      case 'if':
+        return GitBranch;
+      case 'repeat':
+        return Repeat;
+      case 'forEach':
+        return ListOrdered;
+      case 'screenshot':
+        return Camera;
+      case 'a11yAudit':
+        return Accessibility;
+      case 'saveStorageState':
+        return Cookie;
       default:
         return Eye;
     }
@@ -142,7 +195,7 @@ export function ExecutionDashboard({
             <div className="w-8 h-8 rounded-full bg-accent/20 flex items-center justify-center">
               <Loader2 className="w-4 h-4 text-accent animate-spin" />
             </div>
-          ) : failedCount > 0 ? (
+          ) : failed ? (
             <div className="w-8 h-8 rounded-full bg-red-500/20 flex items-center justify-center">
               <XCircle className="w-4 h-4 text-red-400" />
             </div>
@@ -153,7 +206,7 @@ export function ExecutionDashboard({
           )}
           <div>
             <h3 className="text-sm font-medium text-dark-100">
-              {isRunning ? 'Running' : failedCount > 0 ? 'Failed' : 'Completed'}: {testName}
+              {isRunning ? 'Running' : failed ? 'Failed' : 'Completed'}: {testName}
             </h3>
             <p className="text-xs text-dark-500">
               Data Set {progress.currentDataSet + 1}/{progress.totalDataSets}
@@ -199,6 +252,29 @@ export function ExecutionDashboard({
         </div>
       </div>
 
+      {/* Performance budget, checked once the run completed */}
+      {budgetViolations.length > 0 && (
+        <div className="px-4 py-2 border-b border-dark-700/50 space-y-1">
+          <div className="flex items-center gap-1.5 text-xs text-red-400">
+            <Gauge className="w-3.5 h-3.5" />
+            Performance budget exceeded
+          </div>
+          {budgetViolations.map((violation, i) => (
+            <div key={i} className="flex items-center gap-2 text-[11px]">
+              <span className="text-dark-300">
+                {PERFORMANCE_METRICS.find((m) => m.metric === violation.metric)?.label ?? violation.metric}
+              </span>
+              <span className="font-mono text-red-400">{formatMetric(violation.metric, violation.actual)}</span>
+              <span className="text-dark-500">/ {formatMetric(violation.metric, violation.budget)}</span>
+              <span className="flex-1 min-w-0 truncate text-dark-500" title={violation.url}>
+                {dataSets.length > 1 && `Data set ${violation.dataSetIndex + 1} · `}
+                {violation.url}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Step Timeline */}
       <div className="p-4 max-h-64 overflow-auto">
         <div className="space-y-1">
@@ -215,7 +291,7 @@ export function ExecutionDashboard({
                     status === 'running' && 'bg-blue-500/10 border border-blue-500/30',
                     status === 'passed' && 'bg-green-500/5',
                     status === 'failed' && 'bg-red-500/5',
-                    status === 'pending' && 'opacity-50'
+                    (status === 'pending' || status === 'skipped') && 'opacity-50'
                   )}
                 >
                   {/* Status Icon */}
@@ -228,6 +304,7 @@ export function ExecutionDashboard({
                     {status === 'pending' && (
                       <div className="w-2 h-2 rounded-full bg-dark-600" />
                     )}
+                    {status === 'skipped' && <MinusCircle className="w-4 h-4 text-dark-500" />}
                   </div>
 
                   {/* Step Number */}
@@ -267,6 +344,28 @@ export function ExecutionDashboard({
                     {step.name}
                   </span>
 
+                  {/* Attempt that produced the result, once retried */}
+                  {result?.attempt && (
+                    <span className="text-[10px] text-amber-400">attempt {result.attempt}</span>
+                  )}
+
+                  {/* Requests the step made */}
+                  {result?.network && result.network.length > 0 && (
+                    <button
+                      onClick={() =>
+                        setExpandedNetwork(expandedNetwork === step.id ? null : step.id)
+                      }
+                      className={clsx(
+                        'flex items-center gap-1 px-1 rounded text-[10px] hover:bg-dark-700 transition-colors',
+                        result.network.some((r) => r.status === 0 || r.status >= 400) ? 'text-red-400' : 'text-dark-500'
+                      )}
+                      title="Network requests"
+                    >
+                      <Globe className="w-3 h-3" />
+                      {result.network.length}
+                    </button>
+                  )}
+
                   {/* Duration */}
                   {result?.duration && (
                     <span className="text-[10px] text-dark-500 font-mono">
@@ -294,6 +393,13 @@ export function ExecutionDashboard({
                   )}
                 </div>
 
+                {/* Expanded Network */}
+                {expandedNetwork === step.id && result?.network && (
+                  <div className="ml-10 mt-1 p-2 bg-dark-800/50 rounded border border-dark-700 animate-fade-in">
+                    <NetworkList entries={result.network} />
+                  </div>
+                )}
+
                 {/* Expanded Error */}
                 {expandedError === step.id && result?.error && (
                   <div className="ml-10 mt-1 p-2 bg-red-500/10 rounded border border-red-500/20 animate-fade-in">
@@ -336,11 +442,29 @@ export function ExecutionDashboard({
             <XCircle className="w-3.5 h-3.5" />
             {failedCount} failed
           </span>
+          {retriedCount > 0 && (
+            <span className="flex items-center gap-1.5 text-amber-400">
+              <RotateCcw className="w-3.5 h-3.5" />
+              {retriedCount} retried
+            </span>
+          )}
         </div>
         {!isRunning && (
-          <span className="text-xs text-dark-500">
-            {passedCount}/{completedSteps} steps succeeded
-          </span>
+          <div className="flex items-center gap-3">
+            {HARExportService.hasNetwork(progress.results) && (
+              <button
+                onClick={() => HARExportService.download(testName, steps, progress.results)}
+                className="flex items-center gap-1 text-xs text-dark-400 hover:text-dark-200 transition-colors"
+                title="Download the run's requests as a HAR file"
+              >
+                <Download className="w-3.5 h-3.5" />
+                HAR
+              </button>
+            )}
+            <span className="text-xs text-dark-500">
+              {passedCount}/{completedSteps} steps succeeded
+            </span>
+          </div>
         )}
       </div>
     </div>
@@ -356,13 +480,13 @@ export function ExecutionIndicator({
   onClick,
 }: {
   isRunning: boolean;
-  progress: ExecutionProgress | null;
+  progress: RunProgress | null;
   onClick?: () => void;
 }) {
   if (!isRunning || !progress) return null;
 
-  const passedCount = progress.results.filter((r) => r.status === 'passed').length;
-  const failedCount = progress.results.filter((r) => r.status === 'failed').length;
+  const passedCount = progress.results.filter((r) => r.status === 'passed' && !r.retried).length;
+  const failedCount = progress.results.filter((r) => r.status === 'failed' && !r.retried).length;
 
   return (
     <button
@@ -0,0 +1,53 @@
+import type { NetworkEntry } from '@/types/result';
+import { clsx } from 'clsx';
+
+interface NetworkListProps {
+  entries: NetworkEntry[];
+}
+
+/**
+ * Requests a step made: method, status, path, time and size per row
+ */
+export function NetworkList({ entries }: NetworkListProps) {
+  return (
+    <div className="space-y-0.5 text-[11px] font-mono">
+      {entries.map((entry, i) => (
+        <div key={i} className="flex items-center gap-2" title={entry.error ? `${entry.url}\n${entry.error}` : entry.url}>
+          <span className="w-10 flex-shrink-0 text-dark-400">{entry.method}</span>
+          <span className={clsx('w-8 flex-shrink-0', getStatusColor(entry))}>
+            {entry.status || 'ERR'}
+          </span>
+          <span className="flex-1 min-w-0 truncate text-dark-300">
+            {entry.type === 'document' && <span className="text-dark-500">doc </span>}
+            {getPath(entry.url)}
+          </span>
+          <span className="flex-shrink-0 text-dark-500">{entry.duration}ms</span>
+          <span className="w-14 flex-shrink-0 text-right text-dark-500">
+            {entry.fromCache ? 'cache' : entry.size !== undefined ? formatSize(entry.size) : '—'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function getStatusColor(entry: NetworkEntry): string {
+  if (entry.status === 0 || entry.status >= 400) return 'text-red-400';
+  if (entry.status >= 300) return 'text-blue-400';
+  return 'text-green-400';
+}
+
+function getPath(url: string): string {
+  try {
+    const { pathname, search } = new URL(url);
+    return pathname + search;
+  } catch {
+    return url;
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
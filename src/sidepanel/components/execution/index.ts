@@ -1 +1,2 @@
 export { ExecutionDashboard, ExecutionIndicator } from './ExecutionDashboard';
+export { NetworkList } from './NetworkList';
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { X, Gauge } from 'lucide-react';
+import { ResultRepository } from '@/core/storage/repositories';
+import { PERFORMANCE_METRICS, formatMetric, summarizeRun, type PerformanceFigures } from '@/core/utils';
+import type { PerformanceBudget, PerformanceMetric } from '@/types/test';
+import { clsx } from 'clsx';
+
+interface PerformanceTrendsProps {
+  testId: string;
+  budget?: PerformanceBudget;
+  onClose: () => void;
+}
+
+interface RunPoint {
+  runId: string;
+  startedAt: number;
+  figures: PerformanceFigures;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 60;
+
+/**
+ * Every metric's worst page per run across the test's recent runs, with the
+ * budget drawn as a dashed line
+ */
+export function PerformanceTrends({ testId, budget, onClose }: PerformanceTrendsProps) {
+  const [points, setPoints] = useState<RunPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    ResultRepository.getPerformanceHistory(testId).then((runs) => {
+      setPoints(runs.map((run) => ({ runId: run.id, startedAt: run.startedAt, figures: summarizeRun(run.performance ?? []) })));
+      setIsLoading(false);
+    });
+  }, [testId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const charts = PERFORMANCE_METRICS.filter(({ metric }) => points.some((p) => p.figures[metric] !== undefined));
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-dark-900 animate-fade-in">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-dark-700 flex items-center justify-between">
+        <h2 className="font-semibold text-dark-100 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-accent" />
+          Performance Trends
+          {points.length > 0 && <span className="text-xs font-normal text-dark-500">last {points.length} runs</span>}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-dark-400 hover:text-dark-200 hover:bg-dark-800 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin w-6 h-6 border-2 border-accent border-t-transparent rounded-full" />
+        </div>
+      ) : charts.length === 0 ? (
+        <div className="text-center py-12 text-dark-500">
+          <Gauge className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No performance data yet</p>
+          <p className="text-sm mt-1">Metrics are recorded on every run of this test</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {charts.map(({ metric, label }) => (
+            <MetricChart key={metric} metric={metric} label={label} points={points} limit={budget?.[metric]} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MetricChart({
+  metric,
+  label,
+  points,
+  limit,
+}: {
+  metric: PerformanceMetric;
+  label: string;
+  points: RunPoint[];
+  limit?: number;
+}) {
+  const values = points
+    .map((point, index) => ({ point, index, value: point.figures[metric] }))
+    .filter((entry): entry is { point: RunPoint; index: number; value: number } => entry.value !== undefined);
+  const latest = values[values.length - 1];
+  const max = Math.max(...values.map((v) => v.value), limit ?? 0) * 1.1 || 1;
+
+  const x = (index: number) => (points.length > 1 ? (index / (points.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+  const overBudget = (value: number) => limit !== undefined && value > limit;
+
+  return (
+    <div className="border border-dark-700 rounded-lg p-3">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-xs text-dark-300">{label}</span>
+        <span className="text-xs text-dark-500">
+          {latest && (
+            <span className={clsx('font-mono', overBudget(latest.value) ? 'text-red-400' : 'text-dark-100')}>
+              {formatMetric(metric, latest.value)}
+            </span>
+          )}
+          {limit !== undefined && ` / budget ${formatMetric(metric, limit)}`}
+        </span>
+      </div>
+      <svg viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`} className="w-full">
+        {limit !== undefined && (
+          <line
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={y(limit)}
+            y2={y(limit)}
+            className="stroke-red-400/60"
+            strokeDasharray="4 3"
+          />
+        )}
+        <polyline
+          points={values.map((v) => `${x(v.index)},${y(v.value)}`).join(' ')}
+          fill="none"
+          className="stroke-accent"
+          strokeWidth={1.5}
+        />
+        {values.map((v) => (
+          <circle
+            key={v.point.runId}
+            cx={x(v.index)}
+            cy={y(v.value)}
+            r={2.5}
+            className={overBudget(v.value) ? 'fill-red-400' : 'fill-accent'}
+          >
+            <title>{`${new Date(v.point.startedAt).toLocaleString()}: ${formatMetric(metric, v.value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
-import { CheckCircle, XCircle, Clock, AlertCircle, History } from 'lucide-react';
-import { ResultRepository } from '@/core/storage/repositories';
+import { CheckCircle, XCircle, Clock, AlertCircle, History, Footprints, Download, ScanEye } from 'lucide-react';
+import { ResultRepository, ScreenshotRepository, TraceRepository } from '@/core/storage/repositories';
 import type { TestRun } from '@/types/result';
 import { clsx } from 'clsx';
+import { TraceViewer } from './TraceViewer';
+import { VisualReview } from './VisualReview';
+import { HARExportService } from '@/core/services/HARExportService';
 
 const statusIcons = {
   passed: CheckCircle,
@@ -23,11 +26,21 @@ const statusColors = {
 export function ResultsList() {
   const [results, setResults] = useState<TestRun[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [tracedRunIds, setTracedRunIds] = useState<Set<string>>(new Set());
+  const [traceRunId, setTraceRunId] = useState<string | null>(null);
+  const [visualRunIds, setVisualRunIds] = useState<Set<string>>(new Set());
+  const [reviewRunId, setReviewRunId] = useState<string | null>(null);
 
   useEffect(() => {
-    ResultRepository.getRecent(50).then((data) => {
+    ResultRepository.getRecent(50).then(async (data) => {
       setResults(data);
       setIsLoading(false);
+
+      const counts = await Promise.all(data.map((run) => TraceRepository.countByRun(run.id)));
+      setTracedRunIds(new Set(data.filter((_, i) => counts[i] > 0).map((run) => run.id)));
+
+      const screenshotCounts = await Promise.all(data.map((run) => ScreenshotRepository.countByRun(run.id)));
+      setVisualRunIds(new Set(data.filter((_, i) => screenshotCounts[i] > 0).map((run) => run.id)));
     });
   }, []);
 
@@ -87,19 +100,58 @@ export function ResultsList() {
                     {(run.summary.duration / 1000).toFixed(1)}s
                   </div>
                 </div>
+                {HARExportService.hasNetwork(run.stepResults) && (
+                  <button
+                    onClick={() =>
+                      HARExportService.download(`qaerx-run-${new Date(run.startedAt).toISOString()}`, [], run.stepResults)
+                    }
+                    className="p-1.5 text-dark-400 hover:text-accent hover:bg-dark-800 rounded-lg transition-colors"
+                    title="Download requests as HAR"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+                {tracedRunIds.has(run.id) && (
+                  <button
+                    onClick={() => setTraceRunId(run.id)}
+                    className="p-1.5 text-dark-400 hover:text-accent hover:bg-dark-800 rounded-lg transition-colors"
+                    title="View trace"
+                  >
+                    <Footprints className="w-4 h-4" />
+                  </button>
+                )}
+                {visualRunIds.has(run.id) && (
+                  <button
+                    onClick={() => setReviewRunId(run.id)}
+                    className="p-1.5 text-dark-400 hover:text-accent hover:bg-dark-800 rounded-lg transition-colors"
+                    title="Review screenshots"
+                  >
+                    <ScanEye className="w-4 h-4" />
+                  </button>
+                )}
               </div>
 
-              {run.summary.failedSteps > 0 && (
-                <div className="mt-2 pt-2 border-t border-dark-700">
-                  <div className="text-xs text-status-fail">
-                    {run.summary.failedSteps} step{run.summary.failedSteps !== 1 ? 's' : ''} failed
-                  </div>
+              {(run.summary.failedSteps > 0 || !!run.summary.retriedSteps) && (
+                <div className="mt-2 pt-2 border-t border-dark-700 space-y-0.5">
+                  {run.summary.failedSteps > 0 && (
+                    <div className="text-xs text-status-fail">
+                      {run.summary.failedSteps} step{run.summary.failedSteps !== 1 ? 's' : ''} failed
+                    </div>
+                  )}
+                  {!!run.summary.retriedSteps && (
+                    <div className="text-xs text-amber-400">
+                      {run.summary.retriedSteps} failed attempt{run.summary.retriedSteps !== 1 ? 's' : ''} retried (flaky)
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           );
         })}
       </div>
+
+      {traceRunId && <TraceViewer runId={traceRunId} onClose={() => setTraceRunId(null)} />}
+      {reviewRunId && <VisualReview runId={reviewRunId} onClose={() => setReviewRunId(null)} />}
     </div>
   );
 }
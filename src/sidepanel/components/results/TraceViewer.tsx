@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import { X, ChevronLeft, ChevronRight, CheckCircle, XCircle, Footprints, ImageOff } from 'lucide-react';
+import { TraceRepository } from '@/core/storage/repositories';
+import { SNAPSHOT_SCROLL_ATTRIBUTE, type StepTrace, type TraceFrame } from '@/types/result';
+import { clsx } from 'clsx';
+
+interface TraceViewerProps {
+  runId: string;
+  onClose: () => void;
+}
+
+type FrameSide = 'before' | 'after';
+type FrameView = 'screenshot' | 'dom';
+
+/**
+ * Step through a run's traces: the page before and after each step as a
+ * screenshot or a live (script-free) DOM snapshot, with URL and variable changes
+ */
+export function TraceViewer({ runId, onClose }: TraceViewerProps) {
+  const [traces, setTraces] = useState<StepTrace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [side, setSide] = useState<FrameSide>('after');
+  const [view, setView] = useState<FrameView>('screenshot');
+
+  useEffect(() => {
+    TraceRepository.getByRun(runId).then((data) => {
+      setTraces(data);
+      setIsLoading(false);
+    });
+  }, [runId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') setIndex((i) => Math.max(0, i - 1));
+      if (e.key === 'ArrowRight') setIndex((i) => Math.min(traces.length - 1, i + 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [traces.length, onClose]);
+
+  const trace = traces[index];
+  const frame = trace?.[side];
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-dark-900 animate-fade-in">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-dark-700 flex items-center justify-between">
+        <h2 className="font-semibold text-dark-100 flex items-center gap-2">
+          <Footprints className="w-4 h-4 text-accent" />
+          Trace
+          {traces.length > 0 && (
+            <span className="text-xs font-normal text-dark-500">
+              step {index + 1} of {traces.length}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-dark-400 hover:text-dark-200 hover:bg-dark-800 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin w-6 h-6 border-2 border-accent border-t-transparent rounded-full" />
+        </div>
+      ) : !trace || !frame ? (
+        <div className="text-center py-12 text-dark-500">
+          <Footprints className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No trace was recorded for this run</p>
+          <p className="text-sm mt-1">Turn on step traces in Settings before running</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {/* Scrubber */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIndex(index - 1)}
+              disabled={index === 0}
+              className="btn btn-sm btn-ghost p-1"
+              title="Previous step"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={traces.length - 1}
+              value={index}
+              onChange={(e) => setIndex(parseInt(e.target.value))}
+              className="flex-1 accent-accent"
+            />
+            <button
+              onClick={() => setIndex(index + 1)}
+              disabled={index === traces.length - 1}
+              className="btn btn-sm btn-ghost p-1"
+              title="Next step"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Step */}
+          <div className="flex items-start gap-2">
+            {trace.status === 'passed' ? (
+              <CheckCircle className="w-4 h-4 text-status-pass mt-0.5 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-4 h-4 text-status-fail mt-0.5 flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <div className="text-sm text-dark-100">{trace.stepName}</div>
+              <div className="text-xs text-dark-500">
+                Data set {trace.dataSetIndex + 1}
+                {trace.attempt !== undefined && ` · attempt ${trace.attempt}`}
+                {` · ${((trace.after.timestamp - trace.before.timestamp) / 1000).toFixed(1)}s`}
+              </div>
+              {trace.error && <div className="text-xs text-status-fail mt-1 break-words">{trace.error}</div>}
+            </div>
+          </div>
+
+          {/* Frame */}
+          <div className="flex items-center justify-between">
+            <Toggle
+              options={[['before', 'Before'], ['after', 'After']]}
+              value={side}
+              onChange={setSide}
+            />
+            <Toggle
+              options={[['screenshot', 'Screenshot'], ['dom', 'DOM']]}
+              value={view}
+              onChange={setView}
+            />
+          </div>
+
+          <FramePreview frame={frame} view={view} />
+
+          <div className="text-xs space-y-1">
+            <div className="text-dark-400 truncate" title={frame.url}>
+              <span className="text-dark-500">URL </span>
+              {frame.url || '—'}
+            </div>
+            {trace.before.url !== trace.after.url && (
+              <div className="text-amber-400">
+                Navigated {side === 'before' ? 'to' : 'from'} {side === 'before' ? trace.after.url : trace.before.url}
+              </div>
+            )}
+          </div>
+
+          <VariablesDiff before={trace.before.variables} after={trace.after.variables} />
+
+          {/* All steps */}
+          <div className="border border-dark-700 rounded-lg divide-y divide-dark-800">
+            {traces.map((t, i) => (
+              <button
+                key={t.id}
+                onClick={() => setIndex(i)}
+                className={clsx(
+                  'w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs',
+                  i === index ? 'bg-accent/10 text-dark-100' : 'text-dark-400 hover:bg-dark-800'
+                )}
+              >
+                {t.status === 'passed' ? (
+                  <CheckCircle className="w-3 h-3 text-status-pass flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-3 h-3 text-status-fail flex-shrink-0" />
+                )}
+                <span className="flex-1 truncate">{t.stepName}</span>
+                {traces.some((other) => other.dataSetIndex !== t.dataSetIndex) && (
+                  <span className="text-[10px] text-dark-500">#{t.dataSetIndex + 1}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Toggle<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: [T, string][];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex rounded-lg border border-dark-700 overflow-hidden text-xs">
+      {options.map(([option, label]) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={clsx(
+            'px-2.5 py-1',
+            value === option ? 'bg-accent/20 text-accent' : 'text-dark-400 hover:bg-dark-800'
+          )}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function FramePreview({ frame, view }: { frame: TraceFrame; view: FrameView }) {
+  // Scripts are stripped from snapshots and blocked by the sandbox; same-origin
+  // only lets us restore the scroll position
+  const handleLoad = (e: React.SyntheticEvent<HTMLIFrameElement>) => {
+    const doc = e.currentTarget.contentDocument;
+    const [x, y] = (doc?.documentElement.getAttribute(SNAPSHOT_SCROLL_ATTRIBUTE) ?? '').split(',').map(Number);
+    if (doc && !isNaN(x) && !isNaN(y)) {
+      doc.defaultView?.scrollTo(x, y);
+    }
+  };
+
+  const missing = view === 'screenshot' ? !frame.screenshot : !frame.dom;
+  if (missing) {
+    return (
+      <div className="h-48 flex flex-col items-center justify-center gap-1 rounded-lg border border-dark-700 text-xs text-dark-500">
+        <ImageOff className="w-5 h-5 opacity-50" />
+        {view === 'screenshot' ? 'No screenshot for this frame' : 'The page could not be read for this frame'}
+      </div>
+    );
+  }
+
+  return view === 'screenshot' ? (
+    <img src={frame.screenshot} alt="Page screenshot" className="w-full rounded-lg border border-dark-700" />
+  ) : (
+    <iframe
+      srcDoc={frame.dom}
+      sandbox="allow-same-origin"
+      onLoad={handleLoad}
+      title="DOM snapshot"
+      className="w-full h-96 rounded-lg border border-dark-700 bg-white"
+    />
+  );
+}
+
+function VariablesDiff({ before, after }: { before: Record<string, string>; after: Record<string, string> }) {
+  const names = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  if (names.length === 0) return null;
+
+  return (
+    <div className="border border-dark-700 rounded-lg divide-y divide-dark-800 text-xs font-mono">
+      {names.map((name) => {
+        const changed = before[name] !== after[name];
+        return (
+          <div key={name} className={clsx('flex gap-2 px-3 py-1', changed && 'bg-amber-500/10')}>
+            <span className="text-accent flex-shrink-0">{`{{${name}}}`}</span>
+            <span className="flex-1 min-w-0 truncate text-dark-300" title={after[name]}>
+              {changed && before[name] !== undefined && (
+                <span className="text-dark-500 line-through mr-1">{before[name]}</span>
+              )}
+              {after[name] ?? <span className="text-dark-500 italic">unset</span>}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
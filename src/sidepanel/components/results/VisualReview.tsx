@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { X, ChevronLeft, ChevronRight, ScanEye, ImageOff, BadgeCheck } from 'lucide-react';
+import { ScreenshotRepository } from '@/core/storage/repositories';
+import type { ScreenshotRecord } from '@/types/settings';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+interface VisualReviewProps {
+  runId: string;
+  onClose: () => void;
+}
+
+type ImageView = 'baseline' | 'actual' | 'diff';
+
+interface ReviewItem {
+  screenshot: ScreenshotRecord;
+  baseline?: ScreenshotRecord; // Missing once a newer baseline replaced it
+  approved: boolean;
+}
+
+/**
+ * Review the screenshots a run took or compared against visual baselines and
+ * approve the ones whose change is intended as the step's new baseline
+ */
+export function VisualReview({ runId, onClose }: VisualReviewProps) {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApproving, setIsApproving] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [view, setView] = useState<ImageView>('diff');
+
+  useEffect(() => {
+    ScreenshotRepository.getByRun(runId).then(async (screenshots) => {
+      const loaded = await Promise.all(
+        screenshots.map(async (screenshot): Promise<ReviewItem> => {
+          const [baseline, current] = await Promise.all([
+            screenshot.diff ? ScreenshotRepository.getById(screenshot.diff.baselineId) : undefined,
+            ScreenshotRepository.getBaseline(screenshot.testId, screenshot.stepId, screenshot.dataSetIndex),
+          ]);
+          return { screenshot, baseline, approved: current?.sourceId === screenshot.id };
+        })
+      );
+      setItems(loaded);
+      setIsLoading(false);
+    });
+  }, [runId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') setIndex((i) => Math.max(0, i - 1));
+      if (e.key === 'ArrowRight') setIndex((i) => Math.min(items.length - 1, i + 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [items.length, onClose]);
+
+  const item = items[index];
+
+  const handleApprove = async () => {
+    if (!item) return;
+    setIsApproving(true);
+    try {
+      await ScreenshotRepository.approve(item.screenshot.id);
+      // A step has one baseline; approving replaces any other approval of it
+      setItems((prev) =>
+        prev.map((other) =>
+          other.screenshot.testId === item.screenshot.testId &&
+          other.screenshot.stepId === item.screenshot.stepId &&
+          (other.screenshot.dataSetIndex ?? 0) === (item.screenshot.dataSetIndex ?? 0)
+            ? { ...other, approved: other.screenshot.id === item.screenshot.id }
+            : other
+        )
+      );
+      toast.success('Baseline updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve baseline');
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  const imageUrl = item
+    ? view === 'baseline'
+      ? item.baseline?.dataUrl
+      : view === 'actual'
+        ? item.screenshot.dataUrl
+        : item.screenshot.diff?.diffImageDataUrl
+    : undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-dark-900 animate-fade-in">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-dark-700 flex items-center justify-between">
+        <h2 className="font-semibold text-dark-100 flex items-center gap-2">
+          <ScanEye className="w-4 h-4 text-accent" />
+          Visual Review
+          {items.length > 0 && (
+            <span className="text-xs font-normal text-dark-500">
+              {index + 1} of {items.length}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-dark-400 hover:text-dark-200 hover:bg-dark-800 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin w-6 h-6 border-2 border-accent border-t-transparent rounded-full" />
+        </div>
+      ) : !item ? (
+        <div className="text-center py-12 text-dark-500">
+          <ScanEye className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No screenshots were taken in this run</p>
+          <p className="text-sm mt-1">Add a screenshot step or a visual assertion to compare pages with a baseline</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {/* Screenshot */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIndex(index - 1)}
+              disabled={index === 0}
+              className="btn btn-sm btn-ghost p-1"
+              title="Previous screenshot"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-dark-100 truncate">{item.screenshot.name ?? item.screenshot.stepId}</div>
+              <div className="text-xs text-dark-500">
+                Data set {(item.screenshot.dataSetIndex ?? 0) + 1}
+                {item.screenshot.diff && (
+                  <span className={clsx(item.screenshot.diff.diffPercentage > 0 && 'text-amber-400')}>
+                    {` · ${item.screenshot.diff.diffPercentage}% different`}
+                  </span>
+                )}
+              </div>
+            </div>
+            <button
+              onClick={() => setIndex(index + 1)}
+              disabled={index === items.length - 1}
+              className="btn btn-sm btn-ghost p-1"
+              title="Next screenshot"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex rounded-lg border border-dark-700 overflow-hidden text-xs">
+              {([['baseline', 'Baseline'], ['actual', 'Actual'], ['diff', 'Diff']] as [ImageView, string][]).map(
+                ([option, label]) => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={clsx(
+                      'px-2.5 py-1',
+                      view === option ? 'bg-accent/20 text-accent' : 'text-dark-400 hover:bg-dark-800'
+                    )}
+                  >
+                    {label}
+                  </button>
+                )
+              )}
+            </div>
+            {item.approved ? (
+              <span className="flex items-center gap-1 text-xs text-status-pass">
+                <BadgeCheck className="w-3.5 h-3.5" />
+                Approved as baseline
+              </span>
+            ) : (
+              <button onClick={handleApprove} disabled={isApproving} className="btn btn-sm btn-primary">
+                <BadgeCheck className="w-3.5 h-3.5" />
+                Approve
+              </button>
+            )}
+          </div>
+
+          {imageUrl ? (
+            <img src={imageUrl} alt={`${view} screenshot`} className="w-full rounded-lg border border-dark-700" />
+          ) : (
+            <div className="h-48 flex flex-col items-center justify-center gap-1 rounded-lg border border-dark-700 text-xs text-dark-500">
+              <ImageOff className="w-5 h-5 opacity-50" />
+              {!item.screenshot.diff ? 'Not compared with a baseline' : 'This baseline has since been replaced'}
+            </div>
+          )}
+
+          {view === 'diff' && (
+            <div className="text-xs text-dark-500">
+              <span className="text-red-400">Red</span> pixels differ, <span className="text-fuchsia-400">magenta</span>{' '}
+              ones exist in only one image and <span className="text-amber-400">yellow</span> regions are ignored.
+            </div>
+          )}
+
+          {/* All screenshots */}
+          <div className="border border-dark-700 rounded-lg divide-y divide-dark-800">
+            {items.map((other, i) => (
+              <button
+                key={other.screenshot.id}
+                onClick={() => setIndex(i)}
+                className={clsx(
+                  'w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs',
+                  i === index ? 'bg-accent/10 text-dark-100' : 'text-dark-400 hover:bg-dark-800'
+                )}
+              >
+                <span className="flex-1 truncate">{other.screenshot.name ?? other.screenshot.stepId}</span>
+                {other.approved && <BadgeCheck className="w-3 h-3 text-status-pass flex-shrink-0" />}
+                <span
+                  className={clsx(
+                    'text-[10px]',
+                    other.screenshot.diff?.diffPercentage ? 'text-amber-400' : 'text-dark-500'
+                  )}
+                >
+                  {other.screenshot.diff ? `${other.screenshot.diff.diffPercentage}%` : '—'}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Key, Trash2, Info } from 'lucide-react';
+import { Key, Trash2, Info, Wand2, Footprints } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
 import { SettingsRepository } from '@/core/storage/repositories';
 import { db } from '@/core/storage/db';
@@ -39,6 +39,24 @@ export function SettingsPanel() {
     }
   };
 
+  const handleToggleAutoHeal = async (enabled: boolean) => {
+    try {
+      await SettingsRepository.update({ autoHealSelectors: enabled });
+      await refreshSettings();
+    } catch (error) {
+      toast.error('Failed to update settings');
+    }
+  };
+
+  const handleToggleTraces = async (enabled: boolean) => {
+    try {
+      await SettingsRepository.update({ traceSteps: enabled });
+      await refreshSettings();
+    } catch (error) {
+      toast.error('Failed to update settings');
+    }
+  };
+
   const handleClearAllData = async () => {
     if (!confirm('This will delete ALL data including tests, results, and settings. This cannot be undone. Continue?')) return;
 
@@ -100,6 +118,54 @@ export function SettingsPanel() {
         </div>
       </section>
 
+      {/* Self-healing */}
+      <section className="card">
+        <div className="card-header">
+          <h3 className="font-medium text-dark-100 flex items-center gap-2">
+            <Wand2 className="w-4 h-4" />
+            Self-Healing Selectors
+          </h3>
+        </div>
+        <div className="card-body space-y-3">
+          <p className="text-sm text-dark-400">
+            When a step's element can't be found, look for it with AI (or a local similarity match without an API key) and retry.
+            Healed steps are marked so you can accept the new selector.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-dark-200">
+            <input
+              type="checkbox"
+              checked={settings?.autoHealSelectors ?? false}
+              onChange={(e) => handleToggleAutoHeal(e.target.checked)}
+            />
+            Heal missing elements during runs
+          </label>
+        </div>
+      </section>
+
+      {/* Traces */}
+      <section className="card">
+        <div className="card-header">
+          <h3 className="font-medium text-dark-100 flex items-center gap-2">
+            <Footprints className="w-4 h-4" />
+            Step Traces
+          </h3>
+        </div>
+        <div className="card-body space-y-3">
+          <p className="text-sm text-dark-400">
+            Save the page (DOM and screenshot), URL and variables before and after every step, to step through a run
+            in the trace viewer. Runs get slower and take more storage while this is on.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-dark-200">
+            <input
+              type="checkbox"
+              checked={settings?.traceSteps ?? false}
+              onChange={(e) => handleToggleTraces(e.target.checked)}
+            />
+            Record traces during runs
+          </label>
+        </div>
+      </section>
+
       {/* Danger Zone */}
       <section className="card border-red-900/50">
         <div className="card-header border-red-900/50">
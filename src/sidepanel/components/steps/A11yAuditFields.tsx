@@ -0,0 +1,120 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+import type { A11yAuditAction, A11yImpact, A11yRuleId } from '@/types/test';
+import type { AssertionResult } from '@/types/result';
+import { clsx } from 'clsx';
+
+interface A11yAuditFieldsProps {
+  action: A11yAuditAction;
+  onChange: (updates: Partial<A11yAuditAction>) => void;
+  results?: AssertionResult[];
+}
+
+const RULES: { id: A11yRuleId; label: string }[] = [
+  { id: 'image-alt', label: 'Image alt text' },
+  { id: 'label', label: 'Form labels' },
+  { id: 'color-contrast', label: 'Color contrast' },
+  { id: 'duplicate-id', label: 'Duplicate ids' },
+  { id: 'aria-roles', label: 'Valid ARIA roles' },
+  { id: 'heading-order', label: 'Heading order' },
+  { id: 'empty-heading', label: 'Empty headings' },
+  { id: 'focusable-name', label: 'Control names' },
+  { id: 'aria-hidden-focus', label: 'Focus in aria-hidden' },
+  { id: 'document-title', label: 'Page title' },
+  { id: 'html-lang', label: 'Page language' },
+];
+
+const IMPACTS: A11yImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+/**
+ * Rules, failing impact and known issues of an accessibility audit step, with
+ * the violations of its last run
+ */
+export function A11yAuditFields({ action, onChange, results }: A11yAuditFieldsProps) {
+  const disabled = action.disabledRules ?? [];
+  const baseline = action.baseline ?? [];
+  const violations = (results ?? []).filter((r) => r.rule);
+  const newViolations = violations.filter((r) => !r.passed);
+
+  const toggleRule = (rule: A11yRuleId, enabled: boolean) => {
+    const next = enabled ? disabled.filter((r) => r !== rule) : [...disabled, rule];
+    onChange({ disabledRules: next.length > 0 ? next : undefined });
+  };
+
+  // Same "rule selector" entries the audit matches violations against
+  const acceptViolations = () => {
+    const accepted = newViolations.map((r) => `${r.rule} ${r.selector}`);
+    onChange({ baseline: [...new Set([...baseline, ...accepted])] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Fail On</label>
+        <select
+          value={action.minImpact ?? 'minor'}
+          onChange={(e) => onChange({ minImpact: e.target.value as A11yImpact })}
+          className="input input-sm"
+        >
+          {IMPACTS.map((impact) => (
+            <option key={impact} value={impact}>
+              {impact} and above
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Rules</label>
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+          {RULES.map(({ id, label }) => (
+            <label key={id} className="flex items-center gap-1.5 text-xs text-dark-300" title={id}>
+              <input type="checkbox" checked={!disabled.includes(id)} onChange={(e) => toggleRule(id, e.target.checked)} />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-dark-400">
+        <span>
+          {baseline.length > 0 ? `${baseline.length} known issue(s) ignored` : 'No known issues'}
+        </span>
+        {baseline.length > 0 && (
+          <button onClick={() => onChange({ baseline: undefined })} className="text-dark-500 hover:text-dark-300">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {violations.length > 0 && (
+        <div className="space-y-1">
+          <div className="max-h-48 overflow-y-auto border border-dark-700 rounded divide-y divide-dark-800">
+            {violations.map((violation, i) => (
+              <div key={i} className="flex items-start gap-1.5 px-2 py-1 text-[11px]">
+                {violation.passed ? (
+                  <CheckCircle className="w-3 h-3 text-dark-500 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="w-3 h-3 text-status-fail flex-shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0">
+                  <div className={clsx(violation.passed ? 'text-dark-500' : 'text-dark-200')}>
+                    {violation.message}
+                    <span className="text-dark-500"> · {violation.rule}, {violation.impact}</span>
+                  </div>
+                  <code className="block font-mono text-dark-500 truncate" title={violation.selector}>
+                    {violation.selector}
+                  </code>
+                </div>
+              </div>
+            ))}
+          </div>
+          {newViolations.length > 0 && (
+            <button onClick={acceptViolations} className="btn btn-sm btn-ghost text-xs">
+              Accept {newViolations.length} violation(s) as known issues
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
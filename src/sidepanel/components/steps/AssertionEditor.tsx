@@ -0,0 +1,365 @@
+import { Plus, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import type {
+  UIAssertion,
+  TextAssertion,
+  VisibilityAssertion,
+  AttributeAssertion,
+  CountAssertion,
+  VisualAssertion,
+  Region,
+} from '@/types/test';
+import type { AssertionResult } from '@/types/result';
+import { getConfig } from '@/config';
+
+interface AssertionEditorProps {
+  assertions: UIAssertion[];
+  onChange: (assertions: UIAssertion[]) => void;
+  results?: AssertionResult[];
+}
+
+type EditableAssertionType = UIAssertion['type'];
+
+const ASSERTION_TYPES: { type: EditableAssertionType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'visibility', label: 'Visibility' },
+  { type: 'attribute', label: 'Attribute' },
+  { type: 'count', label: 'Count' },
+  ...(getConfig().features.visualComparison ? [{ type: 'visual' as const, label: 'Visual' }] : []),
+];
+
+function createAssertion(type: EditableAssertionType): UIAssertion {
+  switch (type) {
+    case 'text':
+      return { type: 'text', expected: '', comparison: 'contains' };
+    case 'visibility':
+      return { type: 'visibility', expected: 'visible' };
+    case 'attribute':
+      return { type: 'attribute', attribute: '', expected: '', comparison: 'equals' };
+    case 'count':
+      return { type: 'count', expected: 1, comparison: 'equals' };
+    case 'visual':
+      return { type: 'visual', tolerance: { pixelThreshold: 0.1, colorThreshold: 0.1 }, usePerceptualDiff: true };
+  }
+}
+
+export function AssertionEditor({ assertions, onChange, results }: AssertionEditorProps) {
+  const updateAssertion = (index: number, updates: Partial<UIAssertion>) => {
+    onChange(assertions.map((a, i) => (i === index ? ({ ...a, ...updates } as UIAssertion) : a)));
+  };
+
+  const changeType = (index: number, type: EditableAssertionType) => {
+    onChange(assertions.map((a, i) => (i === index ? createAssertion(type) : a)));
+  };
+
+  const removeAssertion = (index: number) => {
+    onChange(assertions.filter((_, i) => i !== index));
+  };
+
+  const addAssertion = () => {
+    onChange([...assertions, createAssertion('text')]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {assertions.map((assertion, index) => {
+        const result = results?.find((r) => r.assertionIndex === index);
+
+        return (
+          <div key={index} className="p-2 bg-dark-900/50 rounded border border-dark-700/50 space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={assertion.type}
+                onChange={(e) => changeType(index, e.target.value as EditableAssertionType)}
+                className="input input-sm flex-1"
+              >
+                {ASSERTION_TYPES.map(({ type, label }) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              {result && (result.passed
+                ? <CheckCircle className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
+                : <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />)}
+              <button
+                onClick={() => removeAssertion(index)}
+                className="btn btn-icon-sm btn-ghost text-red-400 hover:bg-red-500/10"
+                title="Remove assertion"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {assertion.type === 'text' && (
+              <TextAssertionFields
+                assertion={assertion}
+                onUpdate={(updates) => updateAssertion(index, updates)}
+              />
+            )}
+            {assertion.type === 'visibility' && (
+              <VisibilityAssertionFields
+                assertion={assertion}
+                onUpdate={(updates) => updateAssertion(index, updates)}
+              />
+            )}
+            {assertion.type === 'attribute' && (
+              <AttributeAssertionFields
+                assertion={assertion}
+                onUpdate={(updates) => updateAssertion(index, updates)}
+              />
+            )}
+            {assertion.type === 'count' && (
+              <CountAssertionFields
+                assertion={assertion}
+                onUpdate={(updates) => updateAssertion(index, updates)}
+              />
+            )}
+            {assertion.type === 'visual' && (
+              <VisualAssertionFields
+                assertion={assertion}
+                onUpdate={(updates) => updateAssertion(index, updates)}
+              />
+            )}
+
+            {result && !result.passed && (
+              <div className="text-[10px] text-red-400">
+                {result.message || `Expected ${String(result.expected)}, got ${String(result.actual)}`}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button onClick={addAssertion} className="btn btn-xs btn-ghost">
+        <Plus className="w-3.5 h-3.5" />
+        Add assertion
+      </button>
+    </div>
+  );
+}
+
+function TextAssertionFields({
+  assertion,
+  onUpdate,
+}: {
+  assertion: TextAssertion;
+  onUpdate: (updates: Partial<TextAssertion>) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={assertion.comparison}
+          onChange={(e) => onUpdate({ comparison: e.target.value as TextAssertion['comparison'] })}
+          className="input input-sm flex-1"
+        >
+          <option value="equals">equals</option>
+          <option value="contains">contains</option>
+          <option value="startsWith">starts with</option>
+          <option value="endsWith">ends with</option>
+          <option value="matches">matches (regex)</option>
+        </select>
+        <label className="flex items-center gap-1 text-[10px] text-dark-400">
+          <input
+            type="checkbox"
+            checked={assertion.caseSensitive ?? false}
+            onChange={(e) => onUpdate({ caseSensitive: e.target.checked })}
+          />
+          Aa
+        </label>
+      </div>
+      <input
+        type="text"
+        value={assertion.expected}
+        onChange={(e) => onUpdate({ expected: e.target.value })}
+        placeholder="Expected text or {{variable}}"
+        className="input input-sm"
+      />
+    </div>
+  );
+}
+
+function VisibilityAssertionFields({
+  assertion,
+  onUpdate,
+}: {
+  assertion: VisibilityAssertion;
+  onUpdate: (updates: Partial<VisibilityAssertion>) => void;
+}) {
+  return (
+    <select
+      value={assertion.expected}
+      onChange={(e) => onUpdate({ expected: e.target.value as VisibilityAssertion['expected'] })}
+      className="input input-sm"
+    >
+      <option value="visible">is visible</option>
+      <option value="hidden">is hidden</option>
+      <option value="exists">exists</option>
+      <option value="notExists">does not exist</option>
+    </select>
+  );
+}
+
+function AttributeAssertionFields({
+  assertion,
+  onUpdate,
+}: {
+  assertion: AttributeAssertion;
+  onUpdate: (updates: Partial<AttributeAssertion>) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={assertion.attribute}
+          onChange={(e) => onUpdate({ attribute: e.target.value })}
+          placeholder="href"
+          className="input input-sm flex-1"
+        />
+        <select
+          value={assertion.comparison}
+          onChange={(e) => onUpdate({ comparison: e.target.value as AttributeAssertion['comparison'] })}
+          className="input input-sm flex-1"
+        >
+          <option value="equals">equals</option>
+          <option value="contains">contains</option>
+          <option value="matches">matches (regex)</option>
+        </select>
+      </div>
+      <input
+        type="text"
+        value={assertion.expected}
+        onChange={(e) => onUpdate({ expected: e.target.value })}
+        placeholder="Expected value or {{variable}}"
+        className="input input-sm"
+      />
+    </div>
+  );
+}
+
+function CountAssertionFields({
+  assertion,
+  onUpdate,
+}: {
+  assertion: CountAssertion;
+  onUpdate: (updates: Partial<CountAssertion>) => void;
+}) {
+  return (
+    <div className="flex gap-2">
+      <select
+        value={assertion.comparison}
+        onChange={(e) => onUpdate({ comparison: e.target.value as CountAssertion['comparison'] })}
+        className="input input-sm flex-1"
+      >
+        <option value="equals">equals</option>
+        <option value="greaterThan">greater than</option>
+        <option value="lessThan">less than</option>
+        <option value="atLeast">at least</option>
+        <option value="atMost">at most</option>
+      </select>
+      <input
+        type="number"
+        value={assertion.expected}
+        onChange={(e) => onUpdate({ expected: parseInt(e.target.value) || 0 })}
+        min="0"
+        className="input input-sm w-20"
+      />
+    </div>
+  );
+}
+
+function VisualAssertionFields({
+  assertion,
+  onUpdate,
+}: {
+  assertion: VisualAssertion;
+  onUpdate: (updates: Partial<VisualAssertion>) => void;
+}) {
+  const regions = assertion.ignoreRegions ?? [];
+
+  const updateTolerance = (updates: Partial<VisualAssertion['tolerance']>) => {
+    onUpdate({ tolerance: { ...assertion.tolerance, ...updates } });
+  };
+
+  const updateRegion = (index: number, updates: Partial<Region>) => {
+    onUpdate({ ignoreRegions: regions.map((r, i) => (i === index ? { ...r, ...updates } : r)) });
+  };
+
+  return (
+    <div className="space-y-2 text-[10px] text-dark-400">
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1" title="Share of pixels that may differ from the baseline">
+          Max diff
+          <input
+            type="number"
+            value={assertion.tolerance.pixelThreshold}
+            onChange={(e) => updateTolerance({ pixelThreshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min="0"
+            max="100"
+            step="0.1"
+            className="input input-sm w-16"
+          />
+          %
+        </label>
+        <label className="flex items-center gap-1" title="How far a pixel's color may drift before it counts as different (0-1)">
+          Color
+          <input
+            type="number"
+            value={assertion.tolerance.colorThreshold}
+            onChange={(e) => updateTolerance({ colorThreshold: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            min="0"
+            max="1"
+            step="0.05"
+            className="input input-sm w-16"
+          />
+        </label>
+        <label className="flex items-center gap-1" title="Weigh brightness over hue, the way the eye does">
+          <input
+            type="checkbox"
+            checked={assertion.usePerceptualDiff ?? false}
+            onChange={(e) => onUpdate({ usePerceptualDiff: e.target.checked })}
+          />
+          Perceptual
+        </label>
+      </div>
+
+      {regions.map((region, index) => (
+        <div key={index} className="flex items-center gap-1">
+          {(['x', 'y', 'width', 'height'] as const).map((key) => (
+            <input
+              key={key}
+              type="number"
+              value={region[key]}
+              onChange={(e) => updateRegion(index, { [key]: Math.max(0, parseInt(e.target.value) || 0) })}
+              min="0"
+              title={key}
+              placeholder={key}
+              className="input input-sm w-14"
+            />
+          ))}
+          <input
+            type="text"
+            value={region.reason ?? ''}
+            onChange={(e) => updateRegion(index, { reason: e.target.value || undefined })}
+            placeholder="Reason"
+            className="input input-sm flex-1 min-w-0"
+          />
+          <button
+            onClick={() => onUpdate({ ignoreRegions: regions.filter((_, i) => i !== index) })}
+            className="p-0.5 text-dark-500 hover:text-red-400"
+            title="Remove region"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onUpdate({ ignoreRegions: [...regions, { x: 0, y: 0, width: 100, height: 100 }] })}
+        className="btn btn-xs btn-ghost"
+        title="Region in CSS pixels from the top left of the viewport"
+      >
+        <Plus className="w-3 h-3" />
+        Ignore region
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { RetryPolicy } from '@/types/test';
+import { getConfig } from '@/config';
+
+interface RetryPolicyFieldsProps {
+  policy: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+/**
+ * Retry count, delay before the first retry and backoff multiplier, on one line
+ */
+export function RetryPolicyFields({ policy, onChange }: RetryPolicyFieldsProps) {
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-dark-400">
+      <input
+        type="number"
+        value={policy.retries}
+        onChange={(e) => onChange({ ...policy, retries: Math.max(1, parseInt(e.target.value) || 1) })}
+        min="1"
+        max="10"
+        title="Retries"
+        className="input input-sm w-14 py-0.5"
+      />
+      <span>retries, wait</span>
+      <input
+        type="number"
+        value={policy.delay}
+        onChange={(e) => onChange({ ...policy, delay: Math.max(0, parseInt(e.target.value) || 0) })}
+        min="0"
+        step="500"
+        title="Delay before the first retry (ms)"
+        className="input input-sm w-20 py-0.5"
+      />
+      <span>ms</span>
+      <span>×</span>
+      <input
+        type="number"
+        value={policy.backoff ?? 1}
+        onChange={(e) => onChange({ ...policy, backoff: Math.max(1, parseFloat(e.target.value) || 1) })}
+        min="1"
+        step="0.5"
+        title="Backoff: the delay is multiplied by this after every retry"
+        className="input input-sm w-14 py-0.5"
+      />
+    </div>
+  );
+}
+
+/**
+ * New policies start from the configured execution defaults
+ */
+export function createRetryPolicy(): RetryPolicy {
+  const { retryAttempts, retryDelay } = getConfig().execution;
+  return { retries: retryAttempts, delay: retryDelay, backoff: 2 };
+}
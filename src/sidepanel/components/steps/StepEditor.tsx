@@ -15,42 +15,167 @@ import {
   CheckCircle,
   XCircle,
   Bot,
+  Pointer,
+  Move,
+  Paperclip,
+  MessageSquare,
+  Keyboard,
+  RotateCw,
+  ArrowLeft,
+  ArrowRight,
+  Camera,
+  Wand2,
+  AppWindow,
+  ArrowLeftRight,
+  SquareX,
+  GitBranch,
+  Repeat,
+  ListOrdered,
+  Variable,
+  Code,
+  Terminal,
+  Globe,
+  Accessibility,
+  Cookie,
 } from 'lucide-react';
-import type { UIStep, UIAction, SelectorStrategy } from '@/types/test';
-import type { FailureAnalysisResult } from '@/types/result';
+import type { UIStep, UIAction, SelectorStrategy, StepCondition, WaitConfig } from '@/types/test';
+import type {
+  FailureAnalysisResult,
+  AssertionResult,
+  DialogInfo,
+  ExtractedValue,
+  LogEntry,
+  NetworkEntry,
+  SelectorHealingSuggestion,
+} from '@/types/result';
 import { clsx } from 'clsx';
 import { SelectorInput } from './SelectorInput';
+import { AssertionEditor } from './AssertionEditor';
+import { A11yAuditFields } from './A11yAuditFields';
+import { RetryPolicyFields, createRetryPolicy } from './RetryPolicyFields';
 import { FailureAnalysisModal } from '../ai/FailureAnalysisModal';
+import { NetworkList } from '../execution/NetworkList';
 import { AIService } from '@/core/services/AIService';
+import { isBlockStep, updateStepById } from '@/core/utils';
 import toast from 'react-hot-toast';
 
 interface StepEditorProps {
   steps: UIStep[];
   onStepsChange: (steps: UIStep[]) => void;
   currentStepId?: string | null;
-  stepResults?: Array<{ stepId: string; status: 'passed' | 'failed'; error?: string; duration?: number }>;
+  stepResults?: Array<{ stepId: string } & StepResultSummary>;
+  onAcceptHealing?: (stepId: string, selectors: SelectorStrategy[]) => void;
 }
 
-type StepType = 'navigate' | 'click' | 'type' | 'select' | 'assert' | 'wait';
+interface StepResultSummary {
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+  duration?: number;
+  assertionResults?: AssertionResult[];
+  healed?: boolean;
+  selectorHealing?: SelectorHealingSuggestion;
+  dialogs?: DialogInfo[];
+  extracted?: ExtractedValue;
+  logs?: LogEntry[];
+  network?: NetworkEntry[];
+  attempt?: number;
+  retried?: boolean;
+}
+
+type StepType =
+  | 'navigate'
+  | 'click'
+  | 'type'
+  | 'select'
+  | 'hover'
+  | 'drag'
+  | 'upload'
+  | 'dialog'
+  | 'press'
+  | 'extract'
+  | 'script'
+  | 'assert'
+  | 'wait'
+  | 'reload'
+  | 'goBack'
+  | 'goForward'
+  | 'waitForPopup'
+  | 'switchTab'
+  | 'closeTab'
+  | 'screenshot'
+  | 'a11yAudit'
+  | 'saveStorageState'
+  | 'if'
+  | 'repeat'
+  | 'forEach';
 
 const STEP_TYPES: { type: StepType; label: string; icon: typeof MousePointer; description: string }[] = [
   { type: 'navigate', label: 'Navigate', icon: Navigation, description: 'Go to a URL' },
   { type: 'click', label: 'Click', icon: MousePointer, description: 'Click an element' },
   { type: 'type', label: 'Type', icon: Type, description: 'Enter text' },
   { type: 'select', label: 'Select', icon: List, description: 'Select option' },
+  { type: 'hover', label: 'Hover', icon: Pointer, description: 'Move mouse over element' },
+  { type: 'drag', label: 'Drag', icon: Move, description: 'Drag element to a target' },
+  { type: 'upload', label: 'Upload', icon: Paperclip, description: 'Set files on a file input' },
+  { type: 'dialog', label: 'Dialog', icon: MessageSquare, description: 'Answer the next alert/confirm/prompt' },
+  { type: 'press', label: 'Press Key', icon: Keyboard, description: 'Press a keyboard key' },
+  { type: 'extract', label: 'Extract', icon: Variable, description: 'Store a page value in a variable' },
+  { type: 'script', label: 'Script', icon: Code, description: 'Run JavaScript in the page' },
   { type: 'assert', label: 'Assert', icon: Eye, description: 'Verify element' },
   { type: 'wait', label: 'Wait', icon: Clock, description: 'Wait for element/time' },
+  { type: 'reload', label: 'Reload', icon: RotateCw, description: 'Reload the page' },
+  { type: 'goBack', label: 'Go Back', icon: ArrowLeft, description: 'Browser back button' },
+  { type: 'goForward', label: 'Go Forward', icon: ArrowRight, description: 'Browser forward button' },
+  { type: 'waitForPopup', label: 'Popup', icon: AppWindow, description: 'Continue in a newly opened tab' },
+  { type: 'switchTab', label: 'Switch Tab', icon: ArrowLeftRight, description: 'Continue in another tab' },
+  { type: 'closeTab', label: 'Close Tab', icon: SquareX, description: 'Close the current tab' },
+  { type: 'screenshot', label: 'Screenshot', icon: Camera, description: 'Capture the page' },
+  { type: 'a11yAudit', label: 'A11y Audit', icon: Accessibility, description: 'Check the page for accessibility issues' },
+  { type: 'saveStorageState', label: 'Save State', icon: Cookie, description: 'Save cookies and storage for other tests' },
+  { type: 'if', label: 'If / Else', icon: GitBranch, description: 'Run steps only when a condition holds' },
+  { type: 'repeat', label: 'Repeat', icon: Repeat, description: 'Run steps N times or until a condition' },
+  { type: 'forEach', label: 'For Each', icon: ListOrdered, description: 'Run steps for every item of a list' },
+];
+
+const VARIABLE_OPERATORS: { value: Extract<StepCondition, { type: 'variable' }>['operator']; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'isEmpty', label: 'is empty' },
+  { value: 'isNotEmpty', label: 'is not empty' },
 ];
 
-export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }: StepEditorProps) {
+/**
+ * Editor state shared by the top-level step list and the lists nested in blocks
+ */
+interface StepListShared {
+  expandedStep: string | null;
+  setExpandedStep: (id: string | null) => void;
+  currentStepId?: string | null;
+  getStepResult: (stepId: string) => StepResultSummary | undefined;
+  onAnalyzeFailure: (step: UIStep, errorMessage: string) => void;
+  onAcceptHealing?: (stepId: string, selectors: SelectorStrategy[]) => void;
+}
+
+const PRESS_MODIFIERS = ['Ctrl', 'Shift', 'Alt', 'Meta'];
+
+const WAIT_STRATEGIES: { value: WaitConfig['strategy']; label: string }[] = [
+  { value: 'visible', label: 'Element visible' },
+  { value: 'hidden', label: 'Element hidden' },
+  { value: 'attached', label: 'Element in DOM' },
+  { value: 'detached', label: 'Element removed' },
+  { value: 'stable', label: 'Element stopped moving' },
+  { value: 'networkIdle', label: 'Network idle' },
+];
+
+export function StepEditor({ steps, onStepsChange, currentStepId, stepResults, onAcceptHealing }: StepEditorProps) {
   const [expandedStep, setExpandedStep] = useState<string | null>(null);
-  const [showAddMenu, setShowAddMenu] = useState(false);
-  const addMenuRef = useRef<HTMLDivElement>(null);
 
   // AI Failure Analysis state
   const [analysisModal, setAnalysisModal] = useState<{
     isOpen: boolean;
     stepId: string | null;
+    step: UIStep | null;
     stepName: string;
     errorMessage: string;
     analysis: FailureAnalysisResult | null;
@@ -59,6 +184,7 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
   }>({
     isOpen: false,
     stepId: null,
+    step: null,
     stepName: '',
     errorMessage: '',
     analysis: null,
@@ -70,6 +196,7 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
     setAnalysisModal({
       isOpen: true,
       stepId: step.id,
+      step,
       stepName: step.name,
       errorMessage,
       analysis: null,
@@ -95,6 +222,8 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
       // Determine error type
       const errorType = errorMessage.toLowerCase().includes('timeout')
         ? 'timeout'
+        : errorMessage.toLowerCase().includes('not actionable')
+        ? 'not-actionable'
         : errorMessage.toLowerCase().includes('not found') || errorMessage.toLowerCase().includes('no element')
         ? 'element-not-found'
         : errorMessage.toLowerCase().includes('assert')
@@ -126,20 +255,14 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
   };
 
   const handleApplyFix = (fix: { code?: string; selector?: string }) => {
-    if (fix.selector && analysisModal.stepId) {
+    if (fix.selector && analysisModal.stepId && analysisModal.step) {
       // Apply new selector to the step
       onStepsChange(
-        steps.map(step => {
-          if (step.id === analysisModal.stepId) {
-            return {
-              ...step,
-              selectors: [
-                { type: 'css' as const, value: fix.selector!, priority: 0, confidence: 0.8 },
-                ...step.selectors.slice(1),
-              ],
-            };
-          }
-          return step;
+        updateStepById(steps, analysisModal.stepId, {
+          selectors: [
+            { type: 'css' as const, value: fix.selector, priority: 0, confidence: 0.8 },
+            ...analysisModal.step.selectors.slice(1),
+          ],
         })
       );
       toast.success('Selector updated');
@@ -147,49 +270,24 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
     }
   };
 
-  // Close add menu when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (addMenuRef.current && !addMenuRef.current.contains(event.target as Node)) {
-        setShowAddMenu(false);
-      }
-    };
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
   const getStepResult = (stepId: string) => {
-    return stepResults?.find((r) => r.stepId === stepId);
+    // Steps inside loops run repeatedly; the latest run wins
+    return stepResults?.filter((r) => r.stepId === stepId).pop();
   };
 
   const addStep = (type: StepType) => {
     const newStep = createStep(type, steps.length);
     onStepsChange([...steps, newStep]);
     setExpandedStep(newStep.id);
-    setShowAddMenu(false);
-  };
-
-  const updateStep = (id: string, updates: Partial<UIStep>) => {
-    onStepsChange(
-      steps.map((step) => (step.id === id ? { ...step, ...updates } : step))
-    );
-  };
-
-  const deleteStep = (id: string) => {
-    onStepsChange(steps.filter((step) => step.id !== id));
-    if (expandedStep === id) {
-      setExpandedStep(null);
-    }
   };
 
-  const moveStep = (index: number, direction: 'up' | 'down') => {
-    const newIndex = direction === 'up' ? index - 1 : index + 1;
-    if (newIndex < 0 || newIndex >= steps.length) return;
-
-    const newSteps = [...steps];
-    [newSteps[index], newSteps[newIndex]] = [newSteps[newIndex], newSteps[index]];
-    newSteps.forEach((step, i) => (step.order = i));
-    onStepsChange(newSteps);
+  const shared: StepListShared = {
+    expandedStep,
+    setExpandedStep,
+    currentStepId,
+    getStepResult,
+    onAnalyzeFailure: handleAnalyzeFailure,
+    onAcceptHealing,
   };
 
   return (
@@ -199,33 +297,7 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
         <span className="text-xs text-dark-500 uppercase tracking-wider">
           {steps.length} {steps.length === 1 ? 'Step' : 'Steps'}
         </span>
-        <div className="relative" ref={addMenuRef}>
-          <button
-            onClick={() => setShowAddMenu(!showAddMenu)}
-            className="btn btn-xs btn-primary"
-          >
-            <Plus className="w-3.5 h-3.5" />
-            Add
-          </button>
-
-          {showAddMenu && (
-            <div className="dropdown-menu right-0 top-full mt-1 w-48 animate-fade-in">
-              {STEP_TYPES.map(({ type, label, icon: Icon, description }) => (
-                <button
-                  key={type}
-                  onClick={() => addStep(type)}
-                  className="dropdown-item w-full text-left"
-                >
-                  <Icon className="w-4 h-4 text-accent" />
-                  <div className="flex-1">
-                    <div className="text-sm">{label}</div>
-                    <div className="text-[10px] text-dark-500">{description}</div>
-                  </div>
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
+        <AddStepMenu onAdd={addStep} />
       </div>
 
       {/* Empty State */}
@@ -239,25 +311,7 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
         </div>
       ) : (
         /* Step List */
-        <div className="space-y-1">
-          {steps.map((step, index) => (
-            <StepItem
-              key={step.id}
-              step={step}
-              index={index}
-              isExpanded={expandedStep === step.id}
-              isCurrent={currentStepId === step.id}
-              result={getStepResult(step.id)}
-              onToggle={() => setExpandedStep(expandedStep === step.id ? null : step.id)}
-              onUpdate={(updates) => updateStep(step.id, updates)}
-              onDelete={() => deleteStep(step.id)}
-              onMove={(dir) => moveStep(index, dir)}
-              canMoveUp={index > 0}
-              canMoveDown={index < steps.length - 1}
-              onAnalyzeFailure={(error) => handleAnalyzeFailure(step, error)}
-            />
-          ))}
-        </div>
+        <StepList steps={steps} onStepsChange={onStepsChange} shared={shared} />
       )}
 
       {/* AI Failure Analysis Modal */}
@@ -275,12 +329,122 @@ export function StepEditor({ steps, onStepsChange, currentStepId, stepResults }:
   );
 }
 
+function AddStepMenu({ onAdd, nested = false }: { onAdd: (type: StepType) => void; nested?: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={nested ? 'btn btn-xs btn-ghost text-dark-400' : 'btn btn-xs btn-primary'}
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add
+      </button>
+
+      {isOpen && (
+        <div className="dropdown-menu right-0 top-full mt-1 w-48 animate-fade-in z-20">
+          {STEP_TYPES.map(({ type, label, icon: Icon, description }) => (
+            <button
+              key={type}
+              onClick={() => {
+                onAdd(type);
+                setIsOpen(false);
+              }}
+              className="dropdown-item w-full text-left"
+            >
+              <Icon className="w-4 h-4 text-accent" />
+              <div className="flex-1">
+                <div className="text-sm">{label}</div>
+                <div className="text-[10px] text-dark-500">{description}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface StepListProps {
+  steps: UIStep[];
+  onStepsChange: (steps: UIStep[]) => void;
+  shared: StepListShared;
+}
+
+/**
+ * One level of steps; blocks render their nested steps as further StepLists
+ */
+function StepList({ steps, onStepsChange, shared }: StepListProps) {
+  const { expandedStep, setExpandedStep, currentStepId, getStepResult, onAnalyzeFailure, onAcceptHealing } = shared;
+
+  const updateStep = (id: string, updates: Partial<UIStep>) => {
+    onStepsChange(
+      steps.map((step) => (step.id === id ? { ...step, ...updates } : step))
+    );
+  };
+
+  const deleteStep = (id: string) => {
+    onStepsChange(steps.filter((step) => step.id !== id));
+    if (expandedStep === id) {
+      setExpandedStep(null);
+    }
+  };
+
+  const moveStep = (index: number, direction: 'up' | 'down') => {
+    const newIndex = direction === 'up' ? index - 1 : index + 1;
+    if (newIndex < 0 || newIndex >= steps.length) return;
+
+    const newSteps = [...steps];
+    [newSteps[index], newSteps[newIndex]] = [newSteps[newIndex], newSteps[index]];
+    newSteps.forEach((step, i) => (step.order = i));
+    onStepsChange(newSteps);
+  };
+
+  return (
+    <div className="space-y-1">
+      {steps.map((step, index) => (
+        <StepItem
+          key={step.id}
+          step={step}
+          index={index}
+          shared={shared}
+          isExpanded={expandedStep === step.id}
+          isCurrent={currentStepId === step.id}
+          result={getStepResult(step.id)}
+          onToggle={() => setExpandedStep(expandedStep === step.id ? null : step.id)}
+          onUpdate={(updates) => updateStep(step.id, updates)}
+          onDelete={() => deleteStep(step.id)}
+          onMove={(dir) => moveStep(index, dir)}
+          canMoveUp={index > 0}
+          canMoveDown={index < steps.length - 1}
+          onAnalyzeFailure={(error) => onAnalyzeFailure(step, error)}
+          onAcceptHealing={onAcceptHealing && ((selectors) => onAcceptHealing(step.id, selectors))}
+        />
+      ))}
+    </div>
+  );
+}
+
 interface StepItemProps {
   step: UIStep;
+  shared: StepListShared;
   index: number;
   isExpanded: boolean;
   isCurrent?: boolean;
-  result?: { status: 'passed' | 'failed'; error?: string; duration?: number };
+  result?: StepResultSummary;
   onToggle: () => void;
   onUpdate: (updates: Partial<UIStep>) => void;
   onDelete: () => void;
@@ -288,10 +452,12 @@ interface StepItemProps {
   canMoveUp: boolean;
   canMoveDown: boolean;
   onAnalyzeFailure?: (errorMessage: string) => void;
+  onAcceptHealing?: (selectors: SelectorStrategy[]) => void;
 }
 
 function StepItem({
   step,
+  shared,
   index,
   isExpanded,
   isCurrent,
@@ -303,7 +469,10 @@ function StepItem({
   canMoveUp,
   canMoveDown,
   onAnalyzeFailure,
+  onAcceptHealing,
 }: StepItemProps) {
+  const [showNetwork, setShowNetwork] = useState(false);
+
   const getStepIcon = () => {
     switch (step.action.type) {
       case 'navigate': return Navigation;
@@ -312,6 +481,25 @@ function StepItem({
       case 'type': return Type;
       case 'select': return List;
       case 'waitForElement': return Clock;
+      case 'hover': return Pointer;
+      case 'drag': return Move;
+      case 'upload': return Paperclip;
+      case 'dialog': return MessageSquare;
+      case 'press': return Keyboard;
+      case 'extract': return Variable;
+      case 'script': return Code;
+      case 'reload': return RotateCw;
+      case 'goBack': return ArrowLeft;
+      case 'goForward': return ArrowRight;
+      case 'waitForPopup': return AppWindow;
+      case 'switchTab': return ArrowLeftRight;
+      case 'closeTab': return SquareX;
+      case 'screenshot': return Camera;
+      case 'a11yAudit': return Accessibility;
+      case 'saveStorageState': return Cookie;
+      case 'if': return GitBranch;
+      case 'repeat': return Repeat;
+      case 'forEach': return ListOrdered;
       default: return Eye;
     }
   };
@@ -327,14 +515,50 @@ function StepItem({
       onUpdate({ selectors: allSelectors });
     } else {
       const existingSelectors = step.selectors.length > 1 ? step.selectors : [];
+      const frameSelector = step.selectors[0]?.frameSelector;
       const newSelectors: SelectorStrategy[] = [
-        { type: 'css', value: selector, priority: 0, confidence: 1 },
+        { type: 'css', value: selector, priority: 0, confidence: 1, frameSelector },
         ...existingSelectors.slice(1),
       ];
       onUpdate({ selectors: newSelectors });
     }
   };
 
+  // The drop target lives in the same frame as the dragged element
+  const updateDragTarget = (selector: string, allSelectors?: SelectorStrategy[]) => {
+    const existingSelectors = (step.action as { targetSelectors?: SelectorStrategy[] }).targetSelectors || [];
+    const frameSelector = step.selectors[0]?.frameSelector;
+    const targetSelectors = allSelectors ?? [
+      { type: 'css', value: selector, priority: 0, confidence: 1, frameSelector },
+      ...existingSelectors.slice(1),
+    ];
+    updateAction({ targetSelectors } as Partial<UIAction>);
+  };
+
+  // Fallback selectors point into the same frame as the primary one
+  const updateFrameSelector = (frameSelector: string) => {
+    const selectors = step.selectors.length > 0
+      ? step.selectors
+      : [{ type: 'css' as const, value: '', priority: 0, confidence: 1 }];
+    onUpdate({
+      selectors: selectors.map((s) => ({ ...s, frameSelector: frameSelector || undefined })),
+    });
+  };
+
+  const branches = getBlockBranches(step.action);
+
+  const updateBranch = (key: BlockBranch, steps: UIStep[]) => {
+    // An empty else branch is the same as none
+    updateAction({ [key]: key === 'else' && steps.length === 0 ? undefined : steps } as Partial<UIAction>);
+  };
+
+  const addNestedStep = (key: BlockBranch, type: StepType) => {
+    const branchSteps = branches.find((b) => b.key === key)?.steps ?? [];
+    const newStep = createStep(type, branchSteps.length);
+    updateBranch(key, [...branchSteps, newStep]);
+    shared.setExpandedStep(newStep.id);
+  };
+
   // Determine step number styling based on status
   const getStepNumberClass = () => {
     if (isCurrent) return 'step-number bg-blue-500/20 text-blue-400';
@@ -367,6 +591,12 @@ function StepItem({
 
         {/* Status indicators */}
         {isCurrent && <Loader2 className="w-3.5 h-3.5 text-blue-400 animate-spin" />}
+        {result?.healed && <span className="text-[10px] text-amber-400">healed</span>}
+        {result?.attempt && (
+          <span className="text-[10px] text-amber-400" title="Failed attempts are kept in the run">
+            {result.retried ? `attempt ${result.attempt} failed, retrying` : `attempt ${result.attempt}`}
+          </span>
+        )}
         {result?.status === 'passed' && <CheckCircle className="w-3.5 h-3.5 text-green-400" />}
         {result?.status === 'failed' && <XCircle className="w-3.5 h-3.5 text-red-400" />}
         {result?.duration && <span className="text-[10px] text-dark-600">{result.duration}ms</span>}
@@ -415,7 +645,8 @@ function StepItem({
               </div>
             )}
 
-            {['click', 'type', 'select', 'waitForElement'].includes(step.action.type) && (
+            {(['click', 'type', 'select', 'waitForElement', 'hover', 'drag', 'upload'].includes(step.action.type) ||
+              (step.action.type === 'extract' && step.action.source !== 'url')) && (
               <div className="mb-3">
                 <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Selector</label>
                 <SelectorInput
@@ -424,6 +655,13 @@ function StepItem({
                   suggestions={step.selectors}
                   onSuggestionsRequest={() => {}}
                 />
+                <input
+                  type="text"
+                  value={step.selectors[0]?.frameSelector || ''}
+                  onChange={(e) => updateFrameSelector(e.target.value)}
+                  placeholder="Inside iframe (optional), e.g. iframe#payment"
+                  className="input input-sm mt-1.5 font-mono text-[11px]"
+                />
               </div>
             )}
 
@@ -440,6 +678,508 @@ function StepItem({
               </div>
             )}
 
+            {step.action.type === 'dialog' && (
+              <div className="mb-3 space-y-2">
+                <div className="flex gap-2">
+                  {(['accept', 'dismiss'] as const).map((answer) => (
+                    <button
+                      key={answer}
+                      onClick={() => updateAction({ action: answer } as Partial<UIAction>)}
+                      className={clsx(
+                        'flex-1 px-3 py-1.5 rounded text-xs transition-colors capitalize',
+                        (step.action as { action: string }).action === answer
+                          ? 'bg-accent text-white'
+                          : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+                      )}
+                    >
+                      {answer}
+                    </button>
+                  ))}
+                </div>
+                {step.action.action === 'accept' && (
+                  <div>
+                    <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Prompt Answer (optional)</label>
+                    <input
+                      type="text"
+                      value={step.action.promptText || ''}
+                      onChange={(e) => updateAction({ promptText: e.target.value || undefined } as Partial<UIAction>)}
+                      placeholder="{{name}}"
+                      className="input input-sm"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Expected Message (optional)</label>
+                  <input
+                    type="text"
+                    value={step.action.expectedMessage || ''}
+                    onChange={(e) => updateAction({ expectedMessage: e.target.value || undefined } as Partial<UIAction>)}
+                    placeholder="Are you sure?"
+                    className="input input-sm"
+                  />
+                </div>
+                <p className="text-[10px] text-dark-600">
+                  Place before the step that opens the dialog. beforeunload dialogs are always accepted.
+                </p>
+              </div>
+            )}
+
+            {step.action.type === 'if' && (
+              <ConditionEditor
+                condition={step.action.condition}
+                selectors={step.selectors}
+                onChange={(condition) => updateAction({ condition } as Partial<UIAction>)}
+                onSelectorChange={updateSelector}
+              />
+            )}
+
+            {step.action.type === 'repeat' && (
+              <div className="mb-3 space-y-2">
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">
+                    {step.action.until ? 'Max Iterations' : 'Times'}
+                  </label>
+                  <input
+                    type="number"
+                    value={step.action.times}
+                    onChange={(e) => updateAction({ times: Math.max(1, parseInt(e.target.value) || 1) } as Partial<UIAction>)}
+                    min="1"
+                    className="input input-sm"
+                  />
+                </div>
+                <label className="flex items-center gap-1.5 text-xs text-dark-400">
+                  <input
+                    type="checkbox"
+                    checked={!!step.action.until}
+                    onChange={(e) =>
+                      updateAction({
+                        until: e.target.checked ? { type: 'element', state: 'hidden' } : undefined,
+                      } as Partial<UIAction>)
+                    }
+                  />
+                  Stop once a condition holds
+                </label>
+                {step.action.until && (
+                  <ConditionEditor
+                    condition={step.action.until}
+                    selectors={step.selectors}
+                    onChange={(until) => updateAction({ until } as Partial<UIAction>)}
+                    onSelectorChange={updateSelector}
+                  />
+                )}
+              </div>
+            )}
+
+            {step.action.type === 'forEach' && (
+              <div className="mb-3 space-y-2">
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Items</label>
+                  <input
+                    type="text"
+                    value={step.action.items}
+                    onChange={(e) => updateAction({ items: e.target.value } as Partial<UIAction>)}
+                    placeholder='{{products}} or ["shoes", "hats"] or a, b, c'
+                    className="input input-sm font-mono text-[11px]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">As Variable</label>
+                  <input
+                    type="text"
+                    value={step.action.variable}
+                    onChange={(e) => updateAction({ variable: e.target.value.replace(/\W/g, '') } as Partial<UIAction>)}
+                    placeholder="item"
+                    className="input input-sm font-mono"
+                  />
+                  <p className="text-[10px] text-dark-600 mt-1">
+                    Nested steps use {`{{${step.action.variable || 'item'}}}`} for the current item
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {step.action.type === 'waitForPopup' && (
+              <div className="mb-3">
+                <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Timeout (ms)</label>
+                <input
+                  type="number"
+                  value={step.action.timeout || 10000}
+                  onChange={(e) => updateAction({ timeout: parseInt(e.target.value) || 10000 } as Partial<UIAction>)}
+                  min="500"
+                  step="500"
+                  className="input input-sm"
+                />
+                <p className="text-[10px] text-dark-600 mt-1">
+                  Place after the step that opens the tab or window; later steps run in it
+                </p>
+              </div>
+            )}
+
+            {step.action.type === 'switchTab' && (
+              <div className="mb-3 space-y-2">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => updateAction({ index: 0, url: undefined } as Partial<UIAction>)}
+                    className={clsx(
+                      'flex-1 px-3 py-1.5 rounded text-xs transition-colors',
+                      step.action.url === undefined ? 'bg-accent text-white' : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+                    )}
+                  >
+                    By index
+                  </button>
+                  <button
+                    onClick={() => updateAction({ index: undefined, url: '' } as Partial<UIAction>)}
+                    className={clsx(
+                      'flex-1 px-3 py-1.5 rounded text-xs transition-colors',
+                      step.action.url !== undefined ? 'bg-accent text-white' : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+                    )}
+                  >
+                    By URL
+                  </button>
+                </div>
+                {step.action.url === undefined ? (
+                  <div>
+                    <input
+                      type="number"
+                      value={step.action.index ?? 0}
+                      onChange={(e) => updateAction({ index: Math.max(0, parseInt(e.target.value) || 0) } as Partial<UIAction>)}
+                      min="0"
+                      className="input input-sm"
+                    />
+                    <p className="text-[10px] text-dark-600 mt-1">0 is the tab the test started in, then tabs in the order they opened</p>
+                  </div>
+                ) : (
+                  <div>
+                    <input
+                      type="text"
+                      value={step.action.url}
+                      onChange={(e) => updateAction({ url: e.target.value } as Partial<UIAction>)}
+                      placeholder="accounts.google.com"
+                      className="input input-sm"
+                    />
+                    <p className="text-[10px] text-dark-600 mt-1">First tab whose URL contains this text</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {step.action.type === 'closeTab' && (
+              <p className="mb-3 text-[10px] text-dark-600">
+                Later steps run in the tab that opened it. Passes if the page already closed itself.
+              </p>
+            )}
+
+            {step.action.type === 'saveStorageState' && (
+              <div className="mb-3">
+                <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">State Name</label>
+                <input
+                  type="text"
+                  value={step.action.name}
+                  onChange={(e) => updateAction({ name: e.target.value } as Partial<UIAction>)}
+                  placeholder="logged-in"
+                  className="input input-sm font-mono"
+                />
+                <p className="text-[10px] text-dark-600 mt-1">
+                  Saves the current site's cookies and local/session storage; other tests can start from it. Replaces
+                  a state with the same name.
+                </p>
+              </div>
+            )}
+
+            {step.action.type === 'upload' && (
+              <div className="mb-3">
+                <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Files</label>
+                <input
+                  key={step.action.files.join(',')}
+                  type="text"
+                  defaultValue={step.action.files.join(', ')}
+                  onBlur={(e) =>
+                    updateAction({
+                      files: e.target.value.split(',').map((f) => f.trim()).filter(Boolean),
+                    } as Partial<UIAction>)
+                  }
+                  placeholder="avatar.png, {{resume}}"
+                  className="input input-sm"
+                />
+                <p className="text-[10px] text-dark-600 mt-1">Fixture names from the Data tab; leave empty to clear the input</p>
+              </div>
+            )}
+
+            {step.action.type === 'drag' && (
+              <div className="mb-3 space-y-2">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => updateAction({ targetSelectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }], offset: undefined } as Partial<UIAction>)}
+                    className={clsx(
+                      'flex-1 px-3 py-1.5 rounded text-xs transition-colors',
+                      !step.action.offset ? 'bg-accent text-white' : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+                    )}
+                  >
+                    Onto element
+                  </button>
+                  <button
+                    onClick={() => updateAction({ targetSelectors: undefined, offset: { x: 0, y: 0 } } as Partial<UIAction>)}
+                    className={clsx(
+                      'flex-1 px-3 py-1.5 rounded text-xs transition-colors',
+                      step.action.offset ? 'bg-accent text-white' : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+                    )}
+                  >
+                    By offset
+                  </button>
+                </div>
+                {step.action.offset ? (
+                  <div className="flex gap-2">
+                    {(['x', 'y'] as const).map((axis) => (
+                      <div key={axis} className="flex-1">
+                        <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">{axis} (px)</label>
+                        <input
+                          type="number"
+                          value={(step.action as { offset: { x: number; y: number } }).offset[axis]}
+                          onChange={(e) =>
+                            updateAction({
+                              offset: { ...(step.action as { offset: { x: number; y: number } }).offset, [axis]: parseInt(e.target.value) || 0 },
+                            } as Partial<UIAction>)
+                          }
+                          className="input input-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Drop Target</label>
+                    <SelectorInput
+                      value={step.action.targetSelectors?.[0]?.value || ''}
+                      onChange={updateDragTarget}
+                      suggestions={step.action.targetSelectors || []}
+                      onSuggestionsRequest={() => {}}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {step.action.type === 'press' && (
+              <div className="mb-3 space-y-2">
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Key</label>
+                  <input
+                    type="text"
+                    value={step.action.key}
+                    onChange={(e) => updateAction({ key: e.target.value } as Partial<UIAction>)}
+                    placeholder="Enter, Tab, Escape, a..."
+                    className="input input-sm"
+                  />
+                </div>
+                <div className="flex gap-3">
+                  {PRESS_MODIFIERS.map((modifier) => {
+                    const modifiers = (step.action as { modifiers?: string[] }).modifiers || [];
+                    return (
+                      <label key={modifier} className="flex items-center gap-1 text-xs text-dark-400">
+                        <input
+                          type="checkbox"
+                          checked={modifiers.includes(modifier)}
+                          onChange={(e) =>
+                            updateAction({
+                              modifiers: e.target.checked
+                                ? [...modifiers, modifier]
+                                : modifiers.filter((m) => m !== modifier),
+                            } as Partial<UIAction>)
+                          }
+                        />
+                        {modifier}
+                      </label>
+                    );
+                  })}
+                </div>
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Target (optional)</label>
+                  <SelectorInput
+                    value={step.selectors[0]?.value || ''}
+                    onChange={updateSelector}
+                    suggestions={step.selectors}
+                    onSuggestionsRequest={() => {}}
+                  />
+                  <p className="text-[10px] text-dark-600 mt-1">Leave empty to press on the focused element</p>
+                </div>
+              </div>
+            )}
+
+            {step.action.type === 'extract' && (
+              <div className="mb-3 space-y-2">
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Source</label>
+                    <select
+                      value={step.action.source}
+                      onChange={(e) => updateAction({ source: e.target.value } as Partial<UIAction>)}
+                      className="input input-sm"
+                    >
+                      <option value="text">Element text</option>
+                      <option value="attribute">Attribute</option>
+                      <option value="value">Input value</option>
+                      <option value="url">Page URL</option>
+                    </select>
+                  </div>
+                  {step.action.source === 'attribute' && (
+                    <div className="flex-1">
+                      <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Attribute</label>
+                      <input
+                        type="text"
+                        value={step.action.attribute || ''}
+                        onChange={(e) => updateAction({ attribute: e.target.value } as Partial<UIAction>)}
+                        placeholder="href"
+                        className="input input-sm font-mono"
+                      />
+                    </div>
+                  )}
+                  {step.action.source === 'url' && (
+                    <div className="flex-1">
+                      <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Part</label>
+                      <select
+                        value={step.action.urlPart || 'href'}
+                        onChange={(e) => updateAction({ urlPart: e.target.value } as Partial<UIAction>)}
+                        className="input input-sm"
+                      >
+                        <option value="href">Full URL</option>
+                        <option value="pathname">Path</option>
+                        <option value="search">Query string</option>
+                        <option value="hash">Hash</option>
+                      </select>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Pattern (optional)</label>
+                  <input
+                    type="text"
+                    value={step.action.pattern || ''}
+                    onChange={(e) => updateAction({ pattern: e.target.value || undefined } as Partial<UIAction>)}
+                    placeholder="Order #(\d+)"
+                    className="input input-sm font-mono text-[11px]"
+                  />
+                  <p className="text-[10px] text-dark-600 mt-1">Regex; keeps the first capture group, or the whole match</p>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Store As</label>
+                  <input
+                    type="text"
+                    value={step.action.variable}
+                    onChange={(e) => updateAction({ variable: e.target.value.replace(/\W/g, '') } as Partial<UIAction>)}
+                    placeholder="orderNumber"
+                    className="input input-sm font-mono"
+                  />
+                  <p className="text-[10px] text-dark-600 mt-1">
+                    Later steps use {`{{${step.action.variable || 'orderNumber'}}}`}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {step.action.type === 'script' && (
+              <div className="mb-3 space-y-2">
+                <div>
+                  <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Code</label>
+                  <textarea
+                    value={step.action.code}
+                    onChange={(e) => updateAction({ code: e.target.value } as Partial<UIAction>)}
+                    placeholder={"localStorage.setItem('token', vars.token);\nreturn window.app.version;"}
+                    rows={5}
+                    spellCheck={false}
+                    className="input input-sm font-mono text-[11px] resize-y"
+                  />
+                  <p className="text-[10px] text-dark-600 mt-1">
+                    Runs in the page as an async function; test variables are in <code>vars</code>
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Store Result As</label>
+                    <input
+                      type="text"
+                      value={step.action.variable || ''}
+                      onChange={(e) => updateAction({ variable: e.target.value.replace(/\W/g, '') || undefined } as Partial<UIAction>)}
+                      placeholder="optional"
+                      className="input input-sm font-mono"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Expect Result</label>
+                    <input
+                      type="text"
+                      value={step.action.expected ?? ''}
+                      onChange={(e) => updateAction({ expected: e.target.value || undefined } as Partial<UIAction>)}
+                      placeholder="optional"
+                      className="input input-sm"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {step.action.type === 'screenshot' && (
+              <div className="mb-3 space-y-2">
+                <label className="flex items-center gap-2 text-xs text-dark-300">
+                  <input
+                    type="checkbox"
+                    checked={step.action.fullPage ?? false}
+                    disabled={step.action.element}
+                    onChange={(e) => updateAction({ fullPage: e.target.checked } as Partial<UIAction>)}
+                  />
+                  Capture full page
+                </label>
+                <label className="flex items-center gap-2 text-xs text-dark-300">
+                  <input
+                    type="checkbox"
+                    checked={step.action.element ?? false}
+                    onChange={(e) => {
+                      updateAction({ element: e.target.checked, fullPage: undefined } as Partial<UIAction>);
+                      if (e.target.checked && step.selectors.length === 0) {
+                        onUpdate({ selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] });
+                      }
+                    }}
+                  />
+                  Clip to element
+                </label>
+                {step.action.element && (
+                  <SelectorInput
+                    value={step.selectors[0]?.value || ''}
+                    onChange={updateSelector}
+                    suggestions={step.selectors}
+                    onSuggestionsRequest={() => {}}
+                  />
+                )}
+              </div>
+            )}
+
+            {step.action.type === 'a11yAudit' && (
+              <div className="mb-3 space-y-2">
+                <label className="flex items-center gap-2 text-xs text-dark-300">
+                  <input
+                    type="checkbox"
+                    checked={step.selectors.length > 0}
+                    onChange={(e) =>
+                      onUpdate({ selectors: e.target.checked ? [{ type: 'css', value: '', priority: 0, confidence: 1 }] : [] })
+                    }
+                  />
+                  Only audit an element and its contents
+                </label>
+                {step.selectors.length > 0 && (
+                  <SelectorInput
+                    value={step.selectors[0]?.value || ''}
+                    onChange={updateSelector}
+                    suggestions={step.selectors}
+                    onSuggestionsRequest={() => {}}
+                  />
+                )}
+                <A11yAuditFields
+                  action={step.action}
+                  onChange={(updates) => updateAction(updates as Partial<UIAction>)}
+                  results={result?.assertionResults}
+                />
+              </div>
+            )}
+
             {step.action.type === 'select' && (
               <div className="mb-3">
                 <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Value</label>
@@ -512,6 +1252,188 @@ function StepItem({
               </div>
             )}
 
+            {/* Wait strategy and per-step timeout */}
+            {step.action.type !== 'waitTime' && !isBlockStep(step) && (
+              <div className="mb-3">
+                <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Wait until</label>
+                <div className="flex gap-2">
+                  <select
+                    value={step.waitConfig?.strategy || ''}
+                    onChange={(e) =>
+                      onUpdate({
+                        waitConfig: e.target.value
+                          ? {
+                              timeout: step.waitConfig?.timeout || 30000,
+                              ...step.waitConfig,
+                              strategy: e.target.value as WaitConfig['strategy'],
+                            }
+                          : undefined,
+                      })
+                    }
+                    className="input input-sm flex-1"
+                  >
+                    <option value="">Default (visible, 30s)</option>
+                    {WAIT_STRATEGIES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  {step.waitConfig && (
+                    <input
+                      type="number"
+                      value={step.waitConfig.timeout}
+                      onChange={(e) =>
+                        onUpdate({ waitConfig: { ...step.waitConfig!, timeout: parseInt(e.target.value) || 30000 } })
+                      }
+                      min="100"
+                      step="500"
+                      title="Timeout (ms)"
+                      className="input input-sm w-24"
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Retries of a failing step; overrides the test's step retries */}
+            {!isBlockStep(step) && (
+              <div className="mb-3 space-y-1.5">
+                <label className="flex items-center gap-2 text-xs text-dark-300">
+                  <input
+                    type="checkbox"
+                    checked={!!step.retry}
+                    onChange={(e) => onUpdate({ retry: e.target.checked ? createRetryPolicy() : undefined })}
+                  />
+                  Retry on failure
+                </label>
+                {step.retry && <RetryPolicyFields policy={step.retry} onChange={(retry) => onUpdate({ retry })} />}
+              </div>
+            )}
+
+            {/* Assertions (checked after the action runs); screenshot steps take visual ones */}
+            {(step.selectors.length > 0 || step.action.type === 'screenshot') &&
+              step.action.type !== 'dialog' &&
+              step.action.type !== 'a11yAudit' &&
+              !isBlockStep(step) && (
+              <div className="mb-3">
+                <label className="block text-[11px] text-dark-500 mb-1 uppercase tracking-wider">Assertions</label>
+                <AssertionEditor
+                  assertions={step.assertions || []}
+                  onChange={(assertions) => onUpdate({ assertions })}
+                  results={result?.assertionResults}
+                />
+              </div>
+            )}
+
+            {/* Healed selector (passed after retrying with a suggested selector) */}
+            {result?.healed && result.selectorHealing && (
+              <div className="p-2 bg-amber-500/10 rounded border border-amber-500/20 mb-3">
+                <div className="flex items-start gap-2">
+                  <Wand2 className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs text-amber-300">
+                      Passed (healed): element found with{' '}
+                      <code className="font-mono">{result.selectorHealing.suggestedSelectors[0]?.value}</code>
+                    </div>
+                    <div className="text-[11px] text-dark-400 mt-0.5">
+                      was <code className="font-mono">{result.selectorHealing.originalSelector.value}</code>
+                      {' · '}{Math.round(result.selectorHealing.confidence * 100)}% confidence
+                    </div>
+                    {result.selectorHealing.aiExplanation && (
+                      <div className="text-[11px] text-dark-400 mt-0.5">{result.selectorHealing.aiExplanation}</div>
+                    )}
+                    {onAcceptHealing && step.selectors[0]?.value !== result.selectorHealing.suggestedSelectors[0]?.value && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onAcceptHealing(result.selectorHealing!.suggestedSelectors);
+                        }}
+                        className="mt-2 flex items-center gap-1.5 px-2 py-1 text-xs bg-amber-500/20 text-amber-400 rounded hover:bg-amber-500/30 transition-colors"
+                      >
+                        <CheckCircle className="w-3 h-3" />
+                        Accept healed selector
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Value an extract step stored */}
+            {result?.extracted && (
+              <div className="p-2 bg-dark-800/50 rounded border border-dark-700 mb-3 flex items-start gap-2 text-xs">
+                <Variable className="w-3.5 h-3.5 text-dark-400 flex-shrink-0 mt-0.5" />
+                <span className="flex-1 min-w-0 break-words text-dark-300">
+                  <span className="font-mono text-dark-500">{`{{${result.extracted.variable}}}`}</span>
+                  {' = '}
+                  <span className="font-mono">"{result.extracted.value}"</span>
+                </span>
+              </div>
+            )}
+
+            {/* Native dialogs the step opened */}
+            {result?.dialogs && result.dialogs.length > 0 && (
+              <div className="p-2 bg-dark-800/50 rounded border border-dark-700 mb-3 space-y-1">
+                {result.dialogs.map((dialog, i) => (
+                  <div key={i} className="flex items-start gap-2 text-xs">
+                    <MessageSquare className="w-3.5 h-3.5 text-dark-400 flex-shrink-0 mt-0.5" />
+                    <span className="flex-1 min-w-0 break-words text-dark-300">
+                      <span className="text-dark-500">{dialog.type}</span>
+                      {dialog.message && ` "${dialog.message}"`}
+                      {' → '}
+                      {dialog.accepted ? 'accepted' : 'dismissed'}
+                      {dialog.promptText && ` with "${dialog.promptText}"`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Page console output and uncaught errors during the step */}
+            {result?.logs && result.logs.length > 0 && (
+              <div className="p-2 bg-dark-800/50 rounded border border-dark-700 mb-3 space-y-1 max-h-40 overflow-auto">
+                {result.logs.map((entry, i) => (
+                  <div key={i} className="flex items-start gap-2 text-xs" title={entry.stack}>
+                    <Terminal
+                      className={clsx(
+                        'w-3.5 h-3.5 flex-shrink-0 mt-0.5',
+                        entry.level === 'error' ? 'text-red-400' : 'text-amber-400'
+                      )}
+                    />
+                    <span className="flex-1 min-w-0 break-words font-mono text-dark-300">
+                      {entry.source && entry.source !== 'console' && (
+                        <span className="text-red-400">{entry.source === 'exception' ? 'uncaught ' : 'rejection '}</span>
+                      )}
+                      {entry.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Requests the step made */}
+            {result?.network && result.network.length > 0 && (
+              <div className="p-2 bg-dark-800/50 rounded border border-dark-700 mb-3">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowNetwork(!showNetwork);
+                  }}
+                  className="w-full flex items-center gap-2 text-xs text-dark-400 hover:text-dark-200"
+                >
+                  <Globe className="w-3.5 h-3.5" />
+                  <span className="flex-1 text-left">
+                    {result.network.length} request{result.network.length !== 1 ? 's' : ''}
+                  </span>
+                  <ChevronRight className={clsx('w-3 h-3 transition-transform', showNetwork && 'rotate-90')} />
+                </button>
+                {showNetwork && (
+                  <div className="mt-2">
+                    <NetworkList entries={result.network} />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Error display */}
             {result?.error && (
               <div className="p-2 bg-red-500/10 rounded border border-red-500/20 mb-3">
@@ -567,6 +1489,137 @@ function StepItem({
           </div>
         </div>
       )}
+
+      {/* Nested steps of if/repeat/forEach */}
+      {branches.length > 0 && (
+        <div className="pl-8 pr-2 pb-2 space-y-2">
+          {branches.map((branch) => (
+            <div key={branch.key}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-[10px] text-dark-500 uppercase tracking-wider">{branch.label}</span>
+                <AddStepMenu nested onAdd={(type) => addNestedStep(branch.key, type)} />
+              </div>
+              <div className="border-l border-dark-700 pl-2">
+                {branch.steps.length > 0 ? (
+                  <StepList steps={branch.steps} onStepsChange={(steps) => updateBranch(branch.key, steps)} shared={shared} />
+                ) : (
+                  <p className="text-[11px] text-dark-600 py-1">No steps</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type BlockBranch = 'then' | 'else' | 'steps';
+
+function getBlockBranches(action: UIAction): { key: BlockBranch; label: string; steps: UIStep[] }[] {
+  switch (action.type) {
+    case 'if':
+      return [
+        { key: 'then', label: 'Then', steps: action.then },
+        { key: 'else', label: 'Else', steps: action.else ?? [] },
+      ];
+    case 'repeat':
+      return [{ key: 'steps', label: action.until ? `Repeat (max ${action.times})` : `Repeat ${action.times}×`, steps: action.steps }];
+    case 'forEach':
+      return [{ key: 'steps', label: `For each {{${action.variable}}}`, steps: action.steps }];
+    default:
+      return [];
+  }
+}
+
+interface ConditionEditorProps {
+  condition: StepCondition;
+  selectors: SelectorStrategy[];
+  onChange: (condition: StepCondition) => void;
+  onSelectorChange: (selector: string, allSelectors?: SelectorStrategy[]) => void;
+}
+
+/**
+ * Element conditions use the block step's own selectors
+ */
+function ConditionEditor({ condition, selectors, onChange, onSelectorChange }: ConditionEditorProps) {
+  return (
+    <div className="mb-3 space-y-2">
+      <label className="block text-[11px] text-dark-500 uppercase tracking-wider">Condition</label>
+      <div className="flex gap-2">
+        {(['element', 'variable'] as const).map((type) => (
+          <button
+            key={type}
+            onClick={() =>
+              onChange(type === 'element' ? { type: 'element', state: 'visible' } : { type: 'variable', variable: '', operator: 'equals', value: '' })
+            }
+            className={clsx(
+              'flex-1 px-3 py-1.5 rounded text-xs transition-colors capitalize',
+              condition.type === type ? 'bg-accent text-white' : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+            )}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+
+      {condition.type === 'element' ? (
+        <>
+          <SelectorInput
+            value={selectors[0]?.value || ''}
+            onChange={onSelectorChange}
+            suggestions={selectors}
+            onSuggestionsRequest={() => {}}
+          />
+          <div className="flex gap-2">
+            <select
+              value={condition.state}
+              onChange={(e) => onChange({ ...condition, state: e.target.value as 'visible' | 'hidden' })}
+              className="input input-sm flex-1"
+            >
+              <option value="visible">is visible</option>
+              <option value="hidden">is hidden or missing</option>
+            </select>
+            <input
+              type="number"
+              value={condition.timeout ?? 0}
+              onChange={(e) => onChange({ ...condition, timeout: parseInt(e.target.value) || undefined })}
+              min="0"
+              step="500"
+              title="Wait up to (ms) for the state before deciding"
+              className="input input-sm w-24"
+            />
+          </div>
+        </>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={condition.variable}
+            onChange={(e) => onChange({ ...condition, variable: e.target.value.replace(/\W/g, '') })}
+            placeholder="variable"
+            className="input input-sm flex-1 font-mono"
+          />
+          <select
+            value={condition.operator}
+            onChange={(e) => onChange({ ...condition, operator: e.target.value as typeof condition.operator })}
+            className="input input-sm"
+          >
+            {VARIABLE_OPERATORS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {condition.operator !== 'isEmpty' && condition.operator !== 'isNotEmpty' && (
+            <input
+              type="text"
+              value={condition.value || ''}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              placeholder="value"
+              className="input input-sm flex-1"
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -591,6 +1644,44 @@ function createStep(type: StepType, order: number): UIStep {
       return { ...baseStep, name: 'Type text', action: { type: 'type', text: '' }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] };
     case 'select':
       return { ...baseStep, name: 'Select option', action: { type: 'select', value: '' }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] };
+    case 'hover':
+      return { ...baseStep, name: 'Hover element', action: { type: 'hover' }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] };
+    case 'drag':
+      return { ...baseStep, name: 'Drag element', action: { type: 'drag', targetSelectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] };
+    case 'upload':
+      return { ...baseStep, name: 'Upload file', action: { type: 'upload', files: [] }, selectors: [{ type: 'css', value: 'input[type="file"]', priority: 0, confidence: 1 }] };
+    case 'dialog':
+      return { ...baseStep, name: 'Accept dialog', action: { type: 'dialog', action: 'accept' }, selectors: [] };
+    case 'press':
+      return { ...baseStep, name: 'Press Enter', action: { type: 'press', key: 'Enter' }, selectors: [] };
+    case 'extract':
+      return { ...baseStep, name: 'Extract text', action: { type: 'extract', variable: '', source: 'text' }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] };
+    case 'script':
+      return { ...baseStep, name: 'Run script', action: { type: 'script', code: '' }, selectors: [] };
+    case 'reload':
+      return { ...baseStep, name: 'Reload page', action: { type: 'reload' }, selectors: [] };
+    case 'goBack':
+      return { ...baseStep, name: 'Go back', action: { type: 'goBack' }, selectors: [] };
+    case 'goForward':
+      return { ...baseStep, name: 'Go forward', action: { type: 'goForward' }, selectors: [] };
+    case 'waitForPopup':
+      return { ...baseStep, name: 'Wait for new tab', action: { type: 'waitForPopup' }, selectors: [] };
+    case 'switchTab':
+      return { ...baseStep, name: 'Switch to starting tab', action: { type: 'switchTab', index: 0 }, selectors: [] };
+    case 'closeTab':
+      return { ...baseStep, name: 'Close tab', action: { type: 'closeTab' }, selectors: [] };
+    case 'if':
+      return { ...baseStep, name: 'If element is visible', action: { type: 'if', condition: { type: 'element', state: 'visible' }, then: [] }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }] };
+    case 'repeat':
+      return { ...baseStep, name: 'Repeat 3 times', action: { type: 'repeat', times: 3, steps: [] }, selectors: [] };
+    case 'forEach':
+      return { ...baseStep, name: 'For each item', action: { type: 'forEach', items: '', variable: 'item', steps: [] }, selectors: [] };
+    case 'screenshot':
+      return { ...baseStep, name: 'Take screenshot', action: { type: 'screenshot' }, selectors: [] };
+    case 'a11yAudit':
+      return { ...baseStep, name: 'Audit accessibility', action: { type: 'a11yAudit' }, selectors: [] };
+    case 'saveStorageState':
+      return { ...baseStep, name: 'Save storage state', action: { type: 'saveStorageState', name: 'logged-in' }, selectors: [] };
     case 'assert':
       return { ...baseStep, name: 'Assert element visible', action: { type: 'waitForElement' }, selectors: [{ type: 'css', value: '', priority: 0, confidence: 1 }], assertions: [{ type: 'visibility', expected: 'visible' }] };
     case 'wait':
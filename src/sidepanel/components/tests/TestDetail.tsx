@@ -1,18 +1,28 @@
 import { useState, useEffect, useRef } from 'react';
-import { Play, Save, Loader2, CheckCircle, XCircle, Database, ListChecks, Sparkles, FileDown, Code, History, MoreVertical, Trash2, Pencil, Check, X, Link, Square } from 'lucide-react';
-import { TestRepository, ResultRepository } from '@/core/storage/repositories';
+import { Play, Save, Loader2, CheckCircle, XCircle, Database, ListChecks, Sparkles, FileDown, Code, History, MoreVertical, Trash2, Pencil, Check, X, Link, Square, MessageSquare, RotateCcw, Footprints, Bug, Globe, ScanEye, Gauge } from 'lucide-react';
+import { TestRepository, ResultRepository, ScreenshotRepository } from '@/core/storage/repositories';
 import type { TestRun } from '@/types/result';
 import { StepEditor } from '../steps/StepEditor';
+import { RetryPolicyFields, createRetryPolicy } from '../steps/RetryPolicyFields';
 import { DataPanel } from '../data/DataPanel';
+import { FixturesPanel } from '../data/FixturesPanel';
+import { MockRulesPanel } from '../data/MockRulesPanel';
+import { PerformanceBudgetPanel } from '../data/PerformanceBudgetPanel';
+import { StorageStatePanel } from '../data/StorageStatePanel';
 import { ExportModal } from '../export/ExportModal';
-import type { Test, UIStep, ScenarioType } from '@/types/test';
-import type { ValidationContext, AIValidationData } from '@/types/validation';
+import { TraceViewer } from '../results/TraceViewer';
+import { VisualReview } from '../results/VisualReview';
+import { PerformanceTrends } from '../results/PerformanceTrends';
+import { useTestRunner } from '../../hooks/useTestRunner';
+import type { Test, UIStep, ScenarioType, SelectorStrategy, DialogPolicy, TestRetryPolicy, MockRule, PerformanceBudget } from '@/types/test';
 import toast from 'react-hot-toast';
 import { clsx } from 'clsx';
 import { AIService } from '@/core/services/AIService';
-import { AIValidationService } from '@/core/services/AIValidationService';
 import { PDFReportService } from '@/core/services/PDFReportService';
+import { HARExportService } from '@/core/services/HARExportService';
 import { logger, sendToContent } from '@/shared/utils';
+import { flattenSteps, updateStepById } from '@/core/utils';
+import { getConfig } from '@/config';
 
 interface TestDetailProps {
   testId: string;
@@ -29,29 +39,13 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
   const [dataSetScenarios, setDataSetScenarios] = useState<ScenarioType[]>([]);
   const [isAIGenerated, setIsAIGenerated] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('steps');
-  const [isRunning, setIsRunning] = useState(false);
-  const [isStopping, setIsStopping] = useState(false);
-  const shouldStopRef = useRef(false);
   const [showMoreMenu, setShowMoreMenu] = useState(false);
   const moreMenuRef = useRef<HTMLDivElement>(null);
-  const [runProgress, setRunProgress] = useState<{
-    currentStep: number;
-    total: number;
-    currentDataSet: number;
-    totalDataSets: number;
-    currentStepId: string | null;
-    results: Array<{
-      dataSetIndex: number;
-      stepId: string;
-      status: 'passed' | 'failed';
-      error?: string;
-      duration?: number;
-      pageResponse?: string;
-      aiValidation?: AIValidationData;
-    }>;
-  } | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showTrace, setShowTrace] = useState(false);
+  const [showVisualReview, setShowVisualReview] = useState(false);
+  const [showPerformance, setShowPerformance] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   // Edit mode state
   const [isEditingName, setIsEditingName] = useState(false);
@@ -62,6 +56,11 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
   const [pageDirection, setPageDirection] = useState<{ direction: 'rtl' | 'ltr'; language?: string }>({ direction: 'ltr' });
   // Test run history (last 10 runs)
   const [testHistory, setTestHistory] = useState<TestRun[]>([]);
+  // Runs execute in the background service worker; only show this test's run
+  const { progress, startRun, stopRun } = useTestRunner();
+  const runProgress = progress?.testId === testId ? progress : null;
+  const isRunning = runProgress?.status === 'running' || runProgress?.status === 'stopping';
+  const isStopping = runProgress?.status === 'stopping';
 
   useEffect(() => {
     TestRepository.getById(testId).then((t) => {
@@ -82,6 +81,12 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
     });
   }, [testId]);
 
+  // Refresh history once a run of this test finishes
+  useEffect(() => {
+    if (!runProgress?.completedAt) return;
+    ResultRepository.getByTest(testId, 10).then(setTestHistory).catch(console.error);
+  }, [testId, runProgress?.completedAt]);
+
   const handleStepsChange = (newSteps: UIStep[]) => {
     setSteps(newSteps);
     setHasChanges(true);
@@ -423,8 +428,9 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
         dataSets,
         dataSetScenarios: dataSetScenarios.length > 0 ? dataSetScenarios : undefined,
         results: runProgress.results,
-        startedAt: Date.now() - (runProgress.results.reduce((sum, r) => sum + (r.duration || 0), 0)),
-        completedAt: Date.now(),
+        screenshots: await ScreenshotRepository.getByRun(runProgress.runId),
+        startedAt: runProgress.startedAt,
+        completedAt: runProgress.completedAt ?? Date.now(),
       });
 
       toast.dismiss(loadingToast);
@@ -530,416 +536,113 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
     }
   };
 
-  const handleStop = async () => {
-    setIsStopping(true);
-    shouldStopRef.current = true;
-
-    // Send stop command to content script
+  // Make a healed selector permanent without waiting for the next Save
+  const handleAcceptHealing = async (stepId: string, selectors: SelectorStrategy[]) => {
     try {
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (tab?.id) {
-        await chrome.tabs.sendMessage(tab.id, { type: 'playback:stop' });
-      }
+      await TestRepository.updateStep(testId, stepId, { selectors });
+      setSteps((prev) => updateStepById(prev, stepId, { selectors }));
+      toast.success('Selector updated');
     } catch (error) {
-      logger.warn('Failed to send stop command:', error);
+      logger.error('Failed to accept healed selector:', error);
+      toast.error('Failed to update selector');
     }
-
-    toast.success('Stopping test...');
   };
 
-  const handleRun = async () => {
-    if (steps.length === 0) {
-      toast.error('Add at least one step before running');
-      return;
-    }
-
-    // Reset stop flag
-    shouldStopRef.current = false;
-    setIsStopping(false);
-
-    setIsRunning(true);
-    setRunProgress({
-      currentStep: 0,
-      total: steps.length,
-      currentDataSet: 0,
-      totalDataSets: dataSets.length,
-      currentStepId: null,
-      results: [],
-    });
+  const handleDialogPolicyChange = async (dialogPolicy: DialogPolicy) => {
+    if (!test) return;
 
-    // Track results in local variable to avoid stale closure issues with React state
-    const collectedResults: Array<{
-      dataSetIndex: number;
-      stepId: string;
-      status: 'passed' | 'failed';
-      error?: string;
-      duration: number;
-      pageResponse?: string;
-      aiValidation?: any;
-    }> = [];
-
-    // Initialize AI validation service
-    const validationService = new AIValidationService();
     try {
-      await validationService.initialize();
+      await TestRepository.update(testId, { dialogPolicy });
+      setTest({ ...test, dialogPolicy });
     } catch (error) {
-      logger.warn('AI validation not available, using fallback:', error);
+      toast.error('Failed to update dialog handling');
     }
+  };
 
-    // Helper function to validate a step result with AI
-    const validateStepResult = async (
-      stepResult: { stepId: string; status: string; error?: string; pageResponse?: string; context?: any },
-      step: UIStep,
-      dataSetIndex: number,
-      variables: Record<string, string>,
-      previousUrl: string
-    ) => {
-      const scenario = dataSetScenarios[dataSetIndex] || 'normal';
-
-      // If step already failed due to execution error, keep it as failed
-      if (stepResult.status === 'failed' && stepResult.error) {
-        return {
-          dataSetIndex,
-          stepId: stepResult.stepId,
-          status: 'failed' as const,
-          error: stepResult.error,
-          duration: (stepResult as any).duration || 0,
-          pageResponse: stepResult.pageResponse,
-        };
-      }
-
-      // Build validation context
-      const validationContext: ValidationContext = {
-        stepName: step.name,
-        stepIndex: steps.findIndex(s => s.id === step.id),
-        totalSteps: steps.length,
-        actionType: step.action.type,
-        actionDescription: getActionDescription(step),
-        pageResponse: stepResult.pageResponse,
-        urlBefore: previousUrl,
-        urlAfter: stepResult.context?.urlAfter || previousUrl,
-        titleBefore: stepResult.context?.titleBefore || '',
-        titleAfter: stepResult.context?.titleAfter || '',
-        scenario,
-        variables,
-      };
+  const handleRetryPolicyChange = async (retryPolicy: TestRetryPolicy | undefined) => {
+    if (!test) return;
 
-      // Validate with AI
-      const validation = await validationService.validateStep(validationContext);
-
-      return {
-        dataSetIndex,
-        stepId: stepResult.stepId,
-        status: validation.status,
-        error: validation.status === 'failed' ? validation.reason : undefined,
-        duration: (stepResult as any).duration || 0,
-        pageResponse: stepResult.pageResponse,
-        aiValidation: validationService.toAIValidationData(validation),
-      };
-    };
+    try {
+      await TestRepository.update(testId, { retryPolicy });
+      setTest({ ...test, retryPolicy });
+    } catch (error) {
+      toast.error('Failed to update retries');
+    }
+  };
 
-    // Helper to get action description for AI context
-    const getActionDescription = (step: UIStep): string => {
-      const action = step.action as any;
-      switch (action.type) {
-        case 'type': return `Type "${action.text}" into field`;
-        case 'click': return `Click on element`;
-        case 'navigate': return `Navigate to ${action.url}`;
-        case 'select': return `Select option "${action.value}"`;
-        case 'waitTime': return `Wait ${action.duration}ms`;
-        default: return action.type;
-      }
-    };
+  const handleFailOnPageErrorChange = async (failOnPageError: boolean) => {
+    if (!test) return;
 
     try {
-      // Get active tab
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (!tab?.id) {
-        throw new Error('No active tab found');
-      }
+      await TestRepository.update(testId, { failOnPageError });
+      setTest({ ...test, failOnPageError });
+    } catch (error) {
+      toast.error('Failed to update page error handling');
+    }
+  };
 
-      // Helper to ensure content script is loaded
-      const ensureContentScript = async () => {
-        try {
-          await chrome.tabs.sendMessage(tab.id!, { type: 'ping' });
-        } catch {
-          await chrome.scripting.executeScript({
-            target: { tabId: tab.id! },
-            files: ['content.js'],
-          });
-          await new Promise((r) => setTimeout(r, 300));
-        }
-      };
+  const handleMockRulesChange = async (mockRules: MockRule[]) => {
+    if (!test) return;
 
-      // Run for each data set
-      for (let dataSetIndex = 0; dataSetIndex < dataSets.length; dataSetIndex++) {
-        // Check if user requested stop
-        if (shouldStopRef.current) {
-          toast.success('Test stopped by user');
-          break;
-        }
+    try {
+      await TestRepository.update(testId, { mockRules });
+      setTest({ ...test, mockRules });
+    } catch (error) {
+      toast.error('Failed to update network mocks');
+    }
+  };
 
-        const variables = dataSets[dataSetIndex];
-        setRunProgress((prev) => prev && { ...prev, currentDataSet: dataSetIndex });
+  const handlePerformanceBudgetChange = async (performanceBudget: PerformanceBudget | undefined) => {
+    if (!test) return;
 
-        // Navigate to initial test URL if specified
-        if (test?.url && test.url !== 'https://') {
-          let url = test.url;
-          Object.entries(variables).forEach(([key, value]) => {
-            url = url.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-          });
-          await chrome.tabs.update(tab.id, { url });
-          await new Promise((r) => setTimeout(r, 2500));
-          await ensureContentScript();
-        }
+    try {
+      await TestRepository.update(testId, { performanceBudget });
+      setTest({ ...test, performanceBudget });
+    } catch (error) {
+      toast.error('Failed to update performance budget');
+    }
+  };
 
-        // Listen for step progress
-        const progressListener = (message: { type: string; stepId: string; index: number }) => {
-          if (message.type === 'playback:step-start') {
-            setRunProgress((prev) => {
-              if (!prev) return null;
-              return {
-                ...prev,
-                currentStepId: message.stepId,
-                currentStep: message.index,
-              };
-            });
-          }
-        };
-
-        chrome.runtime.onMessage.addListener(progressListener);
-
-        try {
-          // Execute steps ONE AT A TIME to properly handle navigation between steps
-          for (let i = 0; i < steps.length; i++) {
-            // Check if user requested stop
-            if (shouldStopRef.current) {
-              break;
-            }
-
-            const step = steps[i];
-
-            // Mark step as in progress
-            setRunProgress((prev) => {
-              if (!prev) return null;
-              return { ...prev, currentStepId: step.id, currentStep: i };
-            });
-
-            const startTime = Date.now();
-
-            // Handle navigate and waitTime from sidepanel (not content script)
-            if (step.action.type === 'navigate' || step.action.type === 'waitTime') {
-              try {
-                if (step.action.type === 'navigate') {
-                  const navAction = step.action as { url: string };
-                  let url = navAction.url;
-                  Object.entries(variables).forEach(([key, value]) => {
-                    url = url.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-                  });
-
-                  await chrome.tabs.update(tab.id, { url });
-
-                  // Wait for page load
-                  await new Promise<void>((resolve) => {
-                    let loaded = false;
-                    const loadTimeout = setTimeout(() => {
-                      if (!loaded) { loaded = true; resolve(); }
-                    }, 8000);
-
-                    const listener = (tabId: number, info: chrome.tabs.TabChangeInfo) => {
-                      if (tabId === tab.id && info.status === 'complete' && !loaded) {
-                        loaded = true;
-                        clearTimeout(loadTimeout);
-                        chrome.tabs.onUpdated.removeListener(listener);
-                        setTimeout(() => resolve(), 500);
-                      }
-                    };
-                    chrome.tabs.onUpdated.addListener(listener);
-                    setTimeout(() => chrome.tabs.onUpdated.removeListener(listener), 8500);
-                  });
-
-                  await ensureContentScript();
-                } else if (step.action.type === 'waitTime') {
-                  const waitAction = step.action as { duration: number };
-                  await new Promise((resolve) => setTimeout(resolve, waitAction.duration));
-                }
+  const handleStorageStateChange = async (updates: Pick<Test, 'storageState' | 'clearState'>) => {
+    if (!test) return;
 
-                const duration = Date.now() - startTime;
-                const passedResult = { dataSetIndex, stepId: step.id, status: 'passed' as const, duration };
-                collectedResults.push(passedResult);
-                setRunProgress((prev) => {
-                  if (!prev) return null;
-                  return { ...prev, currentStepId: null, results: [...prev.results, passedResult] };
-                });
-              } catch (error) {
-                const failedResult = {
-                  dataSetIndex,
-                  stepId: step.id,
-                  status: 'failed' as const,
-                  error: `${step.action.type === 'navigate' ? 'Navigation' : 'Wait'} failed: ${error instanceof Error ? error.message : String(error)}`,
-                  duration: 0
-                };
-                collectedResults.push(failedResult);
-                setRunProgress((prev) => {
-                  if (!prev) return null;
-                  return { ...prev, currentStepId: null, results: [...prev.results, failedResult] };
-                });
-                throw error;
-              }
-            } else {
-              // Execute single step in content script
-              let stepExecuted = false;
-              let retryCount = 0;
-              const maxRetries = 2;
-
-              while (!stepExecuted && retryCount <= maxRetries) {
-                try {
-                  const response = await chrome.tabs.sendMessage(tab.id, {
-                    type: 'playback:execute',
-                    steps: [step], // Execute ONE step at a time
-                    variables,
-                    timeout: 30000,
-                  });
-
-                  if (response?.result?.stepResults?.[0]) {
-                    const stepResult = response.result.stepResults[0];
-                    const validatedResult = await validateStepResult(
-                      stepResult,
-                      step,
-                      dataSetIndex,
-                      variables,
-                      tab.url || ''
-                    );
-                    collectedResults.push(validatedResult);
-                    setRunProgress((prev) => {
-                      if (!prev) return null;
-                      return { ...prev, currentStepId: null, results: [...prev.results, validatedResult] };
-                    });
-                    stepExecuted = true;
-
-                    // If step failed, don't continue unless continueOnFailure is set
-                    if (validatedResult.status === 'failed' && !step.continueOnFailure) {
-                      throw new Error(validatedResult.error || 'Step failed');
-                    }
-                  } else {
-                    // No result returned - step may have succeeded but page navigated
-                    logger.warn(`No result for step ${step.id}, assuming success after navigation`);
-                    const duration = Date.now() - startTime;
-                    const passedResult = { dataSetIndex, stepId: step.id, status: 'passed' as const, duration };
-                    collectedResults.push(passedResult);
-                    setRunProgress((prev) => {
-                      if (!prev) return null;
-                      return { ...prev, currentStepId: null, results: [...prev.results, passedResult] };
-                    });
-                    stepExecuted = true;
-                  }
-                } catch (error) {
-                  const errorMsg = (error instanceof Error ? error.message : String(error)).toLowerCase();
-                  const isNavigationError =
-                    errorMsg.includes('message channel closed') ||
-                    errorMsg.includes('receiving end does not exist') ||
-                    errorMsg.includes('context invalidated') ||
-                    errorMsg.includes('bfcache') ||
-                    errorMsg.includes('extension port');
-
-                  if (isNavigationError && retryCount < maxRetries) {
-                    // Page navigated - wait for it to load and retry
-                    logger.info(`Navigation detected after step ${i + 1}, waiting for page load...`);
-                    await new Promise((r) => setTimeout(r, 2000));
-                    await ensureContentScript();
-                    retryCount++;
-
-                    // Mark this step as passed (click likely succeeded and caused navigation)
-                    if (step.action.type === 'click' || step.action.type === 'dblclick') {
-                      const duration = Date.now() - startTime;
-                      const passedResult = { dataSetIndex, stepId: step.id, status: 'passed' as const, duration };
-                      collectedResults.push(passedResult);
-                      setRunProgress((prev) => {
-                        if (!prev) return null;
-                        return { ...prev, currentStepId: null, results: [...prev.results, passedResult] };
-                      });
-                      stepExecuted = true;
-                    }
-                  } else if (!isNavigationError) {
-                    // Real error - mark step as failed
-                    const failedResult = {
-                      dataSetIndex,
-                      stepId: step.id,
-                      status: 'failed' as const,
-                      error: error instanceof Error ? error.message : String(error),
-                      duration: Date.now() - startTime
-                    };
-                    collectedResults.push(failedResult);
-                    setRunProgress((prev) => {
-                      if (!prev) return null;
-                      return { ...prev, currentStepId: null, results: [...prev.results, failedResult] };
-                    });
-                    if (!step.continueOnFailure) {
-                      throw error;
-                    }
-                    stepExecuted = true;
-                  } else {
-                    // Navigation error but max retries reached - mark as passed
-                    const duration = Date.now() - startTime;
-                    const passedResult = { dataSetIndex, stepId: step.id, status: 'passed' as const, duration };
-                    collectedResults.push(passedResult);
-                    setRunProgress((prev) => {
-                      if (!prev) return null;
-                      return { ...prev, currentStepId: null, results: [...prev.results, passedResult] };
-                    });
-                    stepExecuted = true;
-                  }
-                }
-              }
-            }
-
-            // Small delay between steps
-            if (i < steps.length - 1) {
-              await new Promise((r) => setTimeout(r, 300));
-            }
-          }
-        } finally {
-          chrome.runtime.onMessage.removeListener(progressListener);
-        }
-      }
+    try {
+      await TestRepository.update(testId, updates);
+      setTest({ ...test, ...updates });
+    } catch (error) {
+      toast.error('Failed to update storage state');
+    }
+  };
 
-      toast.success('Test completed!');
-
-      // Save test run to history using collectedResults (not runProgress which has stale closure)
-      if (test) {
-        try {
-          const passed = collectedResults.filter(r => r.status === 'passed').length;
-          const failed = collectedResults.filter(r => r.status === 'failed').length;
-          // Mark as error if no steps were executed (empty test somehow got through)
-          const status = collectedResults.length === 0 ? 'error' : (failed > 0 ? 'failed' : 'passed');
-
-          const testRun = await ResultRepository.create(test.id, test.suiteId);
-          await ResultRepository.update(testRun.id, {
-            completedAt: Date.now(),
-            status,
-            summary: {
-              totalSteps: collectedResults.length,
-              passedSteps: passed,
-              failedSteps: failed,
-              skippedSteps: 0,
-              duration: Date.now() - testRun.startedAt,
-            },
-          });
+  const handleStop = async () => {
+    await stopRun();
+  };
 
-          // Refresh history
-          const history = await ResultRepository.getByTest(test.id, 10);
-          setTestHistory(history);
-        } catch (historyError) {
-          logger.warn('Failed to save test run to history:', historyError);
-        }
-      }
-    } catch (error) {
-      logger.error('Test execution error:', error);
-      toast.error('Test execution failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    } finally {
-      setIsRunning(false);
-      setIsStopping(false);
+  const handleRun = async () => {
+    if (!test) return;
+    if (steps.length === 0) {
+      toast.error('Add at least one step before running');
+      return;
     }
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    await startRun({
+      testId: test.id,
+      suiteId: test.suiteId,
+      testName: test.name,
+      url: test.url,
+      steps,
+      dataSets,
+      dataSetScenarios,
+      dialogPolicy: test.dialogPolicy,
+      retryPolicy: test.retryPolicy,
+      failOnPageError: test.failOnPageError,
+      mockRules: test.mockRules,
+      performanceBudget: test.performanceBudget,
+      storageState: test.storageState,
+      clearState: test.clearState,
+      tabId: tab?.id,
+    });
   };
 
   // Close dropdown when clicking outside (must be before conditional returns)
@@ -961,8 +664,8 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
     );
   }
 
-  const passedCount = runProgress?.results.filter((r) => r.status === 'passed').length || 0;
-  const failedCount = runProgress?.results.filter((r) => r.status === 'failed').length || 0;
+  const passedCount = runProgress?.results.filter((r) => r.status === 'passed' && !r.retried).length || 0;
+  const failedCount = runProgress?.results.filter((r) => r.status === 'failed' && !r.retried).length || 0;
 
   return (
     <div className="flex flex-col h-full">
@@ -1107,6 +810,53 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
                       Download Report
                     </button>
                   )}
+                  {runProgress?.completedAt && HARExportService.hasNetwork(runProgress.results) && (
+                    <button
+                      onClick={() => {
+                        setShowMoreMenu(false);
+                        HARExportService.download(test.name, steps, runProgress.results);
+                      }}
+                      className="dropdown-item w-full text-left"
+                    >
+                      <Globe className="w-4 h-4 text-green-400" />
+                      Download HAR
+                    </button>
+                  )}
+                  {runProgress?.completedAt && (
+                    <button
+                      onClick={() => {
+                        setShowMoreMenu(false);
+                        setShowTrace(true);
+                      }}
+                      className="dropdown-item w-full text-left"
+                    >
+                      <Footprints className="w-4 h-4 text-accent" />
+                      View Trace
+                    </button>
+                  )}
+                  {runProgress?.completedAt &&
+                    flattenSteps(steps).some((step) => step.assertions?.some((a) => a.type === 'visual')) && (
+                    <button
+                      onClick={() => {
+                        setShowMoreMenu(false);
+                        setShowVisualReview(true);
+                      }}
+                      className="dropdown-item w-full text-left"
+                    >
+                      <ScanEye className="w-4 h-4 text-accent" />
+                      Review Screenshots
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setShowMoreMenu(false);
+                      setShowPerformance(true);
+                    }}
+                    className="dropdown-item w-full text-left"
+                  >
+                    <Gauge className="w-4 h-4 text-accent" />
+                    Performance Trends
+                  </button>
                   <div className="dropdown-divider" />
                   <button
                     onClick={() => {
@@ -1182,7 +932,7 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
             <div
               className="h-full bg-accent transition-all"
               style={{
-                width: `${((runProgress.currentDataSet * steps.length + runProgress.results.length) / (runProgress.totalDataSets * steps.length)) * 100}%`,
+                width: `${((runProgress.currentDataSet * steps.length + passedCount + failedCount) / (runProgress.totalDataSets * steps.length)) * 100}%`,
               }}
             />
           </div>
@@ -1220,20 +970,97 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
       {/* Content */}
       <div className="flex-1 overflow-auto p-4">
         {activeTab === 'steps' ? (
-          <StepEditor
-            steps={steps}
-            onStepsChange={handleStepsChange}
-            currentStepId={runProgress?.currentStepId}
-            stepResults={runProgress?.results}
-          />
+          <>
+            {/* Answer for native dialogs that no dialog step handles */}
+            <div className="flex items-center gap-2 mb-3 text-xs text-dark-400">
+              <MessageSquare className="w-3.5 h-3.5" />
+              <span>Dialogs</span>
+              <select
+                value={test.dialogPolicy?.action ?? 'accept'}
+                onChange={(e) =>
+                  handleDialogPolicyChange({ ...test.dialogPolicy, action: e.target.value as DialogPolicy['action'] })
+                }
+                className="input input-sm w-auto py-0.5"
+              >
+                <option value="accept">Accept</option>
+                <option value="dismiss">Dismiss</option>
+              </select>
+              {(test.dialogPolicy?.action ?? 'accept') === 'accept' && (
+                <input
+                  type="text"
+                  defaultValue={test.dialogPolicy?.promptText || ''}
+                  onBlur={(e) =>
+                    handleDialogPolicyChange({ action: 'accept', promptText: e.target.value || undefined })
+                  }
+                  placeholder="Prompt answer (optional)"
+                  className="input input-sm flex-1 min-w-0 py-0.5"
+                />
+              )}
+            </div>
+            {/* Retries for failing steps, or for whole data sets */}
+            <div className="flex items-center gap-2 mb-3 text-xs text-dark-400">
+              <RotateCcw className="w-3.5 h-3.5" />
+              <span>Retries</span>
+              <select
+                value={test.retryPolicy?.scope ?? ''}
+                onChange={(e) =>
+                  handleRetryPolicyChange(
+                    e.target.value
+                      ? { ...(test.retryPolicy ?? createRetryPolicy()), scope: e.target.value as TestRetryPolicy['scope'] }
+                      : undefined
+                  )
+                }
+                className="input input-sm w-auto py-0.5"
+              >
+                <option value="">Off</option>
+                <option value="step">Failing step</option>
+                <option value="dataSet">Whole data set</option>
+              </select>
+              {test.retryPolicy && (
+                <RetryPolicyFields
+                  policy={test.retryPolicy}
+                  onChange={(policy) => handleRetryPolicyChange({ ...test.retryPolicy!, ...policy })}
+                />
+              )}
+            </div>
+            {/* Page console errors are always collected; uncaught ones can fail the step */}
+            <label className="flex items-center gap-2 mb-3 text-xs text-dark-400">
+              <Bug className="w-3.5 h-3.5" />
+              <input
+                type="checkbox"
+                checked={!!test.failOnPageError}
+                onChange={(e) => handleFailOnPageErrorChange(e.target.checked)}
+              />
+              Fail on uncaught page errors
+            </label>
+            <StepEditor
+              steps={steps}
+              onStepsChange={handleStepsChange}
+              currentStepId={runProgress?.currentStepId}
+              stepResults={runProgress?.results}
+              onAcceptHealing={handleAcceptHealing}
+            />
+          </>
         ) : (
-          <DataPanel
-            dataSets={dataSets}
-            onDataSetsChange={handleDataSetsChange}
-            onGenerateWithAI={handleGenerateWithAI}
-            onGenerateScenarioData={handleGenerateScenarioData}
-            dataSetScenarios={dataSetScenarios}
-          />
+          <div className="space-y-6">
+            <DataPanel
+              dataSets={dataSets}
+              onDataSetsChange={handleDataSetsChange}
+              onGenerateWithAI={handleGenerateWithAI}
+              onGenerateScenarioData={handleGenerateScenarioData}
+              dataSetScenarios={dataSetScenarios}
+            />
+            <FixturesPanel testId={testId} />
+            <StorageStatePanel
+              storageState={test.storageState}
+              clearState={test.clearState}
+              onChange={handleStorageStateChange}
+            />
+            {getConfig().features.networkMocking && (
+              <MockRulesPanel rules={test.mockRules ?? []} onChange={handleMockRulesChange} />
+            )}
+            <PerformanceBudgetPanel budget={test.performanceBudget} onChange={handlePerformanceBudgetChange} />
+          </div>
         )}
       </div>
 
@@ -1244,6 +1071,16 @@ export function TestDetail({ testId, onBack, onDelete }: TestDetailProps) {
         test={{ ...test, steps }}
         dataSets={dataSets}
       />
+
+      {showTrace && runProgress && (
+        <TraceViewer runId={runProgress.runId} onClose={() => setShowTrace(false)} />
+      )}
+      {showVisualReview && runProgress && (
+        <VisualReview runId={runProgress.runId} onClose={() => setShowVisualReview(false)} />
+      )}
+      {showPerformance && (
+        <PerformanceTrends testId={testId} budget={test.performanceBudget} onClose={() => setShowPerformance(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RunProgress, RunRequest } from '@/types/result';
+import { PERFORMANCE_METRICS } from '@/core/utils';
+import toast from 'react-hot-toast';
+
+export function useTestRunner() {
+  const [progress, setProgress] = useState<RunProgress | null>(null);
+
+  useEffect(() => {
+    // Pick up a run that started before this page was opened
+    chrome.runtime.sendMessage({ type: 'runner:get-state' }).then((response) => {
+      if (response?.progress) {
+        setProgress(response.progress);
+      }
+    }).catch(() => {
+      // Background not ready yet - progress events will follow
+    });
+
+    const handleMessage = (message: { type: string; progress?: RunProgress }) => {
+      if (!message.progress) return;
+
+      switch (message.type) {
+        case 'runner:progress':
+          setProgress(message.progress);
+          break;
+        case 'runner:completed':
+          setProgress(message.progress);
+          notifyCompleted(message.progress);
+          break;
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  const startRun = useCallback(async (request: RunRequest) => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'runner:start', request });
+      if (!response?.success) {
+        toast.error(response?.error || 'Failed to start test');
+        return null;
+      }
+      return response.runId as string;
+    } catch (error) {
+      console.error('Failed to start test:', error);
+      toast.error('Failed to start test');
+      return null;
+    }
+  }, []);
+
+  const stopRun = useCallback(async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'runner:stop' });
+    if (response?.success) {
+      toast.success('Stopping test...');
+    }
+  }, []);
+
+  return {
+    progress,
+    isRunning: progress?.status === 'running' || progress?.status === 'stopping',
+    startRun,
+    stopRun,
+  };
+}
+
+// Runs keep going in the background, so the toast names the test it's about
+function notifyCompleted(progress: RunProgress): void {
+  const name = `"${progress.testName}"`;
+  if (progress.status === 'stopped') {
+    toast.success(`${name} stopped by user`);
+  } else if (progress.error) {
+    toast.error(`${name} failed: ${progress.error}`);
+  } else if (progress.status === 'failed') {
+    // Failed steps, or a run that only went over its performance budget
+    const overBudget = [...new Set((progress.budgetViolations ?? []).map((v) =>
+      PERFORMANCE_METRICS.find((m) => m.metric === v.metric)?.label ?? v.metric
+    ))];
+    toast.error(overBudget.length > 0 ? `${name} failed, over budget on ${overBudget.join(', ')}` : `${name} failed`);
+  } else {
+    toast.success(`${name} completed!`);
+  }
+}
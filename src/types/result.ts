@@ -1,4 +1,16 @@
-import type { SelectorStrategy } from './test';
+import type {
+  A11yImpact,
+  A11yRuleId,
+  DialogPolicy,
+  MockRule,
+  PerformanceBudget,
+  PerformanceMetric,
+  SelectorStrategy,
+  ScenarioType,
+  TestRetryPolicy,
+  UIStep,
+} from './test';
+import type { AIValidationData } from './validation';
 
 export interface TestRun {
   id: string;
@@ -11,6 +23,47 @@ export interface TestRun {
   environment: ExecutionEnvironment;
   stepResults: StepResult[];
   summary: RunSummary;
+  performance?: PerformanceSample[];
+  budgetViolations?: BudgetViolation[];
+}
+
+/**
+ * Web performance of the page in the top frame, read after a step. Navigation
+ * timing, LCP, CLS and INP cover the page so far; long tasks and resources
+ * only what happened since the previous step. Times are ms from navigation start.
+ */
+export interface PageMetrics {
+  url: string;
+  pageStart: number; // performance.timeOrigin; samples of the same page share it
+  navigation?: NavigationMetrics; // On the samples of a page up to the first one after its load event
+  lcp?: number;
+  cls: number;
+  inp?: number; // Slowest interaction (98th percentile once there are many)
+  longTasks: number;
+  blockingTime: number; // Long task time beyond 50ms
+  resources: number;
+  transferSize: number; // Bytes; 0 for cached and cross-origin resources without Timing-Allow-Origin
+}
+
+export interface NavigationMetrics {
+  ttfb: number;
+  fcp?: number;
+  domContentLoaded: number;
+  load: number; // 0 while the page is still loading
+}
+
+export interface PerformanceSample extends PageMetrics {
+  stepId: string;
+  dataSetIndex: number;
+  timestamp: number;
+}
+
+export interface BudgetViolation {
+  metric: PerformanceMetric;
+  budget: number;
+  actual: number;
+  url: string;
+  dataSetIndex: number;
 }
 
 export interface ExecutionEnvironment {
@@ -25,6 +78,7 @@ export interface RunSummary {
   passedSteps: number;
   failedSteps: number;
   skippedSteps: number;
+  retriedSteps?: number; // Failed attempts superseded by a retry
   duration: number;
 }
 
@@ -38,6 +92,8 @@ export interface BaseStepResult {
   status: 'passed' | 'failed' | 'skipped' | 'error';
   error?: StepError;
   logs?: LogEntry[];
+  attempt?: number; // Which try produced the result; set once the step or its data set was retried
+  retried?: boolean; // A failed attempt that a retry superseded
 }
 
 export interface UIStepResult extends BaseStepResult {
@@ -46,7 +102,54 @@ export interface UIStepResult extends BaseStepResult {
   selectorHealing?: SelectorHealingSuggestion;
   screenshot?: Screenshot;
   assertionResults?: AssertionResult[];
-  domSnapshot?: string;
+  domSnapshot?: string; // Page after a failed step, when traces are on
+  dataSetIndex?: number;
+  pageResponse?: string;
+  aiValidation?: AIValidationData;
+  dialogs?: DialogInfo[];
+  extracted?: ExtractedValue;
+  network?: NetworkEntry[];
+  screenshotId?: string; // Image of a screenshot step, in the screenshots table
+}
+
+// Value an extract step stored into a variable
+export interface ExtractedValue {
+  variable: string;
+  value: string;
+}
+
+// A native dialog the page opened during a step, and how it was answered
+export interface DialogInfo {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  defaultValue?: string;
+  accepted: boolean;
+  promptText?: string;
+}
+
+// A fetch/XHR or document request the tab made while a step ran
+export interface NetworkEntry {
+  requestId: string;
+  type: 'fetch' | 'document';
+  method: string;
+  url: string;
+  status: number; // 0 when no response arrived
+  statusText?: string;
+  error?: string; // net::ERR_* of a failed request
+  redirectUrl?: string;
+  startedAt: number;
+  duration: number;
+  timing?: { blocked: number; wait: number; receive: number };
+  size?: number; // Response Content-Length, when the server sent one
+  mimeType?: string;
+  fromCache?: boolean;
+  requestHeaders?: HttpHeader[];
+  responseHeaders?: HttpHeader[];
+}
+
+export interface HttpHeader {
+  name: string;
+  value: string;
 }
 
 export interface APIStepResult extends BaseStepResult {
@@ -77,7 +180,7 @@ export interface APIStepResult extends BaseStepResult {
 export interface StepError {
   message: string;
   stack?: string;
-  type: 'timeout' | 'element-not-found' | 'assertion-failed' | 'network' | 'script' | 'unknown';
+  type: 'timeout' | 'element-not-found' | 'not-actionable' | 'assertion-failed' | 'network' | 'script' | 'unknown';
   recoverable: boolean;
 }
 
@@ -108,6 +211,10 @@ export interface AssertionResult {
   expected: unknown;
   actual: unknown;
   message?: string;
+  // Set on violations of an a11yAudit step, whose assertionIndex is -1
+  rule?: A11yRuleId;
+  impact?: A11yImpact;
+  selector?: string;
 }
 
 export interface LogEntry {
@@ -115,6 +222,93 @@ export interface LogEntry {
   level: 'info' | 'warn' | 'error' | 'debug';
   message: string;
   data?: unknown;
+  source?: 'console' | 'exception' | 'rejection'; // Set for entries captured from the page
+  stack?: string;
+}
+
+// Page state recorded around a step for the trace viewer
+export interface StepTrace {
+  id: string;
+  runId: string;
+  order: number; // Position in the run, attempts included
+  stepId: string;
+  stepName: string;
+  dataSetIndex: number;
+  attempt?: number;
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+  before: TraceFrame;
+  after: TraceFrame;
+}
+
+export interface TraceFrame {
+  timestamp: number;
+  url: string;
+  title: string;
+  variables: Record<string, string>;
+  dom?: string; // Serialized document, styles inlined; missing if the page couldn't be read
+  screenshot?: string; // Data URL of the visible tab
+}
+
+// Attribute on a trace DOM's <html> holding the page's "scrollX,scrollY"
+export const SNAPSHOT_SCROLL_ATTRIBUTE = 'data-qaerx-scroll';
+
+// Background test runner types
+export interface RunRequest {
+  testId: string;
+  suiteId: string;
+  testName: string;
+  url?: string;
+  steps: UIStep[];
+  dataSets: Record<string, string>[];
+  dataSetScenarios: ScenarioType[];
+  dialogPolicy?: DialogPolicy;
+  retryPolicy?: TestRetryPolicy;
+  failOnPageError?: boolean;
+  mockRules?: MockRule[];
+  performanceBudget?: PerformanceBudget;
+  storageState?: string;
+  clearState?: boolean;
+  tabId?: number;
+}
+
+export interface RunStepResult {
+  dataSetIndex: number;
+  stepId: string;
+  status: 'passed' | 'failed' | 'skipped'; // skipped: the step is disabled
+  error?: string;
+  duration: number;
+  pageResponse?: string;
+  aiValidation?: AIValidationData;
+  assertionResults?: AssertionResult[];
+  healed?: boolean; // Passed only after retrying with selectorHealing's selectors
+  selectorHealing?: SelectorHealingSuggestion;
+  dialogs?: DialogInfo[];
+  extracted?: ExtractedValue;
+  attempt?: number;
+  retried?: boolean;
+  domSnapshot?: string;
+  logs?: LogEntry[];
+  network?: NetworkEntry[];
+  screenshotId?: string;
+}
+
+export interface RunProgress {
+  runId: string;
+  testId: string;
+  testName: string;
+  tabId: number;
+  status: 'running' | 'stopping' | Exclude<TestRun['status'], 'running'>;
+  currentStep: number;
+  total: number;
+  currentDataSet: number;
+  totalDataSets: number;
+  currentStepId: string | null;
+  results: RunStepResult[];
+  startedAt: number;
+  completedAt?: number;
+  error?: string;
+  budgetViolations?: BudgetViolation[]; // Set when the run completes
 }
 
 // AI Failure Analysis types
@@ -1,3 +1,5 @@
+import type { Screenshot } from './result';
+
 export interface Settings {
   id: 'app-settings';
   openaiApiKey?: string;
@@ -6,6 +8,8 @@ export interface Settings {
   screenshotQuality: number;
   recordMouseMovements: boolean;
   recordScrollEvents: boolean;
+  autoHealSelectors?: boolean; // Retry steps whose element is missing with healed selectors
+  traceSteps?: boolean; // Record DOM, screenshot, URL and variables around every step
   onboardingCompleted: boolean;
   tutorialProgress: number;
   theme: 'dark';
@@ -35,6 +39,9 @@ export interface ScreenshotRecord {
   height: number;
   isBaseline: boolean;
   name?: string;
+  dataSetIndex?: number; // Baselines are kept per data set
+  diff?: Screenshot['diff']; // Comparison of a run's screenshot against its baseline
+  sourceId?: string; // Run screenshot a baseline was approved from
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -44,6 +51,8 @@ export const DEFAULT_SETTINGS: Settings = {
   screenshotQuality: 80,
   recordMouseMovements: false,
   recordScrollEvents: true,
+  autoHealSelectors: false,
+  traceSteps: false,
   onboardingCompleted: false,
   tutorialProgress: 0,
   theme: 'dark',
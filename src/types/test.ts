@@ -32,6 +32,13 @@ export interface Test {
   order: number;
   credentialId?: string;
   dataSource?: TestDataSource;
+  dialogPolicy?: DialogPolicy; // Answer for dialogs no dialog step handles; accept by default
+  retryPolicy?: TestRetryPolicy; // No retries by default
+  failOnPageError?: boolean; // Uncaught exceptions and unhandled rejections in the page fail the step
+  mockRules?: MockRule[];
+  performanceBudget?: PerformanceBudget;
+  storageState?: string; // Name of a saved storage state restored before the test URL opens
+  clearState?: boolean; // Wipe the test URL's site data before each data set
   steps: Step[];
   tags?: string[];
 }
@@ -43,6 +50,100 @@ export interface TestDataSource {
   sourceFile?: string;
 }
 
+// How native dialogs (alert, confirm, prompt, beforeunload) are answered during playback
+export interface DialogPolicy {
+  action: 'accept' | 'dismiss';
+  promptText?: string; // Answer for prompt(); defaults to the prompt's default value
+}
+
+// Retries of a failed step; the delay before retry n is delay * backoff^(n-1)
+export interface RetryPolicy {
+  retries: number;
+  delay: number; // ms
+  backoff?: number; // 1 (default) keeps the delay fixed
+}
+
+// A test's retries: of each failing step (steps with their own policy keep it),
+// or of the whole data set from the start
+export interface TestRetryPolicy extends RetryPolicy {
+  scope: 'step' | 'dataSet';
+}
+
+// A network rule applied while the test runs. The pattern matches anywhere in
+// the URL, * matching any characters; the first enabled rule that matches wins.
+// Blocks apply to every request, mocks and delays to fetch/XHR only.
+export interface MockRule {
+  id: string;
+  enabled: boolean;
+  urlPattern: string;
+  method?: string; // Any method when unset
+  action: 'mock' | 'block' | 'delay';
+  status?: number; // mock; 200 by default
+  headers?: Record<string, string>; // mock
+  body?: string; // mock
+  delay?: number; // ms before the mocked response, or before a delayed request is sent
+}
+
+// Limits on every page a test visits; exceeding one fails the run. Times in ms,
+// transferSize in bytes; blockingTime, resources and transferSize add up per page.
+export interface PerformanceBudget {
+  ttfb?: number;
+  fcp?: number;
+  load?: number;
+  lcp?: number;
+  cls?: number;
+  inp?: number;
+  blockingTime?: number;
+  resources?: number;
+  transferSize?: number;
+}
+
+export type PerformanceMetric = keyof PerformanceBudget;
+
+// Files attached to a test for upload steps, stored as Blobs
+export interface TestFixture {
+  id: string;
+  testId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  data: Blob;
+  createdAt: number;
+}
+
+// A fixture on its way to the content script; Blobs don't survive extension messaging
+export interface FixtureFile {
+  name: string;
+  mimeType: string;
+  data: string; // base64
+}
+
+// Cookies and web storage of an origin, saved by a saveStorageState step so
+// other tests can start already signed in. Names are unique; saving replaces.
+export interface StorageState {
+  id: string;
+  name: string;
+  origin: string;
+  cookies: StoredCookie[];
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+  testId: string; // Test whose step saved it
+  createdAt: number;
+}
+
+// The parts of a chrome.cookies.Cookie needed to set it again
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  hostOnly: boolean;
+  sameSite: 'no_restriction' | 'lax' | 'strict' | 'unspecified';
+  expirationDate?: number; // Session cookie when unset
+}
+
 // Step types
 // Note: APIStep is defined but not yet implemented in the UI/playback engine
 // TODO: Implement API testing feature in v2.0
@@ -55,6 +156,7 @@ export interface BaseStep {
   description?: string;
   enabled: boolean;
   continueOnFailure: boolean;
+  retry?: RetryPolicy;
   dataBindings?: DataBinding[];
 }
 
@@ -83,25 +185,85 @@ export type UIAction =
   | { type: 'check' }
   | { type: 'uncheck' }
   | { type: 'hover' }
+  | { type: 'dialog'; action: DialogPolicy['action']; promptText?: string; expectedMessage?: string } // Answers the next dialog; placed before the step that opens it
+  | { type: 'upload'; files: string[] } // Fixture names (may use {{variable}}); empty clears the input
+  | { type: 'drag'; targetSelectors?: SelectorStrategy[]; offset?: { x: number; y: number } } // Drag the step's element onto targetSelectors, or by offset pixels
   | { type: 'scroll'; x?: number; y?: number; toElement?: boolean }
   | { type: 'navigate'; url: string }
   | { type: 'reload' }
   | { type: 'goBack' }
   | { type: 'goForward' }
+  | { type: 'waitForPopup'; timeout?: number } // Continue in the next tab/window opened by the test's tabs
+  | { type: 'switchTab'; index?: number; url?: string } // index 0 is the starting tab; url matches by substring
+  | { type: 'closeTab' } // Close the current tab and continue in the tab that opened it
   | { type: 'waitForElement' }
   | { type: 'waitTime'; duration: number }
-  | { type: 'screenshot'; fullPage?: boolean }
-  | { type: 'press'; key: string; modifiers?: string[] };
+  | { type: 'screenshot'; fullPage?: boolean; element?: boolean } // element clips to the step's target element
+  | A11yAuditAction
+  | { type: 'saveStorageState'; name: string } // Saves the current origin's cookies and local/session storage as a storage state (name may use {{variable}})
+  | { type: 'press'; key: string; modifiers?: string[] }
+  | ExtractAction
+  | { type: 'script'; code: string; variable?: string; expected?: string } // Async function body run in the page's MAIN world with `vars`; the result can be stored and/or compared to expected
+  | { type: 'if'; condition: StepCondition; then: UIStep[]; else?: UIStep[] }
+  | { type: 'repeat'; times: number; until?: StepCondition; steps: UIStep[] } // With until, times caps the iterations
+  | { type: 'forEach'; items: string; variable: string; steps: UIStep[] }; // items: JSON array or comma-separated list, may use {{variable}}
+
+// Stores a value from the page into a variable that later steps read as {{variable}}.
+// pattern: regex applied to the value; keeps its first capture group, or the whole match
+export interface ExtractAction {
+  type: 'extract';
+  variable: string;
+  source: 'text' | 'attribute' | 'value' | 'url'; // url needs no element
+  attribute?: string;
+  urlPart?: 'href' | 'pathname' | 'search' | 'hash';
+  pattern?: string;
+}
+
+// Checks the step's element, or the whole page when the step has no selectors,
+// for accessibility problems. Violations below minImpact are reported but don't
+// fail the step; baseline lists known ones as "rule selector".
+export interface A11yAuditAction {
+  type: 'a11yAudit';
+  minImpact?: A11yImpact;
+  disabledRules?: A11yRuleId[];
+  baseline?: string[];
+}
+
+export type A11yImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+export type A11yRuleId =
+  | 'image-alt'
+  | 'label'
+  | 'color-contrast'
+  | 'duplicate-id'
+  | 'aria-roles'
+  | 'heading-order'
+  | 'empty-heading'
+  | 'focusable-name'
+  | 'aria-hidden-focus'
+  | 'document-title'
+  | 'html-lang';
+
+// Condition of an if/repeat block; element conditions test the block step's own selectors
+export type StepCondition =
+  | { type: 'element'; state: 'visible' | 'hidden'; timeout?: number } // timeout: how long to wait for the state before answering false
+  | { type: 'variable'; variable: string; operator: 'equals' | 'notEquals' | 'contains' | 'isEmpty' | 'isNotEmpty'; value?: string };
 
 // Selector types
 export interface SelectorStrategy {
   type: 'data-testid' | 'data-cy' | 'aria' | 'css' | 'text' | 'xpath';
-  value: string;
+  value: string; // CSS-based values may pierce open shadow roots: 'my-app >>> input[name="q"]'
   priority: number;
   confidence: number;
-  frameSelector?: string;
+  frameSelector?: string; // iframe selector(s), outermost first, joined by FRAME_SEPARATOR
 }
 
+// Separates the selectors of nested iframes in SelectorStrategy.frameSelector
+export const FRAME_SEPARATOR = ' |> ';
+
+// Separates a shadow host selector from the selector queried inside its shadow root
+export const SHADOW_SEPARATOR = ' >>> ';
+
 // Wait configuration
 export interface WaitConfig {
   strategy: 'visible' | 'hidden' | 'attached' | 'detached' | 'stable' | 'networkIdle';
@@ -167,10 +329,10 @@ export interface VisualAssertion {
   type: 'visual';
   baselineId?: string;
   tolerance: {
-    pixelThreshold: number;
-    colorThreshold: number;
+    pixelThreshold: number; // Percentage of pixels allowed to differ
+    colorThreshold: number; // 0-1, how far a pixel's color may drift before it counts as different
   };
-  ignoreRegions?: Region[];
+  ignoreRegions?: Region[]; // In CSS pixels of the viewport
   usePerceptualDiff?: boolean;
 }
 